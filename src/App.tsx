@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import { APP_ROUTE_PATTERNS } from "@/lib/app-routes";
 
 const queryClient = new QueryClient();
 
@@ -15,7 +16,10 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          {/* Every workspace route renders the same page, so switching between them keeps its state */}
+          {Object.values(APP_ROUTE_PATTERNS).map((path) => (
+            <Route key={path} path={path} element={<Index />} />
+          ))}
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
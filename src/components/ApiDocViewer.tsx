@@ -1,4 +1,5 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { 
@@ -9,32 +10,69 @@ import {
   DrawerTitle
 } from '@/components/ui/drawer';
 import { FileUpload } from './FileUpload';
-import { YamlEditor } from './YamlEditor';
+import { YamlEditor, type EditorCommand } from './YamlEditor';
 import { TryItConsole } from './TryItConsole';
-import { RedocViewer } from './RedocViewer';
+import { RedocViewer, type RedocSection } from './RedocViewer';
 import { OnboardingTutorial } from './OnboardingTutorial';
 import { NavigationTabs } from './NavigationTabs';
 import { Settings, ChevronLeft, ChevronRight, PanelRightClose, PanelRightOpen, Menu, Plus, X, FileText } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-
-interface ApiSpec {
-  id: string;
-  name: string;
-  content: string;
-  parsed: any;
-}
+import { bundleSpec, parseSpecContent, type SpecFile } from '@/lib/spec-bundle';
+import { DEFAULT_RULESET, type Ruleset } from '@/lib/spec-lint';
+import { SAMPLE_SPEC, SAMPLE_SPEC_ID, SAMPLE_SPEC_NAME, SAMPLE_SPEC_YAML } from '@/lib/sample-spec';
+import { createSpecId, type ApiSpec, type WorkspaceSnapshot } from '@/lib/workspace-store';
+import { useWorkspacePersistence } from '@/hooks/use-workspace-persistence';
+import { useSpecRevisions } from '@/hooks/use-spec-revisions';
+import { useToast } from '@/hooks/use-toast';
+import { deleteRevisions, type SpecRevision } from '@/lib/revision-store';
+import { deleteRequestData } from '@/lib/request-store';
+import { deleteEnvironments } from '@/lib/environment-store';
+import type { OpenApiDocument } from '@/lib/openapi-types';
+import { buildAppPath, parseAppPath, type AppTab } from '@/lib/app-routes';
+import { RevisionHistory } from './RevisionHistory';
+import { SpecComparePanel } from './SpecComparePanel';
+import { convertSpec, type ConversionTarget } from '@/lib/spec-convert';
+import { detectSpecVersion } from '@/lib/spec-validation';
+import * as yaml from 'js-yaml';
+import { SpecActionsMenu } from './SpecActionsMenu';
+import { CommandPalette } from './CommandPalette';
+import type { SearchDestination, SpecSearchEntry } from '@/lib/spec-search';
+import { downloadDocument, exportStandaloneDocs, getDocsFileName, type DocsFormat } from '@/lib/docs-export';
+import { exportDocsMarkdown } from '@/lib/docs-markdown';
+import { exportPrintDocs, printDocument } from '@/lib/docs-print';
 
 interface ApiDocViewerProps {}
 
+const MISSING_SPEC_TOAST = {
+  title: "Specification not found",
+  description: "The link points to a specification that is not in this workspace",
+  variant: "destructive" as const,
+};
+
 export const ApiDocViewer: React.FC<ApiDocViewerProps> = () => {
   const [specs, setSpecs] = useState<ApiSpec[]>([]);
   const [selectedSpecId, setSelectedSpecId] = useState<string>('');
   const [activeTab, setActiveTab] = useState('upload');
+  // Operation open in the Try It console, part of its URL
+  const [operationId, setOperationId] = useState('');
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [editorCollapsed, setEditorCollapsed] = useState(false);
   const [mobileDrawerOpen, setMobileDrawerOpen] = useState(false);
   const [showOnboarding, setShowOnboarding] = useState(true);
+  const [lintRuleset, setLintRuleset] = useState<Ruleset>(DEFAULT_RULESET);
+  // Targets picked in the command palette, handled once by the editor and viewer
+  const [editorCommand, setEditorCommand] = useState<EditorCommand | null>(null);
+  const [viewerSection, setViewerSection] = useState<RedocSection | null>(null);
+  const { toast } = useToast();
+  const location = useLocation();
+  const navigate = useNavigate();
+  // The URL the app was opened with picks the spec and tab of the restored workspace
+  const initialRouteRef = useRef(parseAppPath(location.pathname));
+  // Path the workspace state and the URL last agreed on; null until the first sync after restoring
+  const syncedPathRef = useRef<string | null>(null);
+  const navigationRef = useRef({ navigate, pathname: location.pathname });
+  navigationRef.current = { navigate, pathname: location.pathname };
 
   // Check if user has seen onboarding before
   React.useEffect(() => {
@@ -59,751 +97,92 @@ export const ApiDocViewer: React.FC<ApiDocViewerProps> = () => {
   const spec = currentSpec?.content || '';
   const parsedSpec = currentSpec?.parsed || null;
 
-  // Load default sample spec on component mount
-  React.useEffect(() => {
-    if (specs.length > 0) return; // Don't reload if specs already exist
-    
-    const defaultSpec = {
-      openapi: "3.0.3",
-      info: {
-        title: "E-Commerce API",
-        description: "A comprehensive RESTful API for an e-commerce platform featuring product management, user authentication, order processing, and payment integration.",
-        version: "2.1.0",
-        contact: {
-          name: "API Support Team",
-          email: "api-support@ecommerce.com",
-          url: "https://ecommerce.com/support"
-        },
-        license: {
-          name: "MIT",
-          url: "https://opensource.org/licenses/MIT"
-        }
-      },
-      servers: [
-        {
-          url: "https://api.ecommerce.com/v2",
-          description: "Production server"
-        },
-        {
-          url: "https://staging-api.ecommerce.com/v2",
-          description: "Staging server"
-        },
-        {
-          url: "http://localhost:3000/api/v2",
-          description: "Development server"
-        }
-      ],
-      paths: {
-        "/products": {
-          get: {
-            summary: "Get all products",
-            description: "Retrieve a paginated list of products with optional filtering and sorting capabilities",
-            operationId: "getProducts",
-            tags: ["Products"],
-            parameters: [
-              {
-                name: "page",
-                in: "query",
-                description: "Page number for pagination",
-                schema: { type: "integer", minimum: 1, default: 1 }
-              },
-              {
-                name: "limit",
-                in: "query", 
-                description: "Number of products per page",
-                schema: { type: "integer", minimum: 1, maximum: 100, default: 20 }
-              },
-              {
-                name: "category",
-                in: "query",
-                description: "Filter by product category",
-                schema: { type: "string" }
-              },
-              {
-                name: "sort",
-                in: "query",
-                description: "Sort products by field",
-                schema: { type: "string", enum: ["name", "price", "created_at", "rating"] }
-              }
-            ],
-            responses: {
-              "200": {
-                description: "Successful response with product list",
-                content: {
-                  "application/json": {
-                    schema: {
-                      type: "object",
-                      properties: {
-                        products: {
-                          type: "array",
-                          items: { "$ref": "#/components/schemas/Product" }
-                        },
-                        pagination: { "$ref": "#/components/schemas/Pagination" }
-                      }
-                    }
-                  }
-                }
-              },
-              "400": {
-                description: "Bad request - invalid parameters",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/Error" }
-                  }
-                }
-              }
-            }
-          },
-          post: {
-            summary: "Create a new product",
-            description: "Add a new product to the catalog (requires admin privileges)",
-            operationId: "createProduct",
-            tags: ["Products"],
-            security: [{ "bearerAuth": [] }],
-            requestBody: {
-              required: true,
-              content: {
-                "application/json": {
-                  schema: { "$ref": "#/components/schemas/ProductCreateRequest" }
-                }
-              }
-            },
-            responses: {
-              "201": {
-                description: "Product created successfully",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/Product" }
-                  }
-                }
-              },
-              "400": {
-                description: "Invalid request data",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/Error" }
-                  }
-                }
-              },
-              "401": {
-                description: "Unauthorized - invalid token",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/Error" }
-                  }
-                }
-              },
-              "403": {
-                description: "Forbidden - insufficient privileges",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/Error" }
-                  }
-                }
-              }
-            }
-          }
-        },
-        "/products/{productId}": {
-          get: {
-            summary: "Get product by ID",
-            description: "Retrieve detailed information about a specific product",
-            operationId: "getProductById",
-            tags: ["Products"],
-            parameters: [
-              {
-                name: "productId",
-                in: "path",
-                required: true,
-                description: "Unique identifier for the product",
-                schema: { type: "string", format: "uuid" }
-              }
-            ],
-            responses: {
-              "200": {
-                description: "Product details",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/Product" }
-                  }
-                }
-              },
-              "404": {
-                description: "Product not found",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/Error" }
-                  }
-                }
-              }
-            }
-          },
-          put: {
-            summary: "Update product",
-            description: "Update an existing product (requires admin privileges)",
-            operationId: "updateProduct",
-            tags: ["Products"],
-            security: [{ "bearerAuth": [] }],
-            parameters: [
-              {
-                name: "productId",
-                in: "path",
-                required: true,
-                description: "Unique identifier for the product",
-                schema: { type: "string", format: "uuid" }
-              }
-            ],
-            requestBody: {
-              required: true,
-              content: {
-                "application/json": {
-                  schema: { "$ref": "#/components/schemas/ProductUpdateRequest" }
-                }
-              }
-            },
-            responses: {
-              "200": {
-                description: "Product updated successfully",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/Product" }
-                  }
-                }
-              },
-              "404": {
-                description: "Product not found"
-              },
-              "401": {
-                description: "Unauthorized"
-              },
-              "403": {
-                description: "Forbidden"
-              }
-            }
-          },
-          delete: {
-            summary: "Delete product",
-            description: "Remove a product from the catalog (requires admin privileges)",
-            operationId: "deleteProduct",
-            tags: ["Products"],
-            security: [{ "bearerAuth": [] }],
-            parameters: [
-              {
-                name: "productId",
-                in: "path",
-                required: true,
-                description: "Unique identifier for the product",
-                schema: { type: "string", format: "uuid" }
-              }
-            ],
-            responses: {
-              "204": {
-                description: "Product deleted successfully"
-              },
-              "404": {
-                description: "Product not found"
-              },
-              "401": {
-                description: "Unauthorized"
-              },
-              "403": {
-                description: "Forbidden"
-              }
-            }
-          }
-        },
-        "/auth/login": {
-          post: {
-            summary: "User login",
-            description: "Authenticate user credentials and receive access token",
-            operationId: "login",
-            tags: ["Authentication"],
-            requestBody: {
-              required: true,
-              content: {
-                "application/json": {
-                  schema: { "$ref": "#/components/schemas/LoginRequest" }
-                }
-              }
-            },
-            responses: {
-              "200": {
-                description: "Login successful",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/AuthResponse" }
-                  }
-                }
-              },
-              "401": {
-                description: "Invalid credentials",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/Error" }
-                  }
-                }
-              }
-            }
-          }
-        },
-        "/orders": {
-          get: {
-            summary: "Get user orders",
-            description: "Retrieve orders for the authenticated user",
-            operationId: "getUserOrders",
-            tags: ["Orders"],
-            security: [{ "bearerAuth": [] }],
-            parameters: [
-              {
-                name: "status",
-                in: "query",
-                description: "Filter orders by status",
-                schema: { 
-                  type: "string", 
-                  enum: ["pending", "processing", "shipped", "delivered", "cancelled"] 
-                }
-              }
-            ],
-            responses: {
-              "200": {
-                description: "List of user orders",
-                content: {
-                  "application/json": {
-                    schema: {
-                      type: "array",
-                      items: { "$ref": "#/components/schemas/Order" }
-                    }
-                  }
-                }
-              },
-              "401": {
-                description: "Unauthorized"
-              }
-            }
-          },
-          post: {
-            summary: "Create new order",
-            description: "Place a new order for the authenticated user",
-            operationId: "createOrder",
-            tags: ["Orders"],
-            security: [{ "bearerAuth": [] }],
-            requestBody: {
-              required: true,
-              content: {
-                "application/json": {
-                  schema: { "$ref": "#/components/schemas/OrderCreateRequest" }
-                }
-              }
-            },
-            responses: {
-              "201": {
-                description: "Order created successfully",
-                content: {
-                  "application/json": {
-                    schema: { "$ref": "#/components/schemas/Order" }
-                  }
-                }
-              },
-              "400": {
-                description: "Invalid order data"
-              },
-              "401": {
-                description: "Unauthorized"
-              }
-            }
-          }
-        }
-      },
-      components: {
-        securitySchemes: {
-          bearerAuth: {
-            type: "http",
-            scheme: "bearer",
-            bearerFormat: "JWT"
-          }
-        },
-        schemas: {
-          Product: {
-            type: "object",
-            required: ["id", "name", "price", "category"],
-            properties: {
-              id: { type: "string", format: "uuid", description: "Unique product identifier" },
-              name: { type: "string", description: "Product name", example: "Wireless Bluetooth Headphones" },
-              description: { type: "string", description: "Detailed product description" },
-              price: { type: "number", format: "float", minimum: 0, description: "Product price in USD", example: 99.99 },
-              category: { type: "string", description: "Product category", example: "Electronics" },
-              sku: { type: "string", description: "Stock keeping unit", example: "WBH-001" },
-              stock_quantity: { type: "integer", minimum: 0, description: "Available quantity", example: 150 },
-              images: { 
-                type: "array", 
-                items: { type: "string", format: "uri" },
-                description: "Product image URLs"
-              },
-              rating: { type: "number", format: "float", minimum: 0, maximum: 5, description: "Average rating" },
-              created_at: { type: "string", format: "date-time" },
-              updated_at: { type: "string", format: "date-time" }
-            }
-          },
-          ProductCreateRequest: {
-            type: "object",
-            required: ["name", "price", "category"],
-            properties: {
-              name: { type: "string", minLength: 1, maxLength: 200 },
-              description: { type: "string", maxLength: 1000 },
-              price: { type: "number", format: "float", minimum: 0 },
-              category: { type: "string", minLength: 1 },
-              sku: { type: "string" },
-              stock_quantity: { type: "integer", minimum: 0, default: 0 },
-              images: { type: "array", items: { type: "string", format: "uri" } }
-            }
-          },
-          ProductUpdateRequest: {
-            type: "object",
-            properties: {
-              name: { type: "string", minLength: 1, maxLength: 200 },
-              description: { type: "string", maxLength: 1000 },
-              price: { type: "number", format: "float", minimum: 0 },
-              category: { type: "string", minLength: 1 },
-              stock_quantity: { type: "integer", minimum: 0 },
-              images: { type: "array", items: { type: "string", format: "uri" } }
-            }
-          },
-          LoginRequest: {
-            type: "object",
-            required: ["email", "password"],
-            properties: {
-              email: { type: "string", format: "email", example: "user@example.com" },
-              password: { type: "string", minLength: 6, format: "password", example: "secretpassword" }
-            }
-          },
-          AuthResponse: {
-            type: "object",
-            properties: {
-              access_token: { type: "string", description: "JWT access token" },
-              token_type: { type: "string", example: "Bearer" },
-              expires_in: { type: "integer", description: "Token expiration time in seconds", example: 3600 },
-              user: { "$ref": "#/components/schemas/User" }
-            }
-          },
-          User: {
-            type: "object",
-            properties: {
-              id: { type: "string", format: "uuid" },
-              email: { type: "string", format: "email" },
-              name: { type: "string" },
-              role: { type: "string", enum: ["customer", "admin"] },
-              created_at: { type: "string", format: "date-time" }
-            }
-          },
-          Order: {
-            type: "object",
-            properties: {
-              id: { type: "string", format: "uuid" },
-              user_id: { type: "string", format: "uuid" },
-              status: { type: "string", enum: ["pending", "processing", "shipped", "delivered", "cancelled"] },
-              total: { type: "number", format: "float", minimum: 0 },
-              items: { 
-                type: "array", 
-                items: { "$ref": "#/components/schemas/OrderItem" }
-              },
-              shipping_address: { "$ref": "#/components/schemas/Address" },
-              created_at: { type: "string", format: "date-time" },
-              updated_at: { type: "string", format: "date-time" }
-            }
-          },
-          OrderItem: {
-            type: "object",
-            properties: {
-              product_id: { type: "string", format: "uuid" },
-              quantity: { type: "integer", minimum: 1 },
-              price: { type: "number", format: "float", minimum: 0 }
-            }
-          },
-          OrderCreateRequest: {
-            type: "object",
-            required: ["items", "shipping_address"],
-            properties: {
-              items: { 
-                type: "array", 
-                items: { "$ref": "#/components/schemas/OrderItem" },
-                minItems: 1
-              },
-              shipping_address: { "$ref": "#/components/schemas/Address" }
-            }
-          },
-          Address: {
-            type: "object",
-            required: ["street", "city", "country", "postal_code"],
-            properties: {
-              street: { type: "string", example: "123 Main St" },
-              city: { type: "string", example: "New York" },
-              state: { type: "string", example: "NY" },
-              country: { type: "string", example: "USA" },
-              postal_code: { type: "string", example: "10001" }
-            }
-          },
-          Pagination: {
-            type: "object",
-            properties: {
-              page: { type: "integer", minimum: 1 },
-              limit: { type: "integer", minimum: 1 },
-              total: { type: "integer", minimum: 0 },
-              pages: { type: "integer", minimum: 0 }
-            }
-          },
-          Error: {
-            type: "object",
-            properties: {
-              error: { type: "string", description: "Error message" },
-              code: { type: "string", description: "Error code" },
-              details: { type: "object", description: "Additional error details" }
-            }
-          }
-        }
-      },
-      tags: [
-        { name: "Products", description: "Product management operations" },
-        { name: "Authentication", description: "User authentication endpoints" },
-        { name: "Orders", description: "Order management operations" }
-      ]
-    };
+  const workspaceSnapshot = useMemo<WorkspaceSnapshot>(() => ({
+    specs,
+    selectedSpecId,
+    activeTab,
+    theme,
+    sidebarCollapsed,
+    editorCollapsed,
+    lintRuleset
+  }), [specs, selectedSpecId, activeTab, theme, sidebarCollapsed, editorCollapsed, lintRuleset]);
 
-    const yamlContent = `openapi: 3.0.3
-info:
-  title: E-Commerce API
-  description: A comprehensive RESTful API for an e-commerce platform featuring product management, user authentication, order processing, and payment integration.
-  version: 2.1.0
-  contact:
-    name: API Support Team
-    email: api-support@ecommerce.com
-    url: https://ecommerce.com/support
-  license:
-    name: MIT
-    url: https://opensource.org/licenses/MIT
-
-servers:
-  - url: https://api.ecommerce.com/v2
-    description: Production server
-  - url: https://staging-api.ecommerce.com/v2
-    description: Staging server
-  - url: http://localhost:3000/api/v2
-    description: Development server
-
-paths:
-  /products:
-    get:
-      summary: Get all products
-      description: Retrieve a paginated list of products with optional filtering and sorting capabilities
-      operationId: getProducts
-      tags:
-        - Products
-      parameters:
-        - name: page
-          in: query
-          description: Page number for pagination
-          schema:
-            type: integer
-            minimum: 1
-            default: 1
-        - name: limit
-          in: query
-          description: Number of products per page
-          schema:
-            type: integer
-            minimum: 1
-            maximum: 100
-            default: 20
-        - name: category
-          in: query
-          description: Filter by product category
-          schema:
-            type: string
-        - name: sort
-          in: query
-          description: Sort products by field
-          schema:
-            type: string
-            enum: [name, price, created_at, rating]
-      responses:
-        '200':
-          description: Successful response with product list
-          content:
-            application/json:
-              schema:
-                type: object
-                properties:
-                  products:
-                    type: array
-                    items:
-                      $ref: '#/components/schemas/Product'
-                  pagination:
-                    $ref: '#/components/schemas/Pagination'
-        '400':
-          description: Bad request - invalid parameters
-          content:
-            application/json:
-              schema:
-                $ref: '#/components/schemas/Error'
-    post:
-      summary: Create a new product
-      description: Add a new product to the catalog (requires admin privileges)
-      operationId: createProduct
-      tags:
-        - Products
-      security:
-        - bearerAuth: []
-      requestBody:
-        required: true
-        content:
-          application/json:
-            schema:
-              $ref: '#/components/schemas/ProductCreateRequest'
-      responses:
-        '201':
-          description: Product created successfully
-          content:
-            application/json:
-              schema:
-                $ref: '#/components/schemas/Product'
-        '400':
-          description: Invalid request data
-        '401':
-          description: Unauthorized - invalid token
-        '403':
-          description: Forbidden - insufficient privileges
-
-components:
-  securitySchemes:
-    bearerAuth:
-      type: http
-      scheme: bearer
-      bearerFormat: JWT
-  
-  schemas:
-    Product:
-      type: object
-      required: [id, name, price, category]
-      properties:
-        id:
-          type: string
-          format: uuid
-          description: Unique product identifier
-        name:
-          type: string
-          description: Product name
-          example: Wireless Bluetooth Headphones
-        description:
-          type: string
-          description: Detailed product description
-        price:
-          type: number
-          format: float
-          minimum: 0
-          description: Product price in USD
-          example: 99.99
-        category:
-          type: string
-          description: Product category
-          example: Electronics
-        sku:
-          type: string
-          description: Stock keeping unit
-          example: WBH-001
-        stock_quantity:
-          type: integer
-          minimum: 0
-          description: Available quantity
-          example: 150
-        images:
-          type: array
-          items:
-            type: string
-            format: uri
-          description: Product image URLs
-        rating:
-          type: number
-          format: float
-          minimum: 0
-          maximum: 5
-          description: Average rating
-        created_at:
-          type: string
-          format: date-time
-        updated_at:
-          type: string
-          format: date-time
-
-    ProductCreateRequest:
-      type: object
-      required: [name, price, category]
-      properties:
-        name:
-          type: string
-          minLength: 1
-          maxLength: 200
-        description:
-          type: string
-          maxLength: 1000
-        price:
-          type: number
-          format: float
-          minimum: 0
-        category:
-          type: string
-          minLength: 1
-        sku:
-          type: string
-        stock_quantity:
-          type: integer
-          minimum: 0
-          default: 0
-        images:
-          type: array
-          items:
-            type: string
-            format: uri
-
-    Error:
-      type: object
-      properties:
-        error:
-          type: string
-          description: Error message
-        code:
-          type: string
-          description: Error code
-        details:
-          type: object
-          description: Additional error details
-
-tags:
-  - name: Products
-    description: Product management operations
-  - name: Authentication
-    description: User authentication endpoints
-  - name: Orders
-    description: Order management operations`;
-
-    console.log('ApiDocViewer: Loading default E-Commerce API spec');
-    const defaultSpecObj: ApiSpec = {
-      id: 'default-ecommerce',
-      name: 'E-Commerce API',
-      content: yamlContent,
-      parsed: defaultSpec
-    };
-    setSpecs([defaultSpecObj]);
-    setSelectedSpecId('default-ecommerce');
-    // Keep default tab as 'upload' (Load Spec)
-  }, []);
+  // Restore the saved workspace; a first visit starts with the sample spec
+  const handleRestore = useCallback((saved: WorkspaceSnapshot | null) => {
+    if (saved) {
+      setSpecs(saved.specs);
+      setSelectedSpecId(saved.selectedSpecId);
+      setActiveTab(saved.activeTab);
+      setTheme(saved.theme);
+      setSidebarCollapsed(saved.sidebarCollapsed);
+      setEditorCollapsed(saved.editorCollapsed);
+      setLintRuleset(saved.lintRuleset || DEFAULT_RULESET);
+    } else {
+      setSpecs([{
+        id: SAMPLE_SPEC_ID,
+        name: SAMPLE_SPEC_NAME,
+        content: SAMPLE_SPEC_YAML,
+        parsed: SAMPLE_SPEC
+      }]);
+      setSelectedSpecId(SAMPLE_SPEC_ID);
+      // Keep default tab as 'upload' (Load Spec)
+    }
+
+    // A link opens its own spec, tab and operation instead of the saved selection
+    const route = initialRouteRef.current;
+    if (!route?.specId) return;
+    const specIds = saved ? saved.specs.map(item => item.id) : [SAMPLE_SPEC_ID];
+    if (!specIds.includes(route.specId)) {
+      toast(MISSING_SPEC_TOAST);
+      return;
+    }
+    setSelectedSpecId(route.specId);
+    setActiveTab(route.tab);
+    setOperationId(route.operationId || '');
+  }, [toast]);
+
+  const workspaceRestored = useWorkspacePersistence(workspaceSnapshot, handleRestore);
+  const { revisions, saveRevision } = useSpecRevisions(currentSpec, workspaceRestored);
+
+  // Back/forward and edited URLs move the workspace to the linked spec, tab and operation.
+  // Declared before the effect below so a URL change is applied before state is written back.
+  useEffect(() => {
+    if (!workspaceRestored || syncedPathRef.current === null) return;
+    if (location.pathname === syncedPathRef.current) return;
+    const route = parseAppPath(location.pathname);
+    if (!route) return;
+    if (route.specId && !specs.some(item => item.id === route.specId)) {
+      toast(MISSING_SPEC_TOAST);
+      navigate(syncedPathRef.current, { replace: true });
+      return;
+    }
+    syncedPathRef.current = buildAppPath(route);
+    if (route.specId) setSelectedSpecId(route.specId);
+    setActiveTab(route.tab);
+    if (route.tab === 'try-it') setOperationId(route.operationId || '');
+  }, [location.pathname, workspaceRestored, specs, navigate, toast]);
 
-  const handleSpecLoad = useCallback((newSpec: string, parsed: any) => {
+  const routePath = buildAppPath({ specId: selectedSpecId, tab: activeTab as AppTab, operationId });
+
+  // Selecting a spec, tab or operation adds a history entry; the first sync replaces the entry it was opened with
+  useEffect(() => {
+    if (!workspaceRestored || routePath === syncedPathRef.current) return;
+    const { navigate, pathname } = navigationRef.current;
+    const initial = syncedPathRef.current === null;
+    syncedPathRef.current = routePath;
+    if (routePath !== pathname) navigate(routePath, { replace: initial });
+  }, [routePath, workspaceRestored]);
+
+  const handleSpecLoad = useCallback((newSpec: string, parsed: OpenApiDocument, files?: SpecFile[], rootFile?: string) => {
     const title = parsed?.info?.title || 'Unnamed API';
-    const specId = `spec-${Date.now()}`;
+    const specId = createSpecId();
     const newSpecObj: ApiSpec = {
       id: specId,
       name: title,
       content: newSpec,
-      parsed: parsed
+      parsed: parsed,
+      files,
+      rootFile
     };
     setSpecs(prev => [...prev, newSpecObj]);
     setSelectedSpecId(specId);
@@ -819,7 +198,25 @@ tags:
     ));
   }, [selectedSpecId]);
 
+  const handleFileChange = useCallback((path: string, content: string) => {
+    if (!selectedSpecId) return;
+    setSpecs(prev => prev.map(spec => {
+      if (spec.id !== selectedSpecId || !spec.files) return spec;
+      const files = spec.files.map(file => file.path === path ? { ...file, content } : file);
+      const { document } = bundleSpec(files, spec.rootFile);
+      return {
+        ...spec,
+        files,
+        content: path === spec.rootFile ? content : spec.content,
+        parsed: document || spec.parsed
+      };
+    }));
+  }, [selectedSpecId]);
+
   const handleRemoveSpec = useCallback((specId: string) => {
+    deleteRevisions(specId).catch(error => console.error('Failed to delete revisions:', error));
+    deleteRequestData(specId).catch(error => console.error('Failed to delete request history:', error));
+    deleteEnvironments(specId).catch(error => console.error('Failed to delete environments:', error));
     setSpecs(prev => {
       const filtered = prev.filter(spec => spec.id !== specId);
       if (selectedSpecId === specId && filtered.length > 0) {
@@ -831,7 +228,139 @@ tags:
     });
   }, [selectedSpecId]);
 
+  const handleRenameSpec = useCallback((specId: string, name: string) => {
+    setSpecs(prev => prev.map(spec => spec.id === specId ? { ...spec, name } : spec));
+  }, []);
+
+  const handleDuplicateSpec = useCallback((specId: string) => {
+    const source = specs.find(spec => spec.id === specId);
+    if (!source) return;
+    const copy: ApiSpec = { ...source, id: createSpecId(), name: `${source.name} (copy)` };
+    setSpecs(prev => {
+      const index = prev.findIndex(spec => spec.id === specId);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+    setSelectedSpecId(copy.id);
+  }, [specs]);
+
+  const handleCheckpoint = useCallback((label: string) => {
+    saveRevision('checkpoint', label).catch(error => console.error('Failed to save checkpoint:', error));
+  }, [saveRevision]);
+
+  const handleRestoreRevision = useCallback(async (revision: SpecRevision) => {
+    let parsed: OpenApiDocument | null;
+    try {
+      parsed = revision.files
+        ? bundleSpec(revision.files, currentSpec?.rootFile).document
+        : parseSpecContent(revision.content) as OpenApiDocument;
+    } catch (error) {
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : "The revision could not be parsed",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Snapshot the current content first so the restore itself can be undone
+    await saveRevision('autosave', 'Before restore').catch(error => console.error('Failed to save revision:', error));
+    setSpecs(prev => prev.map(spec =>
+      spec.id === revision.specId
+        ? { ...spec, content: revision.content, files: revision.files ?? spec.files, parsed }
+        : spec
+    ));
+    toast({
+      title: "Revision restored",
+      description: `Restored ${revision.label || revision.kind} from ${new Date(revision.createdAt).toLocaleString()}`,
+    });
+  }, [currentSpec?.rootFile, saveRevision, toast]);
+
+  const handleConvert = useCallback((target: ConversionTarget) => {
+    if (!currentSpec?.parsed) return;
+    try {
+      const { document, warnings } = convertSpec(currentSpec.parsed, target);
+      const converted: ApiSpec = {
+        id: createSpecId(),
+        name: `${currentSpec.name} (OpenAPI ${target})`,
+        content: yaml.dump(document, { indent: 2, lineWidth: 120, noRefs: true }),
+        parsed: document
+      };
+      setSpecs(prev => [...prev, converted]);
+      setSelectedSpecId(converted.id);
+      toast({
+        title: "Specification converted",
+        description: warnings.length > 0
+          ? `Created "${converted.name}" with ${warnings.length} warning${warnings.length !== 1 ? 's' : ''}: ${warnings.join('; ')}`
+          : `Created "${converted.name}"`,
+      });
+    } catch (error) {
+      toast({
+        title: "Conversion failed",
+        description: error instanceof Error ? error.message : "Unable to convert this specification",
+        variant: "destructive",
+      });
+    }
+  }, [currentSpec, toast]);
+
+  const handleExportDocs = useCallback(async (format: DocsFormat) => {
+    if (!parsedSpec) return;
+    try {
+      if (format === 'pdf') {
+        await printDocument(exportPrintDocs(parsedSpec));
+        return;
+      }
+      let fileName: string;
+      if (format === 'markdown') {
+        fileName = getDocsFileName(parsedSpec, 'md');
+        downloadDocument(exportDocsMarkdown(parsedSpec), fileName, 'text/markdown');
+      } else {
+        fileName = getDocsFileName(parsedSpec, 'html');
+        downloadDocument(await exportStandaloneDocs(parsedSpec, theme), fileName, 'text/html');
+      }
+      toast({
+        title: "Docs exported",
+        description: `Documentation saved as ${fileName}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "The documentation could not be exported",
+        variant: "destructive",
+      });
+    }
+  }, [parsedSpec, theme, toast]);
+
+  const handleOpenSearchEntry = useCallback((entry: SpecSearchEntry, destination: SearchDestination) => {
+    setSelectedSpecId(entry.specId);
+    if (destination === 'try-it') {
+      setOperationId(entry.operationRouteId || '');
+    } else if (destination === 'viewer' && entry.sectionId) {
+      setViewerSection({ id: entry.sectionId });
+    } else {
+      setEditorCollapsed(false);
+      setEditorCommand({ type: 'reveal', segments: entry.segments });
+    }
+    setActiveTab(destination);
+  }, []);
+
+  // Formatting and downloading are done by the editor, which shows the result
+  const handleEditorCommand = useCallback((command: EditorCommand) => {
+    setEditorCollapsed(false);
+    setEditorCommand(command);
+    setActiveTab('editor');
+  }, []);
+
+  const clearEditorCommand = useCallback(() => setEditorCommand(null), []);
+  const clearViewerSection = useCallback(() => setViewerSection(null), []);
+
+  const toggleTheme = useCallback(() => {
+    setTheme(prev => (prev === 'dark' ? 'light' : 'dark'));
+  }, []);
+
   const renderContent = () => {
+    // Avoid flashing the empty workspace while the saved one loads
+    if (!workspaceRestored) return null;
+
     switch (activeTab) {
       case 'upload':
         return (
@@ -846,6 +375,8 @@ tags:
             <RedocViewer 
               spec={parsedSpec} 
               theme={theme}
+              section={viewerSection}
+              onSectionShown={clearViewerSection}
             />
           </div>
         );
@@ -854,7 +385,15 @@ tags:
         return (
           <div className="flex flex-col h-full">
             {/* Hide Editor Control - Above the editor */}
-            <div className="flex items-center justify-end px-4 py-2 border-b border-border bg-card/50">
+            <div className="flex items-center justify-end gap-2 px-4 py-2 border-b border-border bg-card/50">
+              <RevisionHistory
+                revisions={revisions}
+                currentContent={spec}
+                currentFiles={currentSpec?.files}
+                rootFile={currentSpec?.rootFile}
+                theme={theme}
+                onRestore={handleRestoreRevision}
+              />
               <Button
                 variant="outline"
                 size="sm"
@@ -882,6 +421,16 @@ tags:
                 <YamlEditor 
                   value={spec} 
                   onChange={handleSpecChange}
+                  files={currentSpec?.files}
+                  rootFile={currentSpec?.rootFile}
+                  onFileChange={handleFileChange}
+                  ruleset={lintRuleset}
+                  onRulesetChange={setLintRuleset}
+                  onCheckpoint={handleCheckpoint}
+                  specVersion={detectSpecVersion(parsedSpec)}
+                  onConvert={handleConvert}
+                  command={editorCommand}
+                  onCommandHandled={clearEditorCommand}
                 />
               </div>
               <div className={`${editorCollapsed ? 'w-full' : 'w-1/2'} transition-all duration-300 ease-in-out overflow-hidden`}>
@@ -895,7 +444,18 @@ tags:
         );
       
       case 'try-it':
-        return <TryItConsole spec={parsedSpec} theme={theme} />;
+        return (
+          <TryItConsole
+            spec={parsedSpec}
+            specId={selectedSpecId}
+            theme={theme}
+            operationId={operationId}
+            onOperationChange={setOperationId}
+          />
+        );
+
+      case 'compare':
+        return <SpecComparePanel specs={specs} selectedSpecId={selectedSpecId} />;
       
       default:
         return null;
@@ -928,6 +488,17 @@ tags:
 
             {/* Settings and theme controls can go here */}
             <div className="flex items-center gap-2">
+              <CommandPalette
+                specs={specs}
+                selectedSpecId={selectedSpecId}
+                activeTab={activeTab}
+                theme={theme}
+                onOpenEntry={handleOpenSearchEntry}
+                onSelectSpec={setSelectedSpecId}
+                onSelectTab={setActiveTab}
+                onEditorCommand={handleEditorCommand}
+                onToggleTheme={toggleTheme}
+              />
               {specs.length > 0 && (
                 <Select value={selectedSpecId} onValueChange={setSelectedSpecId}>
                   <SelectTrigger className="w-48">
@@ -942,6 +513,15 @@ tags:
                   </SelectContent>
                 </Select>
               )}
+              {currentSpec && (
+                <SpecActionsMenu
+                  specName={currentSpec.name}
+                  onRename={(name) => handleRenameSpec(currentSpec.id, name)}
+                  onDuplicate={() => handleDuplicateSpec(currentSpec.id)}
+                  onDelete={() => handleRemoveSpec(currentSpec.id)}
+                  onExportDocs={parsedSpec ? handleExportDocs : undefined}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -952,6 +532,7 @@ tags:
         activeTab={activeTab}
         onTabChange={setActiveTab}
         hasSpec={!!parsedSpec}
+        canCompare={specs.length > 1}
       />
 
       {/* Main Content */}
@@ -0,0 +1,275 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { KeyRound, Loader2, Lock, Unlock } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchOAuthToken,
+  getOAuthGrants,
+  hasCredentials,
+  listSecuritySchemes,
+  type OAuthGrant,
+  type SchemeCredentials,
+  type SecuritySchemeEntry,
+  type SpecCredentials,
+} from '@/lib/spec-security';
+import type { OpenApiDocument } from '@/lib/openapi-types';
+
+interface AuthorizeDialogProps {
+  spec: OpenApiDocument | null;
+  credentials: SpecCredentials;
+  onCredentialsChange: (credentials: SpecCredentials) => void;
+  // Relative token URLs are resolved against the selected server
+  serverUrl: string;
+}
+
+const KIND_LABELS: Record<SecuritySchemeEntry['kind'], string> = {
+  basic: 'HTTP Basic',
+  bearer: 'Bearer token',
+  apiKey: 'API key',
+  oauth2: 'OAuth 2.0',
+  unsupported: 'Unsupported',
+};
+
+const GRANT_LABELS: Record<OAuthGrant, string> = {
+  clientCredentials: 'Client credentials',
+  password: 'Password',
+};
+
+export const AuthorizeDialog: React.FC<AuthorizeDialogProps> = ({
+  spec,
+  credentials,
+  onCredentialsChange,
+  serverUrl
+}) => {
+  const [requestingToken, setRequestingToken] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const schemes = useMemo(() => listSecuritySchemes(spec), [spec]);
+  const authorizedCount = schemes.filter(entry => hasCredentials(entry.kind, credentials[entry.name])).length;
+
+  const updateScheme = useCallback((name: string, changes: Partial<SchemeCredentials>) => {
+    onCredentialsChange({ ...credentials, [name]: { ...credentials[name], ...changes } });
+  }, [credentials, onCredentialsChange]);
+
+  const clearScheme = useCallback((name: string) => {
+    const next = { ...credentials };
+    delete next[name];
+    onCredentialsChange(next);
+  }, [credentials, onCredentialsChange]);
+
+  const handleRequestToken = useCallback(async (entry: SecuritySchemeEntry, value: SchemeCredentials) => {
+    setRequestingToken(entry.name);
+    try {
+      let tokenUrl = value.tokenUrl || '';
+      try {
+        tokenUrl = new URL(tokenUrl, serverUrl).toString();
+      } catch {
+        // Leave unresolvable URLs for fetch to report
+      }
+      const token = await fetchOAuthToken({ ...value, tokenUrl });
+      updateScheme(entry.name, { token });
+      toast({
+        title: "Authorized",
+        description: `Access token received for ${entry.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Authorization failed",
+        description: error instanceof Error ? error.message : "Unable to request an access token",
+        variant: "destructive",
+      });
+    } finally {
+      setRequestingToken(null);
+    }
+  }, [serverUrl, updateScheme, toast]);
+
+  const renderField = (
+    entry: SecuritySchemeEntry,
+    field: keyof Pick<SchemeCredentials, 'username' | 'password' | 'token' | 'tokenUrl' | 'clientId' | 'clientSecret'>,
+    label: string,
+    value: string | undefined,
+    secret = false
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={`${entry.name}-${field}`} className="text-xs">{label}</Label>
+      <Input
+        id={`${entry.name}-${field}`}
+        type={secret ? 'password' : 'text'}
+        autoComplete="off"
+        value={value || ''}
+        onChange={(e) => updateScheme(entry.name, { [field]: e.target.value })}
+        className="h-8 font-mono text-sm"
+      />
+    </div>
+  );
+
+  const renderOAuthFields = (entry: SecuritySchemeEntry, value: SchemeCredentials) => {
+    const grants = getOAuthGrants(entry.scheme);
+    const grant = grants.find(item => item.grant === value.grant) || grants[0];
+    const selectedScopes = value.scopes || [];
+
+    return (
+      <>
+        {grants.length > 1 && (
+          <div className="space-y-1">
+            <Label className="text-xs">Grant type</Label>
+            <Select
+              value={grant.grant}
+              onValueChange={(next: OAuthGrant) => updateScheme(entry.name, {
+                grant: next,
+                tokenUrl: grants.find(item => item.grant === next)?.tokenUrl,
+              })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {grants.map(item => (
+                  <SelectItem key={item.grant} value={item.grant}>{GRANT_LABELS[item.grant]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {renderField(entry, 'tokenUrl', 'Token URL', value.tokenUrl ?? grant.tokenUrl)}
+        <div className="grid grid-cols-2 gap-2">
+          {renderField(entry, 'clientId', 'Client ID', value.clientId)}
+          {renderField(entry, 'clientSecret', 'Client secret', value.clientSecret, true)}
+        </div>
+        {grant.grant === 'password' && (
+          <div className="grid grid-cols-2 gap-2">
+            {renderField(entry, 'username', 'Username', value.username)}
+            {renderField(entry, 'password', 'Password', value.password, true)}
+          </div>
+        )}
+        {Object.keys(grant.scopes).length > 0 && (
+          <div className="space-y-1">
+            <Label className="text-xs">Scopes</Label>
+            <div className="space-y-1">
+              {Object.entries(grant.scopes).map(([scope, description]) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedScopes.includes(scope)}
+                    onCheckedChange={(checked) => updateScheme(entry.name, {
+                      scopes: checked ? [...selectedScopes, scope] : selectedScopes.filter(item => item !== scope),
+                    })}
+                  />
+                  <span className="font-mono">{scope}</span>
+                  {description && <span className="text-xs text-muted-foreground truncate">{description}</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+        <Button
+          size="sm"
+          variant="secondary"
+          disabled={requestingToken === entry.name}
+          onClick={() => handleRequestToken(entry, {
+            ...value,
+            grant: grant.grant,
+            tokenUrl: value.tokenUrl ?? grant.tokenUrl,
+          })}
+        >
+          {requestingToken === entry.name ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <KeyRound className="h-4 w-4 mr-2" />
+          )}
+          Get token
+        </Button>
+        {renderField(entry, 'token', 'Access token', value.token, true)}
+      </>
+    );
+  };
+
+  const renderScheme = (entry: SecuritySchemeEntry) => {
+    const value = credentials[entry.name] || {};
+    const authorized = hasCredentials(entry.kind, value);
+
+    return (
+      <div key={entry.name} className="rounded-md border border-border p-3 space-y-3">
+        <div className="flex items-center gap-2">
+          {authorized ? <Lock className="h-4 w-4 text-primary" /> : <Unlock className="h-4 w-4 text-muted-foreground" />}
+          <span className="font-medium">{entry.name}</span>
+          <Badge variant="outline" className="text-xs">{KIND_LABELS[entry.kind]}</Badge>
+          {entry.kind === 'apiKey' && (
+            <span className="text-xs text-muted-foreground font-mono">
+              {entry.scheme.in}: {entry.scheme.name}
+            </span>
+          )}
+          {authorized && (
+            <Button variant="ghost" size="sm" className="ml-auto h-7" onClick={() => clearScheme(entry.name)}>
+              Log out
+            </Button>
+          )}
+        </div>
+        {entry.scheme.description && (
+          <p className="text-xs text-muted-foreground">{entry.scheme.description}</p>
+        )}
+
+        {entry.kind === 'basic' && (
+          <div className="grid grid-cols-2 gap-2">
+            {renderField(entry, 'username', 'Username', value.username)}
+            {renderField(entry, 'password', 'Password', value.password, true)}
+          </div>
+        )}
+        {entry.kind === 'bearer' && renderField(entry, 'token', 'Token', value.token, true)}
+        {entry.kind === 'apiKey' && (
+          <>
+            {renderField(entry, 'token', 'Value', value.token, true)}
+            {entry.scheme.in === 'cookie' && (
+              <p className="text-xs text-muted-foreground">
+                Browsers do not let scripts set cookies on cross-origin requests; the cookie is sent to the mock server only.
+              </p>
+            )}
+          </>
+        )}
+        {entry.kind === 'oauth2' && renderOAuthFields(entry, value)}
+        {entry.kind === 'unsupported' && (
+          <p className="text-xs text-muted-foreground">
+            This scheme type ({entry.scheme.type}{entry.scheme.scheme ? ` ${entry.scheme.scheme}` : ''}) cannot be used from the console.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={schemes.length === 0}>
+          {authorizedCount > 0 ? <Lock className="h-4 w-4 mr-2" /> : <Unlock className="h-4 w-4 mr-2" />}
+          Authorize
+          {authorizedCount > 0 && (
+            <Badge variant="secondary" className="ml-2 h-5 px-1.5">{authorizedCount}</Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Authorize</DialogTitle>
+          <DialogDescription>
+            Credentials are applied to every operation that requires them and kept for this browser session only.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {schemes.map(renderScheme)}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Code2, Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { generateSnippet, SNIPPET_LANGUAGES, type SnippetLanguage, type SnippetRequest } from '@/lib/code-snippets';
+import { maskSecrets } from '@/lib/environment-variables';
+
+interface CodeSnippetDialogProps {
+  request: SnippetRequest | null;
+  // Credential and secret variable values, hidden unless the user reveals them
+  secrets: string[];
+  // Why the request could not be composed, shown in place of the snippet
+  error?: string;
+  disabled?: boolean;
+}
+
+export const CodeSnippetDialog: React.FC<CodeSnippetDialogProps> = ({ request, secrets, error, disabled }) => {
+  const [language, setLanguage] = useState<SnippetLanguage>('curl');
+  const [showSecrets, setShowSecrets] = useState(false);
+  const { toast } = useToast();
+
+  const snippet = useMemo(() => {
+    if (!request) return '';
+    const code = generateSnippet(language, request);
+    return showSecrets ? code : maskSecrets(code, secrets, 'REDACTED');
+  }, [request, language, showSecrets, secrets]);
+
+  const copySnippet = useCallback(() => {
+    navigator.clipboard.writeText(snippet);
+    toast({
+      title: "Copied",
+      description: `${SNIPPET_LANGUAGES.find(item => item.id === language)?.label} snippet copied to clipboard`,
+    });
+  }, [snippet, language, toast]);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled} title="Generate code for this request">
+          <Code2 className="h-4 w-4 mr-2" />
+          Code
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Code snippet</DialogTitle>
+          <DialogDescription>
+            The request as currently composed, with environment variables filled in. Files are read from the working directory.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <Tabs value={language} onValueChange={(value) => setLanguage(value as SnippetLanguage)}>
+            <TabsList>
+              {SNIPPET_LANGUAGES.map(item => (
+                <TabsTrigger key={item.id} value={item.id} className="text-xs">{item.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="flex items-center gap-3">
+            {secrets.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Switch id="snippet-secrets" checked={showSecrets} onCheckedChange={setShowSecrets} />
+                <Label htmlFor="snippet-secrets" className="text-xs">Show secrets</Label>
+              </div>
+            )}
+            <Button variant="outline" size="sm" onClick={copySnippet} disabled={!snippet}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+        </div>
+
+        {error ? (
+          <p className="rounded-md border border-destructive/50 bg-destructive/10 p-4 text-sm text-destructive">
+            {error}
+          </p>
+        ) : (
+          <pre className="flex-1 overflow-auto rounded-md bg-muted p-4 text-xs font-mono whitespace-pre">
+            {snippet || 'Select an endpoint and method to generate code.'}
+          </pre>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
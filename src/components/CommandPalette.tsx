@@ -0,0 +1,267 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import {
+  Braces,
+  Code,
+  Download,
+  FileText,
+  GitCompare,
+  Layers,
+  Moon,
+  Play,
+  Search,
+  SlidersHorizontal,
+  Sun,
+  Tag,
+  Upload,
+  Wand2,
+} from 'lucide-react';
+import {
+  buildSearchIndex,
+  canOpenIn,
+  getDefaultDestination,
+  searchIndex,
+  type SearchDestination,
+  type SearchEntryKind,
+  type SpecSearchEntry,
+} from '@/lib/spec-search';
+import type { ApiSpec } from '@/lib/workspace-store';
+import type { EditorCommand } from './YamlEditor';
+
+interface CommandPaletteProps {
+  specs: ApiSpec[];
+  selectedSpecId: string;
+  activeTab: string;
+  theme: 'light' | 'dark';
+  onOpenEntry: (entry: SpecSearchEntry, destination: SearchDestination) => void;
+  onSelectSpec: (specId: string) => void;
+  onSelectTab: (tab: string) => void;
+  onEditorCommand: (command: EditorCommand) => void;
+  onToggleTheme: () => void;
+}
+
+interface PaletteAction {
+  id: string;
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+  run: () => void;
+  // Extra words the action is found by
+  keywords?: string;
+}
+
+const KIND_GROUPS: { kind: SearchEntryKind; heading: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { kind: 'operation', heading: 'Operations', icon: Play },
+  { kind: 'tag', heading: 'Tags', icon: Tag },
+  { kind: 'schema', heading: 'Schemas', icon: Braces },
+  { kind: 'parameter', heading: 'Parameters', icon: SlidersHorizontal },
+];
+
+const DESTINATION_LABELS: Record<SearchDestination, string> = {
+  viewer: 'Docs',
+  editor: 'Editor',
+  'try-it': 'Try It',
+};
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+const MOD_KEY = IS_MAC ? '⌘' : 'Ctrl';
+
+const matchesQuery = (text: string, query: string) => {
+  const haystack = text.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  specs,
+  selectedSpecId,
+  activeTab,
+  theme,
+  onOpenEntry,
+  onSelectSpec,
+  onSelectTab,
+  onEditorCommand,
+  onToggleTheme,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  // Modifiers held when a result is picked choose where it opens
+  const modifiersRef = useRef({ shift: false, mod: false });
+  const currentSpec = specs.find(spec => spec.id === selectedSpecId);
+
+  // Ctrl/Cmd+K works everywhere, including inside the YAML editor
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== 'k' || !(event.metaKey || event.ctrlKey)) return;
+      event.preventDefault();
+      event.stopPropagation();
+      setOpen(prev => !prev);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  const changeOpen = useCallback((next: boolean) => {
+    setOpen(next);
+    if (!next) setQuery('');
+  }, []);
+
+  // Only built while the palette is open, so typing in the editor does not re-index
+  const index = useMemo(() => (open ? buildSearchIndex(specs) : []), [open, specs]);
+  const results = useMemo(() => searchIndex(index, query), [index, query]);
+  const specNames = useMemo(() => new Map(specs.map(spec => [spec.id, spec.name])), [specs]);
+
+  const actions = useMemo<PaletteAction[]>(() => {
+    const hasSpec = !!currentSpec?.parsed;
+    const tabs: PaletteAction[] = [
+      { id: 'tab:upload', label: 'Go to Upload', icon: Upload, run: () => onSelectTab('upload'), keywords: 'load import' },
+      ...(hasSpec ? [
+        { id: 'tab:viewer', label: 'Go to Viewer', icon: FileText, run: () => onSelectTab('viewer'), keywords: 'docs documentation redoc' },
+        { id: 'tab:editor', label: 'Go to Editor', icon: Code, run: () => onSelectTab('editor'), keywords: 'yaml' },
+        { id: 'tab:try-it', label: 'Go to Try It', icon: Play, run: () => onSelectTab('try-it'), keywords: 'console request' },
+      ] : []),
+      ...(specs.length > 1 ? [
+        { id: 'tab:compare', label: 'Go to Compare', icon: GitCompare, run: () => onSelectTab('compare'), keywords: 'diff changelog' },
+      ] : []),
+    ];
+    const documentActions: PaletteAction[] = hasSpec ? [
+      { id: 'format', label: 'Format document', icon: Wand2, run: () => onEditorCommand({ type: 'format' }), keywords: 'prettify yaml json' },
+      { id: 'download', label: 'Download specification', icon: Download, run: () => onEditorCommand({ type: 'download' }), keywords: 'save export' },
+    ] : [];
+    return [
+      ...tabs.filter(tab => tab.id !== `tab:${activeTab}`),
+      ...documentActions,
+      {
+        id: 'theme',
+        label: theme === 'dark' ? 'Switch to light theme' : 'Switch to dark theme',
+        icon: theme === 'dark' ? Sun : Moon,
+        run: onToggleTheme,
+        keywords: 'toggle theme appearance',
+      },
+    ];
+  }, [currentSpec, specs.length, activeTab, theme, onSelectTab, onEditorCommand, onToggleTheme]);
+
+  const specActions = useMemo<PaletteAction[]>(() => specs
+    .filter(spec => spec.id !== selectedSpecId)
+    .map(spec => ({
+      id: `spec:${spec.id}`,
+      label: `Switch to ${spec.name}`,
+      icon: Layers,
+      run: () => onSelectSpec(spec.id),
+      keywords: 'spec specification api',
+    })), [specs, selectedSpecId, onSelectSpec]);
+
+  const visibleActions = actions.filter(action => matchesQuery(`${action.label} ${action.keywords || ''}`, query));
+  const visibleSpecActions = specActions.filter(action => matchesQuery(`${action.label} ${action.keywords || ''}`, query));
+
+  const runAction = useCallback((action: PaletteAction) => {
+    changeOpen(false);
+    action.run();
+  }, [changeOpen]);
+
+  const openEntry = useCallback((entry: SpecSearchEntry) => {
+    const { shift, mod } = modifiersRef.current;
+    const requested: SearchDestination = mod ? 'try-it' : shift ? 'editor' : getDefaultDestination(entry);
+    changeOpen(false);
+    onOpenEntry(entry, canOpenIn(entry, requested) ? requested : getDefaultDestination(entry));
+  }, [changeOpen, onOpenEntry]);
+
+  const trackModifiers = useCallback((event: React.KeyboardEvent | React.PointerEvent) => {
+    modifiersRef.current = { shift: event.shiftKey, mod: event.metaKey || event.ctrlKey };
+  }, []);
+
+  const renderEntry = (entry: SpecSearchEntry, Icon: React.ComponentType<{ className?: string }>) => (
+    <CommandItem key={entry.key} value={entry.key} onSelect={() => openEntry(entry)} className="gap-2">
+      {entry.kind === 'operation' && entry.method ? (
+        <Badge variant="outline" className="w-16 justify-center font-mono text-[10px] uppercase">
+          {entry.method}
+        </Badge>
+      ) : (
+        <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+      )}
+      <div className="min-w-0 flex-1">
+        <div className="truncate font-mono text-xs">{entry.kind === 'operation' ? entry.segments[1] : entry.label}</div>
+        {entry.detail && <div className="truncate text-xs text-muted-foreground">{entry.detail}</div>}
+      </div>
+      {specs.length > 1 && (
+        <span className="max-w-[140px] truncate text-xs text-muted-foreground">{specNames.get(entry.specId)}</span>
+      )}
+      <CommandShortcut className="tracking-normal">{DESTINATION_LABELS[getDefaultDestination(entry)]}</CommandShortcut>
+    </CommandItem>
+  );
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => changeOpen(true)}
+        className="flex items-center gap-2 text-muted-foreground"
+        title="Search operations, schemas, tags and actions"
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden md:inline">Search</span>
+        <kbd className="hidden md:inline rounded border border-border px-1.5 font-mono text-[10px]">{MOD_KEY} K</kbd>
+      </Button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={changeOpen}
+        commandProps={{ shouldFilter: false, onKeyDown: trackModifiers, onPointerDown: trackModifiers }}
+      >
+        <CommandInput
+          value={query}
+          onValueChange={setQuery}
+          placeholder="Search operations, schemas, tags and parameters..."
+        />
+        <CommandList className="max-h-[420px]">
+          <CommandEmpty>No results found.</CommandEmpty>
+
+          {KIND_GROUPS.map(({ kind, heading, icon }) => {
+            const entries = results.filter(entry => entry.kind === kind);
+            return entries.length > 0 && (
+              <CommandGroup key={kind} heading={heading}>
+                {entries.map(entry => renderEntry(entry, icon))}
+              </CommandGroup>
+            );
+          })}
+
+          {visibleActions.length > 0 && (
+            <CommandGroup heading="Actions">
+              {visibleActions.map(action => (
+                <CommandItem key={action.id} value={action.id} onSelect={() => runAction(action)}>
+                  <action.icon className="mr-2 h-4 w-4" />
+                  {action.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {visibleSpecActions.length > 0 && (
+            <CommandGroup heading="Specifications">
+              {visibleSpecActions.map(action => (
+                <CommandItem key={action.id} value={action.id} onSelect={() => runAction(action)}>
+                  <action.icon className="mr-2 h-4 w-4" />
+                  <span className="truncate">{action.label}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+        <div className="flex items-center gap-4 border-t border-border px-3 py-2 text-[11px] text-muted-foreground">
+          <span>↵ open</span>
+          <span>Shift ↵ editor</span>
+          <span>{MOD_KEY} ↵ Try It</span>
+        </div>
+      </CommandDialog>
+    </>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { AlertCircle, ClipboardPaste } from 'lucide-react';
+import { importCurl } from '@/lib/curl-import';
+import type { OpenApiDocument } from '@/lib/openapi-types';
+import type { RequestSnapshot } from '@/lib/request-store';
+
+interface CurlImportDialogProps {
+  spec: OpenApiDocument | null;
+  onImport: (request: RequestSnapshot) => void;
+}
+
+export const CurlImportDialog: React.FC<CurlImportDialogProps> = ({ spec, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [command, setCommand] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = useCallback(() => {
+    if (!spec) return;
+    try {
+      const { request } = importCurl(spec, command);
+      onImport(request);
+      setOpen(false);
+      setCommand('');
+      setError(null);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : 'The command could not be imported');
+    }
+  }, [spec, command, onImport]);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2" title="Fill the console from a cURL command">
+          <ClipboardPaste className="h-4 w-4" />
+          Paste cURL
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import cURL command</DialogTitle>
+          <DialogDescription>
+            The request is matched to the closest endpoint of the specification. Files referenced with <code>-F name=@file</code> have to be picked again.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={command}
+          onChange={(e) => {
+            setCommand(e.target.value);
+            setError(null);
+          }}
+          placeholder={"curl -X POST 'https://api.example.com/v1/items' \\\n  -H 'Content-Type: application/json' \\\n  --data-raw '{\"name\": \"Item\"}'"}
+          className="min-h-[180px] font-mono text-xs"
+        />
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </p>
+        )}
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={!command.trim() || !spec}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Eye, EyeOff, Globe, Plus, Settings2, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { createEnvironmentId, type Environment, type EnvironmentVariable } from '@/lib/environment-store';
+import type { ServerObject } from '@/lib/openapi-types';
+
+interface EnvironmentSwitcherProps {
+  specId: string;
+  environments: Environment[];
+  activeId: string;
+  onActiveChange: (id: string) => void;
+  onSave: (environment: Environment) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  // Offered as a starting point, one environment per server
+  servers: ServerObject[];
+}
+
+// Radix Select items cannot use an empty string as their value
+const NO_ENVIRONMENT = '__none__';
+
+const DEFAULT_VARIABLES: EnvironmentVariable[] = [
+  { key: 'baseUrl', value: '', secret: false },
+  { key: 'token', value: '', secret: true },
+];
+
+const nameFromServer = (server: ServerObject, index: number) =>
+  server.description?.replace(/\s*(server|environment)$/i, '') || `Server ${index + 1}`;
+
+export const EnvironmentSwitcher: React.FC<EnvironmentSwitcherProps> = ({
+  specId,
+  environments,
+  activeId,
+  onActiveChange,
+  onSave,
+  onDelete,
+  servers
+}) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Environment | null>(null);
+  const [revealed, setRevealed] = useState<Record<number, boolean>>({});
+  const { toast } = useToast();
+
+  const reportFailure = useCallback((error: unknown) => {
+    console.error('Failed to update environments:', error);
+    toast({
+      title: "Environment not saved",
+      description: error instanceof Error ? error.message : "Environments could not be stored",
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const editEnvironment = useCallback((environment: Environment | null) => {
+    setDraft(environment && { ...environment, variables: environment.variables.map(variable => ({ ...variable })) });
+    setRevealed({});
+  }, []);
+
+  const openManager = useCallback(() => {
+    editEnvironment(environments.find(environment => environment.id === activeId) || environments[0] || null);
+    setOpen(true);
+  }, [environments, activeId, editEnvironment]);
+
+  const createEnvironment = useCallback(() => {
+    editEnvironment({
+      id: createEnvironmentId(),
+      specId,
+      name: `Environment ${environments.length + 1}`,
+      createdAt: Date.now(),
+      variables: DEFAULT_VARIABLES,
+    });
+  }, [specId, environments.length, editEnvironment]);
+
+  const createFromServers = useCallback(async () => {
+    const created = servers.map((server, index) => ({
+      id: createEnvironmentId(),
+      specId,
+      name: nameFromServer(server, index),
+      createdAt: Date.now() + index,
+      variables: [{ key: 'baseUrl', value: server.url, secret: false }, ...DEFAULT_VARIABLES.slice(1)],
+    }));
+    try {
+      for (const environment of created) {
+        await onSave(environment);
+      }
+    } catch (error) {
+      reportFailure(error);
+      return;
+    }
+    editEnvironment(created[0] || null);
+    if (!activeId && created[0]) onActiveChange(created[0].id);
+  }, [servers, specId, onSave, editEnvironment, activeId, onActiveChange, reportFailure]);
+
+  const updateVariable = useCallback((index: number, changes: Partial<EnvironmentVariable>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      variables: prev.variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)),
+    });
+  }, []);
+
+  const saveDraft = useCallback(async () => {
+    if (!draft) return;
+    try {
+      await onSave({ ...draft, variables: draft.variables.filter(variable => variable.key.trim()) });
+    } catch (error) {
+      reportFailure(error);
+      return;
+    }
+    if (!activeId) onActiveChange(draft.id);
+    toast({ title: "Environment saved", description: draft.name });
+  }, [draft, onSave, activeId, onActiveChange, reportFailure, toast]);
+
+  const deleteDraft = useCallback(async () => {
+    if (!draft) return;
+    try {
+      await onDelete(draft.id);
+    } catch (error) {
+      reportFailure(error);
+      return;
+    }
+    editEnvironment(environments.find(environment => environment.id !== draft.id) || null);
+  }, [draft, onDelete, environments, editEnvironment, reportFailure]);
+
+  const isSaved = !!draft && environments.some(environment => environment.id === draft.id);
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select
+        value={activeId || NO_ENVIRONMENT}
+        onValueChange={(value) => onActiveChange(value === NO_ENVIRONMENT ? '' : value)}
+      >
+        <SelectTrigger className="h-9 w-44" title="Environment">
+          <Globe className="h-4 w-4 mr-1 flex-shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_ENVIRONMENT}>No environment</SelectItem>
+          {environments.map(environment => (
+            <SelectItem key={environment.id} value={environment.id}>{environment.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="sm" onClick={openManager} title="Manage environments">
+        <Settings2 className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Environments</DialogTitle>
+            <DialogDescription>
+              Use <code>{'{{name}}'}</code> in the server URL, parameters, headers and body. Secret values are
+              masked and only kept for this browser session.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-[10rem_1fr] gap-4">
+            <div className="space-y-1">
+              {environments.map(environment => (
+                <Button
+                  key={environment.id}
+                  variant={draft?.id === environment.id ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="w-full justify-start truncate"
+                  onClick={() => editEnvironment(environment)}
+                >
+                  {environment.name}
+                </Button>
+              ))}
+              <Button variant="outline" size="sm" className="w-full" onClick={createEnvironment}>
+                <Plus className="h-3 w-3" /> New
+              </Button>
+              {environments.length === 0 && servers.length > 0 && (
+                <Button variant="outline" size="sm" className="w-full" onClick={createFromServers}>
+                  From servers
+                </Button>
+              )}
+            </div>
+
+            {draft ? (
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor="environment-name">Name</Label>
+                  <Input
+                    id="environment-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className="h-8"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Variables</Label>
+                  {draft.variables.map((variable, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        placeholder="Name"
+                        value={variable.key}
+                        onChange={(e) => updateVariable(index, { key: e.target.value })}
+                        className="w-32 h-8 font-mono text-sm"
+                      />
+                      <Input
+                        placeholder="Value"
+                        type={variable.secret && !revealed[index] ? 'password' : 'text'}
+                        value={variable.value}
+                        onChange={(e) => updateVariable(index, { value: e.target.value })}
+                        className="flex-1 h-8 text-sm"
+                      />
+                      {variable.secret && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRevealed(prev => ({ ...prev, [index]: !prev[index] }))}
+                          title={revealed[index] ? 'Hide value' : 'Show value'}
+                        >
+                          {revealed[index] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </Button>
+                      )}
+                      <div className="flex items-center gap-1">
+                        <Checkbox
+                          id={`environment-secret-${index}`}
+                          checked={variable.secret}
+                          onCheckedChange={(checked) => updateVariable(index, { secret: checked === true })}
+                        />
+                        <Label htmlFor={`environment-secret-${index}`} className="text-xs">Secret</Label>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraft({ ...draft, variables: draft.variables.filter((_, i) => i !== index) })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDraft({ ...draft, variables: [...draft.variables, { key: '', value: '', secret: false }] })}
+                  >
+                    <Plus className="h-3 w-3" /> Variable
+                  </Button>
+                </div>
+                <div className="flex justify-between pt-2">
+                  <Button variant="ghost" size="sm" onClick={deleteDraft} disabled={!isSaved}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                  <Button size="sm" onClick={saveDraft} disabled={!draft.name.trim()}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No environments yet. Create one to switch servers and tokens without retyping them.
+              </p>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -3,12 +3,16 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Upload, Link, FileText, AlertCircle } from 'lucide-react';
+import { Upload, Link, FileText, AlertCircle, FolderOpen } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import * as yaml from 'js-yaml';
+import JSZip from 'jszip';
+import { createSpecModel } from '@/lib/spec-model';
+import { bundleSpec, findRootFile, SPEC_FILE_PATTERN, stripCommonDirectory, type SpecFile } from '@/lib/spec-bundle';
+import type { OpenApiDocument } from '@/lib/openapi-types';
 
 interface FileUploadProps {
-  onSpecLoad: (spec: string, parsed: any) => void;
+  onSpecLoad: (spec: string, parsed: OpenApiDocument, files?: SpecFile[], rootFile?: string) => void;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({ onSpecLoad }) => {
@@ -42,12 +46,81 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onSpecLoad }) => {
     }
   }, []);
 
+  const warnUnresolvedRefs = useCallback((parsed: OpenApiDocument) => {
+    const { errors } = createSpecModel(parsed);
+    if (errors.length > 0) {
+      toast({
+        title: "Unresolved references",
+        description: `${errors.length} $ref${errors.length !== 1 ? 's' : ''} could not be resolved, e.g. ${errors[0].ref}`,
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  // Collects spec files from a folder, a multi-file selection or .zip archives
+  const readSpecFiles = useCallback(async (selected: File[]): Promise<SpecFile[]> => {
+    const files: SpecFile[] = [];
+    for (const file of selected) {
+      if (/\.zip$/i.test(file.name)) {
+        const archive = await JSZip.loadAsync(file);
+        const entries = Object.values(archive.files).filter(entry =>
+          !entry.dir && SPEC_FILE_PATTERN.test(entry.name) && !entry.name.startsWith('__MACOSX/')
+        );
+        for (const entry of entries) {
+          files.push({ path: entry.name, content: await entry.async('string') });
+        }
+      } else if (SPEC_FILE_PATTERN.test(file.name)) {
+        files.push({ path: file.webkitRelativePath || file.name, content: await file.text() });
+      }
+    }
+    return stripCommonDirectory(files);
+  }, []);
+
+  const loadMultiFileSpec = useCallback(async (selected: File[]) => {
+    const files = await readSpecFiles(selected);
+    if (files.length === 0) {
+      throw new Error('No .yaml, .yml or .json files found');
+    }
+
+    const rootFile = findRootFile(files);
+    if (!rootFile) {
+      throw new Error('None of the files declares an openapi or swagger version');
+    }
+
+    const { document, errors } = bundleSpec(files, rootFile);
+    if (!document) {
+      throw new Error(errors[0]?.message || 'Failed to combine specification files');
+    }
+
+    const rootContent = files.find(file => file.path === rootFile)!.content;
+    onSpecLoad(rootContent, document, files, rootFile);
+    toast({
+      title: "Success",
+      description: `Loaded ${document.info?.title || 'API specification'} from ${files.length} files (entry: ${rootFile}).`,
+    });
+    if (errors.length > 0) {
+      toast({
+        title: "Unresolved references",
+        description: `${errors.length} issue${errors.length !== 1 ? 's' : ''} combining files, e.g. ${errors[0].message}`,
+        variant: "destructive",
+      });
+    } else {
+      warnUnresolvedRefs(document);
+    }
+  }, [readSpecFiles, onSpecLoad, warnUnresolvedRefs, toast]);
+
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const selected = Array.from(event.target.files || []);
+    const file = selected[0];
     if (!file) return;
 
     setLoading(true);
     try {
+      if (selected.length > 1 || /\.zip$/i.test(file.name)) {
+        await loadMultiFileSpec(selected);
+        return;
+      }
+
       const content = await file.text();
       const parsed = parseSpec(content);
       
@@ -56,6 +129,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onSpecLoad }) => {
         title: "Success",
         description: `Loaded ${parsed.info?.title || 'API specification'} successfully.`,
       });
+      warnUnresolvedRefs(parsed);
     } catch (error) {
       toast({
         title: "Error",
@@ -67,7 +141,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onSpecLoad }) => {
       // Reset the input
       event.target.value = '';
     }
-  }, [parseSpec, onSpecLoad, toast]);
+  }, [parseSpec, loadMultiFileSpec, onSpecLoad, warnUnresolvedRefs, toast]);
 
   const handleUrlLoad = useCallback(async () => {
     if (!url.trim()) {
@@ -94,6 +168,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onSpecLoad }) => {
         title: "Success",
         description: `Loaded ${parsed.info?.title || 'API specification'} from URL successfully.`,
       });
+      warnUnresolvedRefs(parsed);
       setUrl('');
     } catch (error) {
       toast({
@@ -104,7 +179,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onSpecLoad }) => {
     } finally {
       setLoading(false);
     }
-  }, [url, parseSpec, onSpecLoad, toast]);
+  }, [url, parseSpec, onSpecLoad, warnUnresolvedRefs, toast]);
 
 
   return (
@@ -127,21 +202,34 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onSpecLoad }) => {
             <div className="border-2 border-dashed border-border rounded-lg p-8 text-center hover:border-primary/50 transition-colors">
               <input
                 type="file"
-                accept=".yaml,.yml,.json"
+                accept=".yaml,.yml,.json,.zip"
+                multiple
                 onChange={handleFileUpload}
                 disabled={loading}
                 className="hidden"
                 id="file-upload"
               />
+              <input
+                type="file"
+                {...({ webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+                onChange={handleFileUpload}
+                disabled={loading}
+                className="hidden"
+                id="folder-upload"
+              />
               <label htmlFor="file-upload" className="cursor-pointer space-y-2">
                 <Upload className="h-8 w-8 mx-auto text-muted-foreground" />
                 <div>
                   <p className="text-sm font-medium">Click to upload</p>
                   <p className="text-xs text-muted-foreground">
-                    Supports .yaml, .yml, and .json files
+                    Supports .yaml, .yml, and .json files, several files at once, or a .zip
                   </p>
                 </div>
               </label>
+              <label htmlFor="folder-upload" className="mt-3 inline-flex items-center gap-1 cursor-pointer text-xs text-primary hover:underline">
+                <FolderOpen className="h-3 w-3" />
+                Upload a folder
+              </label>
             </div>
           </TabsContent>
 
@@ -174,6 +262,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onSpecLoad }) => {
               <ul className="text-muted-foreground mt-1 space-y-1">
                 <li>• OpenAPI 3.0 and 3.1 (YAML or JSON)</li>
                 <li>• Swagger 2.0 (YAML or JSON)</li>
+                <li>• Multi-file specs with relative $refs (folder, .zip or several files)</li>
                 <li>• Remote URLs with CORS support</li>
               </ul>
             </div>
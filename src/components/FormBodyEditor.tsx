@@ -0,0 +1,86 @@
+import React, { useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Plus, X } from 'lucide-react';
+import type { FormField } from '@/lib/request-body';
+
+interface FormBodyEditorProps {
+  fields: FormField[];
+  onChange: (fields: FormField[]) => void;
+  // File parts are only possible in multipart bodies
+  allowFiles: boolean;
+}
+
+export const FormBodyEditor: React.FC<FormBodyEditorProps> = ({ fields, onChange, allowFiles }) => {
+  const updateField = useCallback((index: number, changes: Partial<FormField>) => {
+    onChange(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  }, [fields, onChange]);
+
+  const addField = useCallback((isFile: boolean) => {
+    onChange([...fields, { name: '', value: '', files: [], isFile, multiple: false, required: false, custom: true }]);
+  }, [fields, onChange]);
+
+  const removeField = useCallback((index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+  }, [fields, onChange]);
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, index) => (
+        <div key={index} className="flex items-center gap-2">
+          {field.custom ? (
+            <Input
+              placeholder="Name"
+              value={field.name}
+              onChange={(e) => updateField(index, { name: e.target.value })}
+              className="w-40 h-8 font-mono text-sm"
+            />
+          ) : (
+            <div className="w-40 min-w-0 flex items-center gap-1" title={field.description}>
+              <span className="font-mono text-sm truncate">{field.name}</span>
+              {field.required && <span className="text-destructive">*</span>}
+            </div>
+          )}
+          {field.isFile && allowFiles ? (
+            <div className="flex-1 min-w-0 flex items-center gap-2">
+              <Input
+                type="file"
+                multiple={field.multiple}
+                onChange={(e) => updateField(index, { files: Array.from(e.target.files || []) })}
+                className="h-8 text-xs"
+              />
+              {field.files.length > 1 && (
+                <Badge variant="secondary" className="text-xs flex-shrink-0">{field.files.length} files</Badge>
+              )}
+            </div>
+          ) : (
+            <Input
+              placeholder={field.multiple ? 'Comma-separated values' : 'Value'}
+              value={field.value}
+              onChange={(e) => updateField(index, { value: e.target.value })}
+              className="flex-1 h-8 text-sm"
+            />
+          )}
+          {field.custom ? (
+            <Button variant="ghost" size="sm" onClick={() => removeField(index)}>
+              <X className="h-4 w-4" />
+            </Button>
+          ) : (
+            <div className="w-9 flex-shrink-0" />
+          )}
+        </div>
+      ))}
+      <div className="flex gap-1">
+        <Button variant="outline" size="sm" onClick={() => addField(false)}>
+          <Plus className="h-3 w-3" /> Field
+        </Button>
+        {allowFiles && (
+          <Button variant="outline" size="sm" onClick={() => addField(true)}>
+            <Plus className="h-3 w-3" /> File
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
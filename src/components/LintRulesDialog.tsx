@@ -0,0 +1,143 @@
+import React, { useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, ListChecks, RotateCcw, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BUILT_IN_RULES,
+  DEFAULT_RULESET,
+  RULE_SEVERITIES,
+  getRuleSeverity,
+  parseRuleset,
+  serializeRuleset,
+  type RuleSeverity,
+  type Ruleset,
+} from '@/lib/spec-lint';
+
+interface LintRulesDialogProps {
+  ruleset: Ruleset;
+  onRulesetChange: (ruleset: Ruleset) => void;
+}
+
+const SEVERITY_LABELS: Record<RuleSeverity, string> = {
+  error: 'Error',
+  warn: 'Warning',
+  info: 'Info',
+  off: 'Off',
+};
+
+export const LintRulesDialog: React.FC<LintRulesDialogProps> = ({ ruleset, onRulesetChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const setSeverity = useCallback((ruleId: string, severity: RuleSeverity) => {
+    onRulesetChange({ rules: { ...ruleset.rules, [ruleId]: severity } });
+  }, [ruleset, onRulesetChange]);
+
+  const handleRulesetFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onRulesetChange(parseRuleset(await file.text()));
+      toast({
+        title: "Ruleset loaded",
+        description: `Lint rules from ${file.name} are now active`,
+      });
+    } catch (error) {
+      toast({
+        title: "Invalid ruleset",
+        description: error instanceof Error ? error.message : "Unable to read ruleset file",
+        variant: "destructive",
+      });
+    }
+  }, [onRulesetChange, toast]);
+
+  const handleExport = useCallback(() => {
+    const blob = new Blob([serializeRuleset(ruleset)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'lint-ruleset.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, [ruleset]);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Lint rules">
+          <ListChecks className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Lint rules</DialogTitle>
+          <DialogDescription>
+            Style-guide rules checked on top of the OpenAPI schema. Load a ruleset file (YAML or JSON with a
+            <code className="mx-1 font-mono">rules</code>map) to share settings across the team.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {BUILT_IN_RULES.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-4 rounded-md border border-border p-3">
+              <div className="min-w-0">
+                <div className="font-mono text-sm">{rule.id}</div>
+                <div className="text-xs text-muted-foreground">{rule.description}</div>
+              </div>
+              <Select
+                value={getRuleSeverity(ruleset, rule)}
+                onValueChange={(value) => setSeverity(rule.id, value as RuleSeverity)}
+              >
+                <SelectTrigger className="h-8 w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_SEVERITIES.map((severity) => (
+                    <SelectItem key={severity} value={severity}>
+                      {SEVERITY_LABELS[severity]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".yaml,.yml,.json"
+            className="hidden"
+            onChange={handleRulesetFile}
+          />
+          <Button variant="ghost" size="sm" onClick={() => onRulesetChange(DEFAULT_RULESET)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Defaults
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Load ruleset
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
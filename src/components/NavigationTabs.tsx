@@ -1,12 +1,14 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Upload, FileText, Code, Play } from 'lucide-react';
+import { Upload, FileText, Code, Play, GitCompare } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface NavigationTabsProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
   hasSpec?: boolean;
+  // Comparing needs at least two specs in the workspace
+  canCompare?: boolean;
 }
 
 interface TabItem {
@@ -19,7 +21,8 @@ interface TabItem {
 export const NavigationTabs: React.FC<NavigationTabsProps> = ({
   activeTab,
   onTabChange,
-  hasSpec = false
+  hasSpec = false,
+  canCompare = false
 }) => {
   const tabs: TabItem[] = [
     {
@@ -45,6 +48,12 @@ export const NavigationTabs: React.FC<NavigationTabsProps> = ({
       label: 'Try It',
       icon: Play,
       disabled: !hasSpec
+    },
+    {
+      id: 'compare',
+      label: 'Compare',
+      icon: GitCompare,
+      disabled: !canCompare
     }
   ];
 
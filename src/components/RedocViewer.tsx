@@ -1,22 +1,44 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { CardContent } from '@/components/ui/card';
+import { AlertTriangle } from 'lucide-react';
+import { useSpecModel } from '@/hooks/use-spec-model';
+import { withGeneratedExamples } from '@/lib/schema-sample';
+import { createRedocOptions, loadRedoc } from '@/lib/redoc-loader';
 
 interface RedocViewerProps {
   spec: any;
   theme?: 'light' | 'dark';
+  // Scrolled into view once per new object, as soon as Redoc has rendered it
+  section?: RedocSection | null;
+  onSectionShown?: () => void;
 }
 
-declare global {
-  interface Window {
-    Redoc: any;
-  }
+export interface RedocSection {
+  // End of the section id Redoc renders, e.g. `operation/getPets` or `tag/Pets`
+  id: string;
 }
 
-export const RedocViewer: React.FC<RedocViewerProps> = ({ spec, theme = 'dark' }) => {
+// Redoc slugifies tag names and prefixes operations with their tag
+const normalizeSectionId = (id: string) => id.toLowerCase().replace(/\s+/g, '-');
+
+const findSection = (root: HTMLElement, id: string): HTMLElement | undefined => {
+  const target = normalizeSectionId(id);
+  return Array.from(root.querySelectorAll<HTMLElement>('[data-section-id]')).find(element => {
+    const sectionId = normalizeSectionId(element.dataset.sectionId || '');
+    return sectionId === target || sectionId.endsWith(`/${target}`);
+  });
+};
+
+export const RedocViewer: React.FC<RedocViewerProps> = ({ spec, theme = 'dark', section, onSectionShown }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  // Element Redoc rendered into, and the spec it has finished rendering
+  const redocRootRef = useRef<HTMLElement | null>(null);
+  const [renderedSpec, setRenderedSpec] = useState<unknown>(null);
+  const handledSectionRef = useRef<RedocSection | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const currentSpecRef = useRef<any>(null);
+  const { errors: referenceErrors } = useSpecModel(spec);
 
   useEffect(() => {
     if (!spec || !containerRef.current) {
@@ -40,45 +62,7 @@ export const RedocViewer: React.FC<RedocViewerProps> = ({ spec, theme = 'dark' }
     
     const loadAndRenderRedoc = async () => {
       try {
-        // Check if Redoc is already loaded
-        if (!window.Redoc) {
-          console.log('RedocViewer: Loading Redoc script...');
-          
-          // Remove any existing Redoc scripts first
-          const existingScripts = document.querySelectorAll('script[src*="redoc"]');
-          existingScripts.forEach(script => script.remove());
-
-          // Load Redoc script with better error handling
-          await new Promise<void>((resolve, reject) => {
-            const script = document.createElement('script');
-            script.src = 'https://cdn.redoc.ly/redoc/latest/bundles/redoc.standalone.js';
-            script.crossOrigin = 'anonymous';
-            script.async = true;
-            
-            script.onload = () => {
-              console.log('RedocViewer: Redoc script loaded successfully');
-              // Wait a bit for Redoc to initialize
-              setTimeout(() => {
-                if (window.Redoc) {
-                  console.log('RedocViewer: Redoc object is available');
-                  resolve();
-                } else {
-                  console.error('RedocViewer: Redoc object not available after script load');
-                  reject(new Error('Redoc object not available after script load'));
-                }
-              }, 100);
-            };
-            
-            script.onerror = (error) => {
-              console.error('RedocViewer: Failed to load Redoc script', error);
-              reject(new Error('Failed to load Redoc script from CDN'));
-            };
-            
-            document.head.appendChild(script);
-          });
-        } else {
-          console.log('RedocViewer: Redoc already loaded');
-        }
+        const redoc = await loadRedoc();
 
         // Use stored container reference instead of checking ref again
         if (!container) {
@@ -95,6 +79,7 @@ export const RedocViewer: React.FC<RedocViewerProps> = ({ spec, theme = 'dark' }
         redocDiv.style.height = '100%';
         redocDiv.style.zIndex = '1';
         container.appendChild(redocDiv);
+        redocRootRef.current = redocDiv;
 
         console.log('RedocViewer: Initializing Redoc with spec');
 
@@ -103,68 +88,11 @@ export const RedocViewer: React.FC<RedocViewerProps> = ({ spec, theme = 'dark' }
           throw new Error('Invalid OpenAPI specification: missing version field');
         }
 
-        // Initialize Redoc with simplified options and proper white text colors
-        const options = {
-          theme: theme === 'light' ? {
-            colors: {
-              primary: {
-                main: '#3B82F6'
-              },
-              text: {
-                primary: '#1F2937'
-              }
-            },
-            sidebar: {
-              backgroundColor: '#F9FAFB',
-              textColor: '#374151'
-            },
-            rightPanel: {
-              backgroundColor: '#FFFFFF',
-              textColor: '#1F2937'
-            }
-          } : {
-            colors: {
-              primary: {
-                main: '#3B82F6'
-              },
-              text: {
-                primary: '#FFFFFF'
-              },
-              background: {
-                primary: '#0F172A'
-              }
-            },
-            sidebar: {
-              backgroundColor: '#1F2937',
-              textColor: '#FFFFFF'
-            },
-            rightPanel: {
-              backgroundColor: '#0F172A',
-              textColor: '#FFFFFF'
-            },
-            typography: {
-              color: '#FFFFFF',
-              headings: {
-                color: '#FFFFFF'
-              }
-            }
-          },
-          scrollYOffset: 0,
-          hideDownloadButton: false,
-          disableSearch: false,
-          expandResponses: '200,201',
-          nativeScrollbars: false,
-          hideNavigation: false,
-          stickyNavbar: true
-        };
-
-        // Double-check Redoc is available
-        if (!window.Redoc || typeof window.Redoc.init !== 'function') {
-          throw new Error('Redoc.init is not available');
-        }
+        const options = createRedocOptions(theme);
 
         // Initialize Redoc
-        window.Redoc.init(spec, options, redocDiv);
+        // Bodies without examples show the same generated payloads as the console and mock server
+        redoc.init(withGeneratedExamples(spec), options, redocDiv, () => setRenderedSpec(spec));
         console.log('RedocViewer: Redoc initialized successfully');
         setIsLoading(false);
         
@@ -209,6 +137,14 @@ export const RedocViewer: React.FC<RedocViewerProps> = ({ spec, theme = 'dark' }
     };
   }, [spec, theme]);
 
+  useEffect(() => {
+    const root = redocRootRef.current;
+    if (!section || handledSectionRef.current === section || renderedSpec !== spec || !root) return;
+    handledSectionRef.current = section;
+    findSection(root, section.id)?.scrollIntoView({ block: 'start' });
+    onSectionShown?.();
+  }, [section, spec, renderedSpec, onSectionShown]);
+
   if (!spec) {
     return (
       <CardContent className="h-full flex items-center justify-center">
@@ -249,6 +185,16 @@ export const RedocViewer: React.FC<RedocViewerProps> = ({ spec, theme = 'dark' }
 
   return (
     <div className={`h-full w-full relative ${theme === 'light' ? 'bg-white' : 'bg-[#0F172A]'}`}>
+      {referenceErrors.length > 0 && (
+        <div className="flex items-start gap-2 px-4 py-2 text-xs border-b border-border bg-muted/50 text-status-warning">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>
+            {referenceErrors.length} unresolved reference{referenceErrors.length !== 1 ? 's' : ''}:{' '}
+            {referenceErrors.slice(0, 3).map(issue => issue.ref).join(', ')}
+            {referenceErrors.length > 3 && ', …'}
+          </span>
+        </div>
+      )}
       <div 
         ref={containerRef} 
         className="h-full w-full relative z-0"
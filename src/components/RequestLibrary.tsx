@@ -0,0 +1,255 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Bookmark, Folder, FolderOpen, History, Play, Save, Search, Trash2 } from 'lucide-react';
+import type { HistoryEntry, RequestSnapshot, SavedRequest } from '@/lib/request-store';
+
+interface RequestLibraryProps {
+  history: HistoryEntry[];
+  saved: SavedRequest[];
+  // Opening fills the console; replaying also sends the request again
+  onOpen: (request: RequestSnapshot) => void;
+  onReplay: (request: RequestSnapshot) => void;
+  onDeleteHistoryEntry: (id: string) => void;
+  onClearHistory: () => void;
+  onDeleteSaved: (id: string) => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const statusClass = (status: number) => {
+  if (status >= 200 && status < 300) return 'text-green-600';
+  if (status >= 300 && status < 400) return 'text-yellow-600';
+  return 'text-destructive';
+};
+
+const matchesSearch = (entry: HistoryEntry, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const text = [
+    entry.request.method,
+    entry.request.url,
+    entry.request.mock ? 'mock' : '',
+    entry.response.status,
+    entry.response.statusText,
+  ].join(' ').toLowerCase();
+  return terms.every(term => text.includes(term));
+};
+
+const RequestSummary: React.FC<{ request: RequestSnapshot }> = ({ request }) => (
+  <div className="flex items-center gap-2 min-w-0">
+    <Badge variant="outline" className="font-mono text-xs flex-shrink-0">{request.method.toUpperCase()}</Badge>
+    <span className="font-mono text-xs truncate" title={request.url}>{request.url}</span>
+  </div>
+);
+
+export const RequestLibrary: React.FC<RequestLibraryProps> = ({
+  history,
+  saved,
+  onOpen,
+  onReplay,
+  onDeleteHistoryEntry,
+  onClearHistory,
+  onDeleteSaved,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const filteredHistory = useMemo(
+    () => history.filter(entry => matchesSearch(entry, search)),
+    [history, search]
+  );
+
+  const folders = useMemo(() => {
+    const grouped = new Map<string, SavedRequest[]>();
+    [...saved]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(item => grouped.set(item.folder, [...(grouped.get(item.folder) || []), item]));
+    // Requests outside any folder are listed last
+    return [...grouped.entries()].sort(([a], [b]) => (!a ? 1 : !b ? -1 : a.localeCompare(b)));
+  }, [saved]);
+
+  const handleOpen = useCallback((request: RequestSnapshot, replay: boolean) => {
+    if (replay) onReplay(request);
+    else onOpen(request);
+    setOpen(false);
+  }, [onOpen, onReplay]);
+
+  const renderActions = (request: RequestSnapshot, onDelete: () => void) => (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" onClick={() => handleOpen(request, false)}>
+        <FolderOpen className="h-4 w-4 mr-2" />
+        Open
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => handleOpen(request, true)}>
+        <Play className="h-4 w-4 mr-2" />
+        Replay
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onDelete} title="Delete">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2" title="Request history and saved requests">
+          <History className="h-4 w-4" />
+          Requests
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Requests</SheetTitle>
+          <SheetDescription>
+            Sent requests are recorded per spec. Credentials are not stored and are applied again when replaying.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="history" className="flex-1 flex flex-col min-h-0 mt-4">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="history">History ({history.length})</TabsTrigger>
+            <TabsTrigger value="saved">Saved ({saved.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="history" className="flex-1 flex flex-col min-h-0 space-y-2">
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Filter by method, URL or status"
+                  className="pl-8 h-9"
+                />
+              </div>
+              <Button variant="outline" size="sm" onClick={onClearHistory} disabled={history.length === 0}>
+                Clear
+              </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {filteredHistory.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {history.length === 0 ? 'No requests sent yet.' : 'No requests match the filter.'}
+                </p>
+              )}
+              {filteredHistory.map(entry => (
+                <div key={entry.id} className="rounded-md border border-border p-3 space-y-2">
+                  <RequestSummary request={entry.request} />
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className={`font-medium ${statusClass(entry.response.status)}`}>
+                      {entry.response.status || 'ERR'} {entry.response.statusText}
+                    </span>
+                    <span>{entry.response.duration}ms</span>
+                    {entry.request.mock && <Badge variant="secondary" className="text-xs">mock</Badge>}
+                    <span className="ml-auto">{formatTime(entry.createdAt)}</span>
+                  </div>
+                  {renderActions(entry.request, () => onDeleteHistoryEntry(entry.id))}
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="saved" className="flex-1 overflow-y-auto space-y-4">
+            {folders.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No saved requests. Use Save next to Execute Request to keep one.
+              </p>
+            )}
+            {folders.map(([folder, items]) => (
+              <div key={folder || 'unfiled'} className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <Folder className="h-4 w-4 text-muted-foreground" />
+                  {folder || 'Unfiled'}
+                </div>
+                {items.map(item => (
+                  <div key={item.id} className="rounded-md border border-border p-3 space-y-2">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <Bookmark className="h-3 w-3 text-primary flex-shrink-0" />
+                      <span className="truncate">{item.name}</span>
+                    </div>
+                    <RequestSummary request={item.request} />
+                    {renderActions(item.request, () => onDeleteSaved(item.id))}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+interface SaveRequestButtonProps {
+  folders: string[];
+  disabled?: boolean;
+  onSave: (name: string, folder: string) => void;
+}
+
+export const SaveRequestButton: React.FC<SaveRequestButtonProps> = ({ folders, disabled, onSave }) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [folder, setFolder] = useState('');
+
+  const handleSave = useCallback(() => {
+    if (!name.trim()) return;
+    onSave(name.trim(), folder.trim());
+    setOpen(false);
+    setName('');
+  }, [name, folder, onSave]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" disabled={disabled} title="Save request">
+          <Save className="h-4 w-4 mr-2" />
+          Save
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <div className="space-y-1">
+          <Label htmlFor="saved-request-name">Name</Label>
+          <Input
+            id="saved-request-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="e.g. Create product as admin"
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="saved-request-folder">Folder</Label>
+          <Input
+            id="saved-request-folder"
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Optional"
+            list="saved-request-folders"
+            className="h-8"
+          />
+          <datalist id="saved-request-folders">
+            {folders.map(item => <option key={item} value={item} />)}
+          </datalist>
+        </div>
+        <Button size="sm" className="w-full" onClick={handleSave} disabled={!name.trim()}>
+          Save request
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bookmark, GitCompare, History, RotateCcw } from 'lucide-react';
+import type { SpecRevision } from '@/lib/revision-store';
+import type { SpecFile } from '@/lib/spec-bundle';
+
+interface RevisionHistoryProps {
+  revisions: SpecRevision[];
+  currentContent: string;
+  currentFiles?: SpecFile[];
+  rootFile?: string;
+  theme: 'light' | 'dark';
+  onRestore: (revision: SpecRevision) => void;
+}
+
+interface DiffSide {
+  id: string;
+  content: string;
+  files?: SpecFile[];
+}
+
+const CURRENT_ID = 'current';
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const describeRevision = (revision: SpecRevision) =>
+  revision.label || (revision.kind === 'checkpoint' ? 'Checkpoint' : 'Autosave');
+
+// Content of one file of a revision; single-file revisions only have `content`
+const fileContent = (side: DiffSide | undefined, path: string, rootFile?: string) => {
+  if (!side) return '';
+  if (!side.files) return side.content;
+  return side.files.find(file => file.path === path)?.content ?? (path === rootFile ? side.content : '');
+};
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  revisions,
+  currentContent,
+  currentFiles,
+  rootFile,
+  theme,
+  onRestore
+}) => {
+  const [open, setOpen] = useState(false);
+  const [diffOpen, setDiffOpen] = useState(false);
+  const [originalId, setOriginalId] = useState('');
+  const [modifiedId, setModifiedId] = useState(CURRENT_ID);
+  const [diffFile, setDiffFile] = useState(rootFile || '');
+
+  const sides = useMemo<DiffSide[]>(() => [
+    { id: CURRENT_ID, content: currentContent, files: currentFiles },
+    ...revisions
+  ], [revisions, currentContent, currentFiles]);
+
+  const original = sides.find(side => side.id === originalId);
+  const modified = sides.find(side => side.id === modifiedId);
+
+  const filePaths = useMemo(() => {
+    const paths = new Set<string>();
+    [original, modified].forEach(side => side?.files?.forEach(file => paths.add(file.path)));
+    return [...paths].sort();
+  }, [original, modified]);
+
+  const openDiff = useCallback((revisionId: string) => {
+    setOriginalId(revisionId);
+    setModifiedId(CURRENT_ID);
+    setDiffFile(rootFile || '');
+    setDiffOpen(true);
+  }, [rootFile]);
+
+  const handleRestore = useCallback((revision: SpecRevision) => {
+    onRestore(revision);
+    setOpen(false);
+  }, [onRestore]);
+
+  const renderSideSelect = (value: string, onValueChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className="h-8 w-72 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={CURRENT_ID} className="text-xs">Current version</SelectItem>
+        {revisions.map((revision) => (
+          <SelectItem key={revision.id} value={revision.id} className="text-xs">
+            {describeRevision(revision)} · {formatTime(revision.createdAt)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2" title="Revision history">
+            <History className="h-4 w-4" />
+            History
+          </Button>
+        </SheetTrigger>
+        <SheetContent className="w-full sm:max-w-md flex flex-col">
+          <SheetHeader>
+            <SheetTitle>Revision history</SheetTitle>
+            <SheetDescription>
+              Edits are snapshotted automatically. Saving from the editor records a named checkpoint.
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="flex-1 overflow-y-auto space-y-2 mt-4">
+            {revisions.length === 0 && (
+              <p className="text-sm text-muted-foreground">No revisions yet.</p>
+            )}
+            {revisions.map((revision) => (
+              <div key={revision.id} className="rounded-md border border-border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      {revision.kind === 'checkpoint' && <Bookmark className="h-3 w-3 text-primary flex-shrink-0" />}
+                      <span className="truncate">{describeRevision(revision)}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">{formatTime(revision.createdAt)}</div>
+                  </div>
+                  <Badge variant={revision.kind === 'checkpoint' ? 'default' : 'secondary'}>
+                    {revision.kind}
+                  </Badge>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openDiff(revision.id)}>
+                    <GitCompare className="h-4 w-4 mr-2" />
+                    Compare
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleRestore(revision)}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <Dialog open={diffOpen} onOpenChange={setDiffOpen}>
+        <DialogContent className="max-w-6xl h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Compare revisions</DialogTitle>
+          </DialogHeader>
+          <div className="flex flex-wrap items-center gap-2">
+            {renderSideSelect(originalId, setOriginalId)}
+            <span className="text-muted-foreground text-sm">→</span>
+            {renderSideSelect(modifiedId, setModifiedId)}
+            {filePaths.length > 1 && (
+              <Select value={diffFile} onValueChange={setDiffFile}>
+                <SelectTrigger className="h-8 w-56 font-mono text-xs">
+                  <SelectValue placeholder="Select file" />
+                </SelectTrigger>
+                <SelectContent>
+                  {filePaths.map((path) => (
+                    <SelectItem key={path} value={path} className="font-mono text-xs">{path}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <div className="flex-1 overflow-hidden rounded-md border border-border">
+            <DiffEditor
+              height="100%"
+              language={/\.json$/i.test(diffFile) ? 'json' : 'yaml'}
+              original={fileContent(original, diffFile, rootFile)}
+              modified={fileContent(modified, diffFile, rootFile)}
+              theme={theme === 'dark' ? 'vs-dark' : 'light'}
+              options={{
+                readOnly: true,
+                renderSideBySide: true,
+                minimap: { enabled: false },
+                automaticLayout: true,
+                scrollBeyondLastLine: false
+              }}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
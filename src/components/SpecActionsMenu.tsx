@@ -0,0 +1,153 @@
+import React, { useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Copy, FileCode2, FileDown, FileText, MoreVertical, Pencil, Printer, Trash2 } from 'lucide-react';
+import type { DocsFormat } from '@/lib/docs-export';
+
+interface SpecActionsMenuProps {
+  specName: string;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  // Offered once the spec parses
+  onExportDocs?: (format: DocsFormat) => void;
+}
+
+export const SpecActionsMenu: React.FC<SpecActionsMenuProps> = ({ specName, onRename, onDuplicate, onDelete, onExportDocs }) => {
+  const [renameOpen, setRenameOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [draftName, setDraftName] = useState(specName);
+
+  const openRename = useCallback(() => {
+    setDraftName(specName);
+    setRenameOpen(true);
+  }, [specName]);
+
+  const handleRename = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    const name = draftName.trim();
+    if (!name) return;
+    onRename(name);
+    setRenameOpen(false);
+  }, [draftName, onRename]);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" title="Spec actions">
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={openRename}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={onDuplicate}>
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicate
+          </DropdownMenuItem>
+          {onExportDocs && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <FileDown className="h-4 w-4 mr-2" />
+                Export docs
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuItem onSelect={() => onExportDocs('html')}>
+                  <FileCode2 className="h-4 w-4 mr-2" />
+                  HTML page
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => onExportDocs('markdown')}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  Markdown
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => onExportDocs('pdf')}>
+                  <Printer className="h-4 w-4 mr-2" />
+                  PDF (print)
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setDeleteOpen(true)} className="text-destructive focus:text-destructive">
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={renameOpen} onOpenChange={setRenameOpen}>
+        <DialogContent className="max-w-md">
+          <form onSubmit={handleRename} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Rename spec</DialogTitle>
+            </DialogHeader>
+            <Input
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              placeholder="Spec name"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenameOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!draftName.trim()}>
+                Rename
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{specName}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The spec and its edits are removed from this workspace. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={onDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, Download, FileJson } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { compareSpecs, reportToJson, reportToMarkdown } from '@/lib/spec-diff';
+import type { ApiSpec } from '@/lib/workspace-store';
+
+interface SpecComparePanelProps {
+  specs: ApiSpec[];
+  // Preselected as the newer side
+  selectedSpecId: string;
+}
+
+export const SpecComparePanel: React.FC<SpecComparePanelProps> = ({ specs, selectedSpecId }) => {
+  const [headId, setHeadId] = useState(selectedSpecId || specs[specs.length - 1]?.id || '');
+  const [baseId, setBaseId] = useState(() => specs.find(spec => spec.id !== headId)?.id || '');
+  const [breakingOnly, setBreakingOnly] = useState(false);
+  const { toast } = useToast();
+
+  const base = specs.find(spec => spec.id === baseId);
+  const head = specs.find(spec => spec.id === headId);
+
+  const report = useMemo(
+    () => (base && head ? compareSpecs(base.parsed, head.parsed) : null),
+    [base, head]
+  );
+
+  const visibleChanges = useMemo(
+    () => (report?.changes || []).filter(change => !breakingOnly || change.breaking),
+    [report, breakingOnly]
+  );
+
+  const handleExport = useCallback((format: 'markdown' | 'json') => {
+    if (!report) return;
+    const content = format === 'markdown' ? reportToMarkdown(report) : reportToJson(report);
+    const fileName = `api-changes.${format === 'markdown' ? 'md' : 'json'}`;
+    const blob = new Blob([content], { type: format === 'markdown' ? 'text/markdown' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Report exported",
+      description: `Changelog downloaded as ${fileName}`,
+    });
+  }, [report, toast]);
+
+  const renderSpecSelect = (value: string, onValueChange: (value: string) => void, placeholder: string) => (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className="w-64">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {specs.map((spec) => (
+          <SelectItem key={spec.id} value={spec.id}>
+            <span className="truncate">{spec.name}</span>
+            {spec.parsed?.info?.version && (
+              <span className="ml-2 text-xs text-muted-foreground">v{spec.parsed.info.version}</span>
+            )}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="h-full p-4">
+      <Card className="h-full flex flex-col">
+        <CardHeader className="flex-shrink-0 border-b border-border space-y-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">Compare specs</CardTitle>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleExport('markdown')} disabled={!report}>
+                <Download className="h-4 w-4 mr-2" />
+                Markdown
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={!report}>
+                <FileJson className="h-4 w-4 mr-2" />
+                JSON
+              </Button>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            {renderSpecSelect(baseId, setBaseId, 'Base (older) spec')}
+            <ArrowRight className="h-4 w-4 text-muted-foreground" />
+            {renderSpecSelect(headId, setHeadId, 'Head (newer) spec')}
+            <div className="flex items-center gap-2 ml-auto">
+              <Switch id="breaking-only" checked={breakingOnly} onCheckedChange={setBreakingOnly} />
+              <Label htmlFor="breaking-only" className="text-sm">Breaking only</Label>
+            </div>
+          </div>
+          {report && (
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant={report.summary.breaking > 0 ? 'destructive' : 'secondary'}>
+                {report.summary.breaking} breaking
+              </Badge>
+              <Badge variant="outline">{report.summary.nonBreaking} non-breaking</Badge>
+            </div>
+          )}
+        </CardHeader>
+
+        <CardContent className="flex-1 overflow-y-auto p-4">
+          {!report ? (
+            <p className="text-sm text-muted-foreground">Select two specs to compare.</p>
+          ) : visibleChanges.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {report.changes.length === 0 ? 'No changes detected.' : 'No breaking changes.'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {visibleChanges.map((change, index) => (
+                <div key={index} className="flex items-start gap-3 rounded-md border border-border p-3 text-sm">
+                  <Badge
+                    variant={change.breaking ? 'destructive' : 'secondary'}
+                    className="flex-shrink-0 w-24 justify-center"
+                  >
+                    {change.breaking ? 'Breaking' : 'Non-breaking'}
+                  </Badge>
+                  <div className="min-w-0 space-y-1">
+                    <div>{change.message}</div>
+                    <div className="font-mono text-xs text-muted-foreground break-all">
+                      {change.operation}
+                      {change.location && ` · ${change.location}`}
+                    </div>
+                  </div>
+                  <Badge variant="outline" className="ml-auto flex-shrink-0">{change.category}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
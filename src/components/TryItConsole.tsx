@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -7,21 +7,96 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
-import { Play, Copy, Trash2, Plus, X, Server, RotateCcw } from 'lucide-react';
+import { Play, Copy, Trash2, Plus, X, Server, RotateCcw, Lock, Unlock, AlertCircle, CheckCircle2, XCircle, MinusCircle } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
+import { useSpecModel } from '@/hooks/use-spec-model';
+import { useSessionCredentials } from '@/hooks/use-session-credentials';
+import { useRequestLibrary } from '@/hooks/use-request-library';
+import { useEnvironments } from '@/hooks/use-environments';
+import { mockRequest } from '@/lib/mock-server';
+import { applySecurity, formatCookieHeader, getOperationSecurity } from '@/lib/spec-security';
+import {
+  describeParameter,
+  getInitialValue,
+  getParameterFields,
+  getPathPlaceholders,
+  getValueOptions,
+  isArrayParameter,
+  splitArrayValue,
+  validateParameterValue,
+  type ParameterField,
+  type ParameterLocation,
+} from '@/lib/request-parameters';
+import { AuthorizeDialog } from './AuthorizeDialog';
+import { FormBodyEditor } from './FormBodyEditor';
+import { RequestLibrary, SaveRequestButton } from './RequestLibrary';
+import { EnvironmentSwitcher } from './EnvironmentSwitcher';
+import { CodeSnippetDialog } from './CodeSnippetDialog';
+import { CurlImportDialog } from './CurlImportDialog';
+import { findSchemaBranches, getDocumentedExample, sampleFromSchema } from '@/lib/schema-sample';
+import { validateJsonPayload, type PayloadIssue } from '@/lib/payload-validation';
+import {
+  encodeFormBody,
+  formatBodyText,
+  getFormFields,
+  getRequestBodyMediaTypes,
+  type BodyKind,
+  type FormField,
+} from '@/lib/request-body';
+import { checkResponseContract, type ContractCheckStatus, type ContractReport } from '@/lib/response-contract';
+import { detectSpecVersion } from '@/lib/spec-validation';
+import type { RequestSnapshot } from '@/lib/request-store';
+import { buildSnippetRequest } from '@/lib/code-snippets';
+import { findUnresolvedVariables, maskSecrets, substituteInValue, substituteVariables } from '@/lib/environment-variables';
+import {
+  expandServerUrl,
+  getDefaultServerVariables,
+  getDocumentServers,
+  getServerOptions,
+  getServerVariableNames,
+} from '@/lib/server-urls';
+import { findOperationByRouteId, getOperationRouteId } from '@/lib/app-routes';
+import type { HttpMethod, OperationObject, PathItemObject, ServerObject } from '@/lib/openapi-types';
 
 interface TryItConsoleProps {
   spec: any;
+  // Credentials are kept separately for each spec
+  specId: string;
   theme?: 'light' | 'dark';
+  // Operation from the URL, selected when it changes
+  operationId?: string;
+  onOperationChange?: (operationId: string) => void;
 }
 
 interface Parameter {
   name: string;
   value: string;
-  type: 'header' | 'query' | 'path';
+  type: ParameterLocation;
+  // Set for parameters declared by the operation; manual rows have none
+  field?: ParameterField;
 }
 
+// Radix Select items cannot use an empty string as their value
+const UNSET_VALUE = '__unset__';
+
+const MAX_BODY_ISSUES = 8;
+
+// Stored in place of credential values in the request history
+const REDACTED = '[redacted]';
+
+const CONTRACT_ICONS: Record<ContractCheckStatus, React.ComponentType<{ className?: string }>> = {
+  pass: CheckCircle2,
+  fail: XCircle,
+  skip: MinusCircle,
+};
+
+const CONTRACT_COLORS: Record<ContractCheckStatus, string> = {
+  pass: 'text-green-500',
+  fail: 'text-destructive',
+  skip: 'text-muted-foreground',
+};
+
 interface ApiResponse {
   status: number;
   statusText: string;
@@ -30,22 +105,50 @@ interface ApiResponse {
   duration: number;
 }
 
-export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark' }) => {
+export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, specId, theme = 'dark', operationId, onOperationChange }) => {
   const [selectedServer, setSelectedServer] = useState('');
+  // Server picked from the spec; its variables are edited separately and expanded into the URL
+  const [serverTemplate, setServerTemplate] = useState<ServerObject | null>(null);
+  const [serverVariables, setServerVariables] = useState<Record<string, string>>({});
   const [selectedPath, setSelectedPath] = useState('');
   const [selectedMethod, setSelectedMethod] = useState('');
   const [parameters, setParameters] = useState<Parameter[]>([]);
   const [requestBody, setRequestBody] = useState('');
+  const [bodyMediaType, setBodyMediaType] = useState('');
+  // Body contents for form encodings and binary media types
+  const [formFields, setFormFields] = useState<FormField[]>([]);
+  const [bodyFile, setBodyFile] = useState<File | null>(null);
   const [response, setResponse] = useState<ApiResponse | null>(null);
+  // How the last response compares with the operation's documented responses
+  const [contract, setContract] = useState<ContractReport | null>(null);
   const [loading, setLoading] = useState(false);
   const [mockServerEnabled, setMockServerEnabled] = useState(false);
+  // Required-field errors are only shown once a send has been attempted
+  const [showAllErrors, setShowAllErrors] = useState(false);
+  // Selected oneOf/anyOf branch per location in the generated request body
+  const [bodyBranches, setBodyBranches] = useState<Record<string, number>>({});
+  // When off, a body that fails validation is sent after a warning
+  const [blockInvalidBody, setBlockInvalidBody] = useState(true);
+  // Request from the history or saved requests, applied once its operation's form is built
+  const [pendingRestore, setPendingRestore] = useState<{ request: RequestSnapshot; replay: boolean } | null>(null);
+  const [replayPending, setReplayPending] = useState(false);
   const { toast } = useToast();
+  const { dereferenced: resolvedSpec } = useSpecModel(spec);
+  const [credentials, setCredentials] = useSessionCredentials(specId);
+  const requestLibrary = useRequestLibrary(specId);
+  const { recordRequest } = requestLibrary;
+  const environmentState = useEnvironments(specId);
+  const { variables, secrets } = environmentState;
+  // Fills in `{{name}}` from the active environment
+  const resolve = useCallback((text: string) => substituteVariables(text, variables), [variables]);
 
-  // Extract servers from spec
-  const servers = spec?.servers || [{ url: 'https://api.example.com' }];
-  
-  // Extract paths and methods
-  const paths = spec?.paths || {};
+  // An environment with a base URL provides the server unless one was entered
+  useEffect(() => {
+    if ('baseUrl' in variables) setSelectedServer(prev => prev || '{{baseUrl}}');
+  }, [variables]);
+
+  // Extract paths and methods from the dereferenced view so shared components are inlined
+  const paths = resolvedSpec?.paths || {};
   const pathsList = Object.keys(paths);
   
   const methodsList = selectedPath && paths[selectedPath] 
@@ -54,88 +157,217 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
       )
     : [];
 
-  const currentOperation = selectedPath && selectedMethod && paths[selectedPath]?.[selectedMethod];
+  const currentOperation = selectedPath && selectedMethod
+    ? paths[selectedPath]?.[selectedMethod] as OperationObject | undefined
+    : undefined;
+  const securityStatus = getOperationSecurity(spec, currentOperation, credentials);
 
-  // Auto-load request body when API endpoint is selected
+  // Open the operation a link points to
   useEffect(() => {
-    console.log('TryItConsole: Effect triggered', { selectedPath, selectedMethod, hasCurrentOperation: !!currentOperation });
-    
-    if (!selectedPath || !selectedMethod) {
-      console.log('TryItConsole: No path or method selected, clearing body');
-      setRequestBody('');
+    if (!operationId || !resolvedSpec) return;
+    const target = findOperationByRouteId(resolvedSpec, operationId);
+    if (!target) {
+      toast({
+        title: "Operation not found",
+        description: `${operationId} is not in this specification`,
+        variant: "destructive",
+      });
       return;
     }
+    setSelectedPath(target.path);
+    setSelectedMethod(target.method);
+  }, [operationId, resolvedSpec, toast]);
 
-    if (!['post', 'put', 'patch'].includes(selectedMethod.toLowerCase())) {
-      console.log('TryItConsole: Method does not require body', selectedMethod);
-      setRequestBody('');
-      return;
+  // Keep the URL on the selected operation so it can be shared
+  useEffect(() => {
+    if (currentOperation) onOperationChange?.(getOperationRouteId(selectedPath, selectedMethod, currentOperation));
+  }, [selectedPath, selectedMethod, currentOperation, onOperationChange]);
+
+  const serverOptions = useMemo(
+    () => getServerOptions(resolvedSpec, selectedPath ? resolvedSpec?.paths?.[selectedPath] as PathItemObject : undefined, currentOperation),
+    [resolvedSpec, selectedPath, currentOperation]
+  );
+  const servers = useMemo(
+    () => (serverOptions.servers.length > 0 ? serverOptions.servers : [{ url: 'https://api.example.com' }]),
+    [serverOptions]
+  );
+  // Environments created from servers start with their default URLs
+  const documentServers = useMemo(
+    () => getDocumentServers(resolvedSpec).map(server => ({ ...server, url: expandServerUrl(server) })),
+    [resolvedSpec]
+  );
+
+  const selectServer = useCallback((server: ServerObject) => {
+    const values = getDefaultServerVariables(server);
+    setServerTemplate(server);
+    setServerVariables(values);
+    setSelectedServer(expandServerUrl(server, values));
+  }, []);
+
+  const updateServerVariable = useCallback((name: string, value: string) => {
+    if (!serverTemplate) return;
+    const values = { ...serverVariables, [name]: value };
+    setServerVariables(values);
+    setSelectedServer(expandServerUrl(serverTemplate, values));
+  }, [serverTemplate, serverVariables]);
+
+  // Follow operation- and path-level server overrides unless a URL was entered by hand
+  useEffect(() => {
+    if (serverTemplate && servers.some(server => server.url === serverTemplate.url)) return;
+    if (serverTemplate || (!selectedServer && serverOptions.level !== 'document')) selectServer(servers[0]);
+  }, [servers, serverOptions.level, serverTemplate, selectedServer, selectServer]);
+
+  const parameterErrors = useMemo(
+    () => parameters.map(param => (param.field ? validateParameterValue(param.field, resolve(param.value)) : null)),
+    [parameters, resolve]
+  );
+
+  const parameterFields = useMemo(
+    () => currentOperation
+      ? getParameterFields(resolvedSpec, {
+          path: selectedPath,
+          method: selectedMethod as HttpMethod,
+          operation: currentOperation,
+          pathItem: resolvedSpec?.paths?.[selectedPath] as PathItemObject,
+        })
+      : [],
+    [resolvedSpec, selectedPath, selectedMethod, currentOperation]
+  );
+
+  // Operation the parameter form was last built for
+  const parameterOperationRef = useRef('');
+
+  // Build the parameter form from the operation, keeping values already entered for the same parameter.
+  // Rows added by hand, replay or cURL import survive spec edits and are only dropped when the operation changes.
+  useEffect(() => {
+    const operationKey = `${selectedMethod} ${selectedPath}`;
+    const sameOperation = parameterOperationRef.current === operationKey;
+    parameterOperationRef.current = operationKey;
+    setShowAllErrors(false);
+    setParameters(prev => {
+      const manual = sameOperation ? prev.filter(param => !param.field) : [];
+      const isDocumented = (param: Parameter) =>
+        parameterFields.some(field => field.name === param.name && field.in === param.type);
+      return [
+        ...parameterFields.map(field => {
+          const existing = prev.find(param => param.field && param.name === field.name && param.type === field.in)
+            || manual.find(param => param.name === field.name && param.type === field.in);
+          return { name: field.name, value: existing ? existing.value : getInitialValue(field), type: field.in, field };
+        }),
+        ...manual.filter(param => !isDocumented(param)),
+      ];
+    });
+  }, [parameterFields, selectedPath, selectedMethod]);
+
+  const bodyMediaTypes = useMemo(
+    () => getRequestBodyMediaTypes(resolvedSpec, currentOperation),
+    [resolvedSpec, currentOperation]
+  );
+
+  // Start with JSON when the operation accepts several media types
+  useEffect(() => {
+    setBodyMediaType((bodyMediaTypes.find(entry => entry.kind === 'json') || bodyMediaTypes[0])?.mediaType || '');
+  }, [bodyMediaTypes]);
+
+  const selectedBody = bodyMediaTypes.find(entry => entry.mediaType === bodyMediaType);
+  const bodyKind: BodyKind = selectedBody?.kind || 'json';
+  const requestBodyMedia = selectedBody?.media;
+  const isFormBody = bodyKind === 'form-urlencoded' || bodyKind === 'multipart';
+
+  const bodyBranchPoints = useMemo(
+    () => findSchemaBranches(requestBodyMedia?.schema, { root: resolvedSpec, context: 'request', branches: bodyBranches }),
+    [requestBodyMedia, resolvedSpec, bodyBranches]
+  );
+
+  useEffect(() => {
+    setBodyBranches(prev => (Object.keys(prev).length === 0 ? prev : {}));
+  }, [currentOperation]);
+
+  const hasBody = ['post', 'put', 'patch'].includes(selectedMethod.toLowerCase());
+  const specVersion = detectSpecVersion(spec);
+
+  const bodyIssues = useMemo((): PayloadIssue[] => {
+    if (!hasBody || bodyKind !== 'json' || !requestBodyMedia?.schema || !resolvedSpec || !specVersion) return [];
+    if (!requestBody.trim()) {
+      return currentOperation?.requestBody?.required ? [{ path: '$', message: 'Request body is required' }] : [];
+    }
+    try {
+      return validateJsonPayload(resolvedSpec, requestBodyMedia.schema, resolve(requestBody), specVersion);
+    } catch (error) {
+      // A schema Ajv cannot compile is reported by the editor, not here
+      console.error('Failed to validate request body:', error);
+      return [];
     }
+  }, [hasBody, bodyKind, requestBodyMedia, resolvedSpec, specVersion, requestBody, currentOperation, resolve]);
 
-    if (!currentOperation) {
-      console.log('TryItConsole: No current operation found');
+  // Prefill the body with the documented example, or a sample generated from the schema once a branch is picked
+  useEffect(() => {
+    if (!selectedPath || !hasBody) {
+      setRequestBody('');
       return;
     }
-
-    console.log('TryItConsole: Generating request body for', selectedMethod, selectedPath);
-    
-    const requestBodySchema = currentOperation.requestBody?.content?.['application/json']?.schema;
-    
-    if (!requestBodySchema) {
-      console.log('TryItConsole: No request body schema found');
+    if (!currentOperation) return;
+    if (!requestBodyMedia) {
       setRequestBody('{}');
       return;
     }
-    
-    // First check for direct example
-    if (requestBodySchema.example) {
-      console.log('TryItConsole: Using direct example from schema');
-      setRequestBody(JSON.stringify(requestBodySchema.example, null, 2));
+    if (bodyKind === 'form-urlencoded' || bodyKind === 'multipart') {
+      setFormFields(getFormFields(resolvedSpec, requestBodyMedia.schema));
       return;
     }
-    
-    // Handle $ref schemas
-    let actualSchema = requestBodySchema;
-    if (requestBodySchema.$ref && spec?.components?.schemas) {
-      const schemaName = requestBodySchema.$ref.split('/').pop();
-      console.log('TryItConsole: Resolving $ref schema:', schemaName);
-      actualSchema = spec.components.schemas[schemaName];
+    if (bodyKind === 'binary') {
+      setBodyFile(null);
+      return;
     }
-    
-    // Generate sample body from schema properties
-    if (actualSchema?.properties) {
-      console.log('TryItConsole: Generating sample from properties');
-      const sampleBody: any = {};
-      Object.entries(actualSchema.properties).forEach(([key, prop]: [string, any]) => {
-        if (prop.example !== undefined) {
-          sampleBody[key] = prop.example;
-        } else if (prop.type === 'string') {
-          if (prop.format === 'email') sampleBody[key] = 'user@example.com';
-          else if (prop.format === 'uuid') sampleBody[key] = '123e4567-e89b-12d3-a456-426614174000';
-          else if (prop.format === 'date-time') sampleBody[key] = new Date().toISOString();
-          else if (prop.format === 'uri') sampleBody[key] = 'https://example.com/image.jpg';
-          else if (prop.enum) sampleBody[key] = prop.enum[0];
-          else sampleBody[key] = prop.minLength ? 'sample text' : 'string';
-        } else if (prop.type === 'number' || prop.type === 'integer') {
-          sampleBody[key] = prop.minimum || prop.example || (prop.type === 'integer' ? 1 : 1.0);
-        } else if (prop.type === 'boolean') {
-          sampleBody[key] = true;
-        } else if (prop.type === 'array') {
-          sampleBody[key] = [];
-        } else if (prop.type === 'object') {
-          sampleBody[key] = {};
-        } else {
-          sampleBody[key] = null;
-        }
-      });
-      const generatedBody = JSON.stringify(sampleBody, null, 2);
-      console.log('TryItConsole: Generated request body:', generatedBody);
-      setRequestBody(generatedBody);
-    } else {
-      console.log('TryItConsole: No properties found, using empty object');
-      setRequestBody('{}');
+
+    const documented = Object.keys(bodyBranches).length === 0
+      ? getDocumentedExample(resolvedSpec, requestBodyMedia)
+      : undefined;
+    if (documented === undefined && !requestBodyMedia.schema) {
+      setRequestBody(bodyKind === 'json' ? '{}' : '');
+      return;
     }
-  }, [selectedPath, selectedMethod, currentOperation, spec]);
+    const body = documented !== undefined
+      ? documented
+      : sampleFromSchema(requestBodyMedia.schema, { root: resolvedSpec, context: 'request', branches: bodyBranches });
+    setRequestBody(formatBodyText(bodyKind, body, requestBodyMedia.schema));
+  }, [selectedPath, hasBody, currentOperation, bodyKind, requestBodyMedia, resolvedSpec, bodyBranches]);
+
+  // Fill in a restored request after the effects above have built the form for its operation
+  useEffect(() => {
+    if (!pendingRestore) return;
+    const { request, replay } = pendingRestore;
+    if (request.path !== selectedPath || request.method !== selectedMethod || !currentOperation) return;
+    if (Object.keys(bodyBranches).length > 0) return;
+    if (request.bodyMediaType !== bodyMediaType && bodyMediaTypes.some(entry => entry.mediaType === request.bodyMediaType)) {
+      setBodyMediaType(request.bodyMediaType);
+      return;
+    }
+
+    setPendingRestore(null);
+    setParameters(prev => [
+      ...prev.filter(param => param.field).map(param => {
+        const stored = request.parameters.find(item => item.name === param.name && item.type === param.type);
+        return stored ? { ...param, value: stored.value } : param;
+      }),
+      ...request.parameters.filter(item => !prev.some(param => param.field && param.name === item.name && param.type === item.type)),
+    ]);
+    if (bodyKind === 'form-urlencoded' || bodyKind === 'multipart') {
+      const storedFields = request.formFields || [];
+      setFormFields(prev => [
+        ...prev.map(field => {
+          const stored = storedFields.find(item => item.name === field.name);
+          return stored && !field.isFile ? { ...field, value: stored.value } : field;
+        }),
+        ...storedFields
+          .filter(item => !prev.some(field => field.name === item.name))
+          .map(item => ({ ...item, files: [], isFile: false, multiple: false, required: false, custom: true })),
+      ]);
+    } else if (bodyKind !== 'binary') {
+      setRequestBody(request.body);
+    }
+    setReplayPending(replay);
+  }, [pendingRestore, selectedPath, selectedMethod, currentOperation, bodyBranches, bodyMediaType, bodyMediaTypes, bodyKind]);
 
   const getMethodColor = (method: string) => {
     switch (method.toLowerCase()) {
@@ -155,7 +387,7 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
     return 'bg-muted text-foreground';
   };
 
-  const addParameter = useCallback((type: 'header' | 'query' | 'path') => {
+  const addParameter = useCallback((type: ParameterLocation) => {
     setParameters(prev => [...prev, { name: '', value: '', type }]);
   }, []);
 
@@ -169,8 +401,83 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
     setParameters(prev => prev.filter((_, i) => i !== index));
   }, []);
 
+  const checkContract = useCallback((received: ApiResponse): ContractReport | null => {
+    if (!currentOperation || !resolvedSpec || !specVersion) return null;
+    try {
+      return checkResponseContract(resolvedSpec, currentOperation, received, specVersion);
+    } catch (error) {
+      console.error('Failed to check response contract:', error);
+      return null;
+    }
+  }, [currentOperation, resolvedSpec, specVersion]);
+
+  // The console's current request; files are left out since they cannot be stored
+  const describeRequest = useCallback((url: string, headers: Record<string, string>): RequestSnapshot => ({
+    method: selectedMethod,
+    path: selectedPath,
+    server: selectedServer,
+    mock: mockServerEnabled,
+    parameters: parameters.map(({ name, value, type }) => ({ name, value, type })),
+    bodyMediaType,
+    body: hasBody && !isFormBody && bodyKind !== 'binary' ? requestBody : '',
+    formFields: hasBody && isFormBody
+      ? formFields.filter(field => !field.isFile || bodyKind !== 'multipart').map(({ name, value }) => ({ name, value }))
+      : undefined,
+    url: maskSecrets(url, secrets),
+    headers: Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, maskSecrets(value, secrets)])),
+  }), [selectedMethod, selectedPath, selectedServer, mockServerEnabled, parameters, bodyMediaType, hasBody, isFormBody, bodyKind, requestBody, formFields, secrets]);
+
+  // Credentials as the snippet shows them; a failure is reported in the dialog rather than thrown while rendering
+  const snippetSecurity = useMemo(() => {
+    try {
+      return { auth: applySecurity(spec, currentOperation, substituteInValue(credentials, variables)), error: '' };
+    } catch (error) {
+      return { auth: null, error: error instanceof Error ? error.message : 'The credentials could not be applied' };
+    }
+  }, [spec, currentOperation, credentials, variables]);
+
+  const snippetRequest = useMemo(() => {
+    if (!selectedPath || !selectedMethod || !snippetSecurity.auth) return null;
+    return buildSnippetRequest({
+      method: selectedMethod,
+      server: resolve(selectedServer),
+      path: selectedPath,
+      parameters: parameters.map(param => ({
+        name: param.name,
+        value: resolve(param.value),
+        type: param.type,
+        array: isArrayParameter(param.field),
+      })),
+      auth: snippetSecurity.auth,
+      mediaType: hasBody ? bodyMediaType : undefined,
+      bodyKind: hasBody && selectedBody ? bodyKind : undefined,
+      body: resolve(requestBody),
+      formFields: formFields.map(field => ({
+        name: field.name,
+        value: resolve(field.value),
+        isFile: field.isFile,
+        fileNames: field.files.length > 0 ? field.files.map(file => file.name) : [`${field.name}.bin`],
+        multiple: field.multiple,
+      })),
+      fileName: bodyFile?.name || 'body.bin',
+    });
+  }, [selectedPath, selectedMethod, selectedServer, parameters, snippetSecurity, hasBody, bodyMediaType, selectedBody, bodyKind, requestBody, formFields, bodyFile, resolve]);
+
+  // Values hidden in snippets until revealed; query values also appear URL-encoded
+  const snippetSecrets = useMemo(() => {
+    const auth = snippetSecurity.auth || { headers: {}, cookies: {}, query: {} };
+    const values = [
+      ...secrets,
+      ...Object.values(auth.headers),
+      ...Object.values(auth.cookies),
+      ...Object.values(auth.query),
+      ...Object.values(auth.query).map(value => new URLSearchParams({ value }).toString().slice('value='.length)),
+    ];
+    return [...new Set(values.filter(Boolean))];
+  }, [secrets, snippetSecurity]);
+
   const executeRequest = useCallback(async () => {
-    if (!selectedServer || !selectedPath || !selectedMethod) {
+    if ((!selectedServer && !mockServerEnabled) || !selectedPath || !selectedMethod) {
       toast({
         title: "Invalid Request",
         description: "Please select server, path, and method",
@@ -179,50 +486,175 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
       return;
     }
 
+    const unknownVariables = findUnresolvedVariables([
+      mockServerEnabled ? '' : selectedServer,
+      ...parameters.map(param => param.value),
+      ...(hasBody ? [requestBody, ...formFields.map(field => field.value)] : []),
+    ], variables);
+    if (unknownVariables.length > 0) {
+      toast({
+        title: "Unknown variables",
+        description: `${unknownVariables.map(name => `{{${name}}}`).join(', ')} ${unknownVariables.length > 1 ? 'are' : 'is'} not defined in the active environment`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidIndex = parameterErrors.findIndex(Boolean);
+    if (invalidIndex !== -1) {
+      setShowAllErrors(true);
+      toast({
+        title: "Invalid parameters",
+        description: `${parameters[invalidIndex].name}: ${parameterErrors[invalidIndex]}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (hasBody && isFormBody) {
+      const missing = formFields.filter(field =>
+        field.required && (field.isFile && bodyKind === 'multipart' ? field.files.length === 0 : field.value === '')
+      );
+      if (missing.length > 0) {
+        toast({
+          title: "Missing form fields",
+          description: missing.map(field => field.name).join(', '),
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    if (hasBody && bodyIssues.length > 0) {
+      const [firstIssue] = bodyIssues;
+      toast({
+        title: blockInvalidBody ? "Invalid request body" : "Sending invalid request body",
+        description: `${firstIssue.path}: ${firstIssue.message}${bodyIssues.length > 1 ? ` (+${bodyIssues.length - 1} more)` : ''}`,
+        variant: blockInvalidBody ? "destructive" : "default",
+      });
+      if (blockInvalidBody) return;
+    }
+
     setLoading(true);
     const startTime = Date.now();
+    // What was sent, for the history; set once the request is built
+    let sent: RequestSnapshot | null = null;
+    const redact = (values: Record<string, string>) =>
+      Object.fromEntries(Object.keys(values).map(name => [name, REDACTED]));
+
+    const sentParameters = parameters.map(param => ({ ...param, value: resolve(param.value) }));
 
     try {
-      // Build URL
-      let url = selectedServer.replace(/\/$/, '') + selectedPath;
-      
       // Replace path parameters
-      const pathParams = parameters.filter(p => p.type === 'path');
+      let requestPath = selectedPath;
+      const pathParams = sentParameters.filter(p => p.type === 'path');
       pathParams.forEach(param => {
-        url = url.replace(`{${param.name}}`, encodeURIComponent(param.value));
+        requestPath = requestPath.replace(`{${param.name}}`, encodeURIComponent(param.value));
       });
+      const unresolved = getPathPlaceholders(requestPath);
+      if (unresolved.length > 0) {
+        throw new Error(`Missing path parameter${unresolved.length > 1 ? 's' : ''}: ${unresolved.join(', ')}`);
+      }
+
+      // Credentials from the Authorize dialog, with environment variables filled in;
+      // explicitly entered parameters take precedence over them
+      const auth = applySecurity(spec, currentOperation, substituteInValue(credentials, variables));
+
+      // Serve from the spec instead of the network when the mock server is on
+      if (mockServerEnabled) {
+        const mockHeaders: Record<string, string> = { ...auth.headers };
+        const loggedHeaders: Record<string, string> = redact(auth.headers);
+        const cookies = { ...auth.cookies };
+        const loggedCookies = redact(auth.cookies);
+        sentParameters
+          .filter(p => p.type === 'cookie' && p.name && p.value)
+          .forEach(param => {
+            cookies[param.name] = param.value;
+            loggedCookies[param.name] = param.value;
+          });
+        if (Object.keys(cookies).length > 0) {
+          mockHeaders.Cookie = formatCookieHeader(cookies);
+          loggedHeaders.Cookie = formatCookieHeader(loggedCookies);
+        }
+        sentParameters
+          .filter(p => p.type === 'header' && p.name && p.value)
+          .forEach(param => {
+            mockHeaders[param.name] = param.value;
+            loggedHeaders[param.name] = param.value;
+          });
+
+        sent = describeRequest(requestPath, loggedHeaders);
+        const mockResponse = await mockRequest(spec, {
+          method: selectedMethod,
+          path: requestPath,
+          query: {
+            ...auth.query,
+            ...Object.fromEntries(sentParameters.filter(p => p.type === 'query' && p.name && p.value).map(p => [p.name, p.value])),
+          },
+          headers: mockHeaders,
+        });
+        setResponse(mockResponse);
+        setContract(checkContract(mockResponse));
+        recordRequest(sent, mockResponse).catch(error => console.error('Failed to record request:', error));
+        toast({
+          title: "Mock response",
+          description: `${mockResponse.status} ${mockResponse.statusText} in ${mockResponse.duration}ms`,
+        });
+        return;
+      }
+
+      // Build URL
+      let url = resolve(selectedServer).replace(/\/$/, '') + requestPath;
+      let loggedUrl = url;
 
       // Add query parameters
-      const queryParams = parameters.filter(p => p.type === 'query' && p.name && p.value);
-      if (queryParams.length > 0) {
-        const searchParams = new URLSearchParams();
-        queryParams.forEach(param => searchParams.append(param.name, param.value));
-        url += '?' + searchParams.toString();
+      const queryParams = sentParameters.filter(p => p.type === 'query' && p.name && p.value);
+      if (queryParams.length > 0 || Object.keys(auth.query).length > 0) {
+        const buildQuery = (authQuery: Record<string, string>) => {
+          const searchParams = new URLSearchParams();
+          Object.entries(authQuery)
+            .filter(([name]) => !queryParams.some(param => param.name === name))
+            .forEach(([name, value]) => searchParams.append(name, value));
+          queryParams.forEach(param => {
+            const values = isArrayParameter(param.field) ? splitArrayValue(param.value) : [param.value];
+            values.forEach(value => searchParams.append(param.name, value));
+          });
+          return '?' + searchParams.toString();
+        };
+        loggedUrl += buildQuery(redact(auth.query));
+        url += buildQuery(auth.query);
       }
 
-      // Build headers
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
+      let payload: BodyInit | undefined;
+      if (hasBody) {
+        if (isFormBody) payload = encodeFormBody(bodyKind, formFields.map(field => ({ ...field, value: resolve(field.value) })));
+        else if (bodyKind === 'binary') payload = bodyFile || undefined;
+        else if (requestBody.trim()) payload = resolve(requestBody);
+      }
+
+      // Build headers; FormData bodies set their own multipart boundary
+      const headers: Record<string, string> = { ...auth.headers };
+      if (payload !== undefined && bodyKind !== 'multipart') {
+        headers['Content-Type'] = bodyMediaType || 'application/json';
+      }
       
-      parameters
+      const loggedHeaders = { ...headers, ...redact(auth.headers) };
+      sentParameters
         .filter(p => p.type === 'header' && p.name && p.value)
         .forEach(param => {
           headers[param.name] = param.value;
+          loggedHeaders[param.name] = param.value;
         });
+      sent = describeRequest(loggedUrl, loggedHeaders);
 
       // Build request options
       const requestOptions: RequestInit = {
         method: selectedMethod.toUpperCase(),
         headers,
         mode: 'cors',
+        body: payload,
       };
 
-      // Add body for methods that support it
-      if (['post', 'put', 'patch'].includes(selectedMethod.toLowerCase()) && requestBody.trim()) {
-        requestOptions.body = requestBody;
-      }
-
       // Make request
       const response = await fetch(url, requestOptions);
       const duration = Date.now() - startTime;
@@ -248,13 +680,16 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
         body = 'Failed to parse response body';
       }
 
-      setResponse({
+      const received = {
         status: response.status,
         statusText: response.statusText,
         headers: responseHeaders,
         body,
         duration,
-      });
+      };
+      setResponse(received);
+      setContract(checkContract(received));
+      recordRequest(sent, received).catch(error => console.error('Failed to record request:', error));
 
       toast({
         title: "Request completed",
@@ -262,13 +697,18 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
       });
     } catch (error) {
       const duration = Date.now() - startTime;
-      setResponse({
+      const failed = {
         status: 0,
         statusText: 'Network Error',
         headers: {},
         body: error instanceof Error ? error.message : 'Unknown error occurred',
         duration,
-      });
+      };
+      setResponse(failed);
+      setContract(null);
+      if (sent) {
+        recordRequest(sent, failed).catch(recordError => console.error('Failed to record request:', recordError));
+      }
 
       toast({
         title: "Request failed",
@@ -278,7 +718,57 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
     } finally {
       setLoading(false);
     }
-  }, [selectedServer, selectedPath, selectedMethod, parameters, requestBody, toast]);
+  }, [selectedServer, selectedPath, selectedMethod, parameters, parameterErrors, requestBody, hasBody, bodyKind, bodyMediaType, isFormBody, formFields, bodyFile, bodyIssues, blockInvalidBody, mockServerEnabled, spec, currentOperation, credentials, variables, resolve, checkContract, describeRequest, recordRequest, toast]);
+
+  const loadRequest = useCallback((request: RequestSnapshot, replay: boolean) => {
+    if (!resolvedSpec?.paths?.[request.path]?.[request.method]) {
+      toast({
+        title: "Operation not found",
+        description: `${request.method.toUpperCase()} ${request.path} is no longer in the specification`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setMockServerEnabled(request.mock);
+    setSelectedServer(request.server);
+    setServerTemplate(null);
+    setSelectedPath(request.path);
+    setSelectedMethod(request.method);
+    setBodyBranches(prev => (Object.keys(prev).length === 0 ? prev : {}));
+    setResponse(null);
+    setContract(null);
+    setPendingRestore({ request, replay });
+  }, [resolvedSpec, toast]);
+
+  const importRequest = useCallback((request: RequestSnapshot) => {
+    loadRequest(request, false);
+    toast({
+      title: "cURL imported",
+      description: `Matched ${request.method.toUpperCase()} ${request.path}`,
+    });
+  }, [loadRequest, toast]);
+
+  // Replay once the restored request has rendered, so it is sent with the restored values
+  useEffect(() => {
+    if (!replayPending) return;
+    setReplayPending(false);
+    executeRequest();
+  }, [replayPending, executeRequest]);
+
+  const savedFolders = useMemo(
+    () => [...new Set(requestLibrary.saved.map(item => item.folder).filter(Boolean))].sort(),
+    [requestLibrary.saved]
+  );
+
+  const saveCurrentRequest = useCallback((name: string, folder: string) => {
+    const request = describeRequest((mockServerEnabled ? '' : selectedServer.replace(/\/$/, '')) + selectedPath, {});
+    requestLibrary.saveRequest(name, folder, request)
+      .then(() => toast({ title: "Request saved", description: folder ? `${folder} / ${name}` : name }))
+      .catch(error => {
+        console.error('Failed to save request:', error);
+        toast({ title: "Save failed", description: "The request could not be stored", variant: "destructive" });
+      });
+  }, [describeRequest, mockServerEnabled, selectedServer, selectedPath, requestLibrary, toast]);
 
   const copyResponse = useCallback(() => {
     if (response) {
@@ -292,15 +782,18 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
 
   const clearResponse = useCallback(() => {
     setResponse(null);
+    setContract(null);
   }, []);
 
   const resetApi = useCallback(() => {
     setSelectedServer('');
+    setServerTemplate(null);
     setSelectedPath('');
     setSelectedMethod('');
     setParameters([]);
     setRequestBody('');
     setResponse(null);
+    setContract(null);
     toast({
       title: "API Reset",
       description: "All selections and data have been cleared",
@@ -325,7 +818,32 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
       <CardHeader className="flex-shrink-0 border-b border-border">
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg">API Testing Console</CardTitle>
-          <div className="flex items-center gap-3">
+          <div className="flex flex-wrap items-center justify-end gap-3">
+            <CurlImportDialog spec={resolvedSpec} onImport={importRequest} />
+            <RequestLibrary
+              history={requestLibrary.history}
+              saved={requestLibrary.saved}
+              onOpen={(request) => loadRequest(request, false)}
+              onReplay={(request) => loadRequest(request, true)}
+              onDeleteHistoryEntry={(id) => requestLibrary.removeHistoryEntry(id).catch(error => console.error('Failed to delete request:', error))}
+              onClearHistory={() => requestLibrary.clearAllHistory().catch(error => console.error('Failed to clear history:', error))}
+              onDeleteSaved={(id) => requestLibrary.removeSavedRequest(id).catch(error => console.error('Failed to delete request:', error))}
+            />
+            <EnvironmentSwitcher
+              specId={specId}
+              environments={environmentState.environments}
+              activeId={environmentState.activeEnvironment?.id || ''}
+              onActiveChange={environmentState.setActiveId}
+              onSave={environmentState.saveEnvironment}
+              onDelete={environmentState.removeEnvironment}
+              servers={documentServers}
+            />
+            <AuthorizeDialog
+              spec={spec}
+              credentials={credentials}
+              onCredentialsChange={setCredentials}
+              serverUrl={selectedServer}
+            />
             <Button
               variant="outline"
               size="sm"
@@ -361,9 +879,10 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
               Mock server is enabled. Requests will return sample responses based on your OpenAPI specification.
             </p>
             <div className="text-xs space-y-1">
-              <p><strong>Base URL:</strong> {selectedServer || 'No server selected'}</p>
+              <p><strong>Base URL:</strong> In-browser (no network requests)</p>
               <p><strong>Status:</strong> <span className="text-green-500">Active</span></p>
-              <p><strong>Response Type:</strong> JSON samples from schema</p>
+              <p><strong>Response Type:</strong> Documented examples, or samples generated from the schema</p>
+              <p><strong>Tip:</strong> Add a <code>Prefer: code=404</code> header to get a specific documented response</p>
             </div>
           </div>
         )}
@@ -380,21 +899,50 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
                   <Label>Server URL</Label>
                   <Input
                     value={selectedServer}
-                    onChange={(e) => setSelectedServer(e.target.value)}
+                    onChange={(e) => {
+                      setSelectedServer(e.target.value);
+                      setServerTemplate(null);
+                    }}
                     placeholder={mockServerEnabled ? "Mock server active" : "Enter server URL (e.g., https://api.example.com)"}
                     disabled={mockServerEnabled}
                     className={mockServerEnabled ? "opacity-60" : ""}
                   />
+                  {!mockServerEnabled && resolve(selectedServer) !== selectedServer && (
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {maskSecrets(resolve(selectedServer), secrets)}
+                    </p>
+                  )}
                   {!mockServerEnabled && servers.length > 0 && (
                     <div className="text-xs text-muted-foreground">
-                      <p className="mb-1">Suggested servers:</p>
+                      <p className="mb-1 flex items-center gap-2">
+                        Suggested servers:
+                        {serverOptions.level !== 'document' && (
+                          <Badge variant="outline" className="text-xs" title="These servers override the document's servers">
+                            {serverOptions.level === 'operation' ? 'Operation' : 'Path'} servers
+                          </Badge>
+                        )}
+                      </p>
                       <div className="flex flex-wrap gap-1">
-                        {servers.map((server: any, index: number) => (
+                        {'baseUrl' in variables && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setSelectedServer('{{baseUrl}}');
+                              setServerTemplate(null);
+                            }}
+                            className="h-6 px-2 text-xs font-mono text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                            title={`baseUrl of ${environmentState.activeEnvironment?.name}`}
+                          >
+                            {'{{baseUrl}}'}
+                          </Button>
+                        )}
+                        {servers.map((server, index) => (
                           <Button
                             key={index}
                             variant="ghost"
                             size="sm"
-                            onClick={() => setSelectedServer(server.url)}
+                            onClick={() => selectServer(server)}
                             className="h-6 px-2 text-xs text-blue-600 hover:text-blue-700 hover:bg-blue-50"
                             title={server.description || server.url}
                           >
@@ -404,6 +952,37 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
                       </div>
                     </div>
                   )}
+                  {!mockServerEnabled && serverTemplate && getServerVariableNames(serverTemplate.url).length > 0 && (
+                    <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 rounded-md border border-border p-2">
+                      {getServerVariableNames(serverTemplate.url).map(name => {
+                        const variable = serverTemplate.variables?.[name];
+                        return (
+                          <React.Fragment key={name}>
+                            <Label className="font-mono text-xs" title={variable?.description}>{name}</Label>
+                            {variable?.enum && variable.enum.length > 0 ? (
+                              <Select value={serverVariables[name] ?? ''} onValueChange={(value) => updateServerVariable(name, value)}>
+                                <SelectTrigger className="h-8 text-sm">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {variable.enum.map(option => (
+                                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Input
+                                value={serverVariables[name] ?? ''}
+                                onChange={(e) => updateServerVariable(name, e.target.value)}
+                                placeholder={variable?.description || name}
+                                className="h-8 text-sm"
+                              />
+                            )}
+                          </React.Fragment>
+                        );
+                      })}
+                    </div>
+                  )}
                 </div>
 
                 {/* Path Selection */}
@@ -452,6 +1031,27 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
                         {currentOperation.description}
                       </p>
                     )}
+                    {securityStatus.requirements.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                        {securityStatus.satisfied ? (
+                          <Lock className="h-3 w-3 text-primary" />
+                        ) : (
+                          <Unlock className="h-3 w-3 text-muted-foreground" />
+                        )}
+                        <span className="text-muted-foreground">
+                          {securityStatus.satisfied
+                            ? 'Authorized with'
+                            : securityStatus.optional ? 'Optional auth:' : 'Requires authorization:'}
+                        </span>
+                        {(securityStatus.satisfied ? [securityStatus.satisfied] : securityStatus.requirements)
+                          .filter(requirement => Object.keys(requirement).length > 0)
+                          .map((requirement, index) => (
+                            <Badge key={index} variant="outline" className="text-xs font-mono">
+                              {Object.keys(requirement).join(' + ')}
+                            </Badge>
+                          ))}
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -472,56 +1072,216 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
                     </div>
                   </div>
 
-                  {parameters.map((param, index) => (
-                    <div key={index} className="flex items-center gap-2">
-                      <Badge variant="outline" className="min-w-16 justify-center">
-                        {param.type}
-                      </Badge>
-                      <Input
-                        placeholder="Name"
-                        value={param.name}
-                        onChange={(e) => updateParameter(index, 'name', e.target.value)}
-                        className="flex-1"
-                      />
-                      <Input
-                        placeholder="Value"
-                        value={param.value}
-                        onChange={(e) => updateParameter(index, 'value', e.target.value)}
-                        className="flex-1"
-                      />
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeParameter(index)}
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  ))}
+                  {parameters.map((param, index) => {
+                    const error = parameterErrors[index];
+                    const visibleError = error && (showAllErrors || param.value !== '') ? error : null;
+
+                    if (!param.field) {
+                      return (
+                        <div key={index} className="flex items-center gap-2">
+                          <Badge variant="outline" className="min-w-16 justify-center">
+                            {param.type}
+                          </Badge>
+                          <Input
+                            placeholder="Name"
+                            value={param.name}
+                            onChange={(e) => updateParameter(index, 'name', e.target.value)}
+                            className="flex-1"
+                          />
+                          <Input
+                            placeholder="Value"
+                            value={param.value}
+                            onChange={(e) => updateParameter(index, 'value', e.target.value)}
+                            className="flex-1"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeParameter(index)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      );
+                    }
+
+                    const field = param.field;
+                    const options = getValueOptions(field);
+                    const hints = describeParameter(field);
+
+                    return (
+                      <div key={`${param.type}:${param.name}`} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="min-w-16 justify-center">
+                            {param.type}
+                          </Badge>
+                          <div className="flex-1 min-w-0 flex items-center gap-1" title={field.description}>
+                            <span className={`font-mono text-sm truncate ${field.deprecated ? 'line-through text-muted-foreground' : ''}`}>
+                              {param.name}
+                            </span>
+                            {field.required && <span className="text-destructive">*</span>}
+                          </div>
+                          {options ? (
+                            <Select
+                              value={param.value || UNSET_VALUE}
+                              onValueChange={(value) => updateParameter(index, 'value', value === UNSET_VALUE ? '' : value)}
+                            >
+                              <SelectTrigger className={`flex-1 ${visibleError ? 'border-destructive' : ''}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {!field.required && (
+                                  <SelectItem value={UNSET_VALUE}>
+                                    <span className="text-muted-foreground">Not set</span>
+                                  </SelectItem>
+                                )}
+                                {options.map(option => (
+                                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Input
+                              placeholder={field.example !== undefined ? String(field.example) : 'Value'}
+                              value={param.value}
+                              onChange={(e) => updateParameter(index, 'value', e.target.value)}
+                              className={`flex-1 ${visibleError ? 'border-destructive' : ''}`}
+                            />
+                          )}
+                          <div className="w-9 flex-shrink-0" />
+                        </div>
+                        {(visibleError || hints.length > 0) && (
+                          <p className={`text-xs pl-[4.5rem] ${visibleError ? 'text-destructive' : 'text-muted-foreground'}`}>
+                            {visibleError || hints.join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
 
                 {/* Request Body */}
-                {['post', 'put', 'patch'].includes(selectedMethod.toLowerCase()) && (
+                {hasBody && (
                   <div className="space-y-2">
-                    <Label>Request Body (JSON)</Label>
-                    <Textarea
-                      placeholder='{"key": "value"}'
-                      value={requestBody}
-                      onChange={(e) => setRequestBody(e.target.value)}
-                      className="h-32 font-mono text-sm"
-                    />
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Label>Request Body</Label>
+                        {bodyMediaTypes.length > 1 ? (
+                          <Select value={bodyMediaType} onValueChange={setBodyMediaType}>
+                            <SelectTrigger className="h-7 w-56 text-xs font-mono">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {bodyMediaTypes.map(entry => (
+                                <SelectItem key={entry.mediaType} value={entry.mediaType} className="font-mono text-xs">
+                                  {entry.mediaType}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant="outline" className="font-mono text-xs">{bodyMediaType || 'application/json'}</Badge>
+                        )}
+                      </div>
+                      <div className={`flex items-center gap-2 ${bodyKind === 'json' ? '' : 'hidden'}`}>
+                        <Switch
+                          id="block-invalid-body"
+                          checked={blockInvalidBody}
+                          onCheckedChange={setBlockInvalidBody}
+                        />
+                        <Label htmlFor="block-invalid-body" className="text-xs text-muted-foreground">
+                          Block invalid
+                        </Label>
+                      </div>
+                    </div>
+                    {!isFormBody && bodyKind !== 'binary' && bodyBranchPoints.map(point => (
+                      <div key={point.location} className="flex items-center gap-2">
+                        <span className="w-40 truncate font-mono text-xs text-muted-foreground" title={point.location}>
+                          {point.location} · {point.keyword}
+                        </span>
+                        <Select
+                          value={String(point.selected)}
+                          onValueChange={(value) => setBodyBranches(prev => ({ ...prev, [point.location]: Number(value) }))}
+                        >
+                          <SelectTrigger className="h-8 flex-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {point.options.map((option, index) => (
+                              <SelectItem key={index} value={String(index)}>{option}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                    {isFormBody ? (
+                      <FormBodyEditor
+                        fields={formFields}
+                        onChange={setFormFields}
+                        allowFiles={bodyKind === 'multipart'}
+                      />
+                    ) : bodyKind === 'binary' ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="file"
+                          onChange={(e) => setBodyFile(e.target.files?.[0] || null)}
+                          className="text-xs"
+                        />
+                        {bodyFile && (
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            {(bodyFile.size / 1024).toFixed(1)} KB
+                          </span>
+                        )}
+                      </div>
+                    ) : (
+                      <Textarea
+                        placeholder={bodyKind === 'json' ? '{"key": "value"}' : bodyKind === 'xml' ? '<root></root>' : 'Body'}
+                        value={requestBody}
+                        onChange={(e) => setRequestBody(e.target.value)}
+                        className={`h-32 font-mono text-sm ${bodyIssues.length > 0 ? 'border-destructive' : ''}`}
+                      />
+                    )}
+                    {bodyIssues.length > 0 && (
+                      <div className="space-y-1">
+                        {bodyIssues.slice(0, MAX_BODY_ISSUES).map((issue, index) => (
+                          <div key={index} className="flex items-start gap-2 text-xs text-destructive">
+                            <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                            <span className="font-mono">{issue.path}</span>
+                            <span>{issue.message}</span>
+                          </div>
+                        ))}
+                        {bodyIssues.length > MAX_BODY_ISSUES && (
+                          <p className="text-xs text-muted-foreground">
+                            and {bodyIssues.length - MAX_BODY_ISSUES} more
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
 
                 {/* Execute Button */}
-                <Button 
-                  onClick={executeRequest} 
-                  disabled={loading || !selectedServer || !selectedPath || !selectedMethod}
-                  className="w-full"
-                >
-                  <Play className="h-4 w-4 mr-2" />
-                  {loading ? 'Executing...' : 'Execute Request'}
-                </Button>
+                <div className="flex gap-2">
+                  <Button 
+                    onClick={executeRequest} 
+                    disabled={loading || (!selectedServer && !mockServerEnabled) || !selectedPath || !selectedMethod}
+                    className="flex-1"
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    {loading ? 'Executing...' : 'Execute Request'}
+                  </Button>
+                  <CodeSnippetDialog
+                    request={snippetRequest}
+                    secrets={snippetSecrets}
+                    error={snippetSecurity.error}
+                    disabled={!selectedPath || !selectedMethod}
+                  />
+                  <SaveRequestButton
+                    folders={savedFolders}
+                    disabled={!selectedPath || !selectedMethod}
+                    onSave={saveCurrentRequest}
+                  />
+                </div>
               </div>
             </CardContent>
           </div>
@@ -556,6 +1316,12 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
                   <TabsList className="flex-shrink-0 mx-4 mt-4">
                     <TabsTrigger value="body">Response Body</TabsTrigger>
                     <TabsTrigger value="headers">Headers</TabsTrigger>
+                    <TabsTrigger value="contract" disabled={!contract} className="gap-2">
+                      Contract
+                      {contract && (
+                        <span className={`h-2 w-2 rounded-full ${contract.passed ? 'bg-green-500' : 'bg-red-500'}`} />
+                      )}
+                    </TabsTrigger>
                   </TabsList>
                   
                   <TabsContent value="body" className="flex-1 m-4 mt-2 overflow-hidden">
@@ -576,6 +1342,37 @@ export const TryItConsole: React.FC<TryItConsoleProps> = ({ spec, theme = 'dark'
                       ))}
                     </div>
                   </TabsContent>
+
+                  <TabsContent value="contract" className="flex-1 m-4 mt-2 overflow-auto">
+                    {contract && (
+                      <div className="space-y-3">
+                        {contract.checks.map((check) => {
+                          const Icon = CONTRACT_ICONS[check.status];
+                          return (
+                            <div key={check.name} className="rounded-md border border-border p-3 text-sm">
+                              <div className="flex items-start gap-2">
+                                <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${CONTRACT_COLORS[check.status]}`} />
+                                <div className="min-w-0">
+                                  <div className="font-medium">{check.name}</div>
+                                  <div className="text-muted-foreground">{check.message}</div>
+                                </div>
+                              </div>
+                              {check.issues && (
+                                <div className="mt-2 ml-6 space-y-1">
+                                  {check.issues.map((issue, index) => (
+                                    <div key={index} className="flex gap-2 text-xs">
+                                      <span className="font-mono text-destructive">{issue.path}</span>
+                                      <span>{issue.message}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </TabsContent>
                 </Tabs>
               ) : (
                 <div className="h-full flex items-center justify-center text-center">
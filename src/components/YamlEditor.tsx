@@ -1,134 +1,271 @@
-import React, { useCallback, useEffect, useState } from 'react';
-import Editor from '@monaco-editor/react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Editor, { type OnMount } from '@monaco-editor/react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Save, Download, Check, AlertTriangle, X } from 'lucide-react';
+import { Save, Download, Check, AlertTriangle, Info, X, ArrowUpCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import * as yaml from 'js-yaml';
+import { basename, bundleSpec, type SpecFile } from '@/lib/spec-bundle';
+import { parseWithPositions, validateDocument, type SpecIssue, type SpecVersion } from '@/lib/spec-validation';
+import { DEFAULT_RULESET, lintIssues, type Ruleset } from '@/lib/spec-lint';
+import { LintRulesDialog } from './LintRulesDialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { ConversionTarget } from '@/lib/spec-convert';
 
 interface YamlEditorProps {
   value: string;
   onChange: (value: string, parsed: any) => void;
+  // Multi-file specs: edits to any file are reported through onFileChange
+  files?: SpecFile[];
+  rootFile?: string;
+  onFileChange?: (path: string, content: string) => void;
+  ruleset?: Ruleset;
+  onRulesetChange?: (ruleset: Ruleset) => void;
+  // Called after a successful Save with the checkpoint name the user entered
+  onCheckpoint?: (label: string) => void;
+  // Version of the whole spec; enables converting it into a new workspace entry
+  specVersion?: SpecVersion | null;
+  onConvert?: (target: ConversionTarget) => void;
+  // Run once each when a new command object is passed, e.g. from the command palette
+  command?: EditorCommand | null;
+  onCommandHandled?: () => void;
 }
 
+export type EditorCommand =
+  // Moves the cursor to a node of the entry document, given as path segments
+  | { type: 'reveal'; segments: string[] }
+  | { type: 'format' }
+  | { type: 'download' };
+
 interface ValidationError {
   line: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
   message: string;
-  severity: 'error' | 'warning';
+  severity: 'error' | 'warning' | 'info';
+}
+
+interface ValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  // Set when the content parsed well enough to be applied to the workspace
+  parsed?: unknown;
 }
 
-export const YamlEditor: React.FC<YamlEditorProps> = ({ value, onChange }) => {
-  const [editorValue, setEditorValue] = useState(value);
+type MonacoEditor = Parameters<OnMount>[0];
+type Monaco = Parameters<OnMount>[1];
+
+const MARKER_OWNER = 'openapi-validation';
+
+const toValidationError = (issue: SpecIssue): ValidationError => ({
+  line: issue.line,
+  column: issue.column,
+  endLine: issue.endLine,
+  endColumn: issue.endColumn,
+  message: issue.message,
+  severity: issue.severity
+});
+
+const MARKER_SEVERITY = { error: 'Error', warning: 'Warning', info: 'Info' } as const;
+
+// Line of the first occurrence of `needle`, used to point cross-file issues at their `$ref`
+const findLine = (content: string, needle: string): number => {
+  const index = content.indexOf(needle);
+  return index === -1 ? 1 : content.slice(0, index).split('\n').length;
+};
+
+export const YamlEditor: React.FC<YamlEditorProps> = ({
+  value,
+  onChange,
+  files,
+  rootFile,
+  onFileChange,
+  ruleset = DEFAULT_RULESET,
+  onRulesetChange,
+  onCheckpoint,
+  specVersion,
+  onConvert,
+  command,
+  onCommandHandled
+}) => {
+  const isMultiFile = !!files && files.length > 1 && !!onFileChange;
+  const [activeFile, setActiveFile] = useState(rootFile || '');
+  const activeContent = isMultiFile ? files.find(file => file.path === activeFile)?.content ?? '' : value;
+  const fileName = isMultiFile ? basename(activeFile) : 'openapi.yaml';
+  const isJsonFile = /\.json$/i.test(fileName);
+
+  const [editorValue, setEditorValue] = useState(activeContent);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [isValid, setIsValid] = useState(true);
+  const [canSave, setCanSave] = useState(true);
+  const [checkpointOpen, setCheckpointOpen] = useState(false);
+  const [checkpointName, setCheckpointName] = useState('');
+  const editorRef = useRef<MonacoEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const [editorMounted, setEditorMounted] = useState(false);
+  // Last content this editor propagated, so its echo back through props is not re-validated
+  const committedRef = useRef<string | null>(null);
+  // Content from props that the editor has not shown yet; commands wait for it
+  const incomingContentRef = useRef<string | null>(null);
+  const handledCommandRef = useRef<EditorCommand | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
-    setEditorValue(value);
-  }, [value]);
+    setActiveFile(rootFile || '');
+  }, [rootFile]);
 
-  const validateSpec = useCallback((content: string): { isValid: boolean; errors: ValidationError[]; parsed?: any } => {
-    const errors: ValidationError[] = [];
-    
+  // `lintTarget` lets multi-file specs lint the bundled document, so references
+  // from other files count when looking for unused components
+  const validateSpec = useCallback((content: string, lintTarget?: unknown): ValidationResult => {
     if (!content.trim()) {
       return { isValid: true, errors: [] };
     }
 
-    try {
-      // Try parsing as YAML first, then JSON
-      let parsed;
-      try {
-        parsed = yaml.load(content);
-      } catch (yamlError) {
-        try {
-          parsed = JSON.parse(content);
-        } catch (jsonError) {
-          errors.push({
-            line: 1,
-            message: 'Invalid YAML or JSON format',
-            severity: 'error'
-          });
-          return { isValid: false, errors };
-        }
-      }
+    const { parsed, version, issues, positions } = validateDocument(content);
+    const findings = parsed && version ? lintIssues(lintTarget ?? parsed, ruleset, positions.locate) : [];
+    const errors = [...issues, ...findings]
+      .sort((a, b) => a.line - b.line || a.column - b.column)
+      .map(toValidationError);
+    return {
+      isValid: !errors.some(e => e.severity === 'error'),
+      errors,
+      // Schema violations are reported but do not stop the preview from updating
+      parsed: parsed && version ? parsed : undefined
+    };
+  }, [ruleset]);
 
-      // Basic OpenAPI validation
-      if (parsed && typeof parsed === 'object') {
-        if (!parsed.openapi && !parsed.swagger) {
-          errors.push({
-            line: 1,
-            message: 'Missing required field: openapi or swagger',
-            severity: 'error'
-          });
-        }
+  // Files other than the entry document are fragments: only their syntax is checked
+  const validateFragment = useCallback((content: string): ValidationResult => {
+    const { value, syntaxIssues } = parseWithPositions(content);
+    const errors = syntaxIssues.map(toValidationError);
+    return errors.length > 0 ? { isValid: false, errors } : { isValid: true, errors, parsed: value };
+  }, []);
 
-        if (!parsed.info) {
-          errors.push({
-            line: 1,
-            message: 'Missing required field: info',
-            severity: 'error'
-          });
-        } else {
-          if (!parsed.info.title) {
-            errors.push({
-              line: 1,
-              message: 'Missing required field: info.title',
-              severity: 'warning'
-            });
-          }
-          if (!parsed.info.version) {
-            errors.push({
-              line: 1,
-              message: 'Missing required field: info.version',
-              severity: 'warning'
-            });
-          }
-        }
-
-        if (!parsed.paths && !parsed.components) {
-          errors.push({
-            line: 1,
-            message: 'API should have either paths or components',
+  const validateContent = useCallback((content: string): ValidationResult => {
+    if (!isMultiFile) return validateSpec(content);
+
+    const edited = files.map(file => file.path === activeFile ? { ...file, content } : file);
+    const bundle = bundleSpec(edited, rootFile);
+    const validation = activeFile === rootFile
+      ? validateSpec(content, bundle.document ?? undefined)
+      : validateFragment(content);
+    if (validation.parsed !== undefined) {
+      bundle.errors
+        .filter(issue => issue.file === activeFile)
+        .forEach(issue => {
+          validation.errors.push({
+            line: issue.ref ? findLine(content, issue.ref) : 1,
+            message: issue.message,
             severity: 'warning'
           });
-        }
-      }
+        });
+    }
+    return validation;
+  }, [isMultiFile, activeFile, rootFile, files, validateSpec, validateFragment]);
 
-      const hasErrors = errors.some(e => e.severity === 'error');
-      return { isValid: !hasErrors, errors, parsed };
-    } catch (error) {
-      errors.push({
-        line: 1,
-        message: `Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        severity: 'error'
-      });
-      return { isValid: false, errors };
+  const commitChange = useCallback((content: string, parsed: unknown) => {
+    committedRef.current = content;
+    if (isMultiFile) {
+      onFileChange(activeFile, content);
+    } else if (parsed) {
+      onChange(content, parsed);
+    }
+  }, [isMultiFile, activeFile, onFileChange, onChange]);
+
+  // Content loaded from outside (spec switch, file switch, upload) is validated right away
+  useEffect(() => {
+    setEditorValue(activeContent);
+    incomingContentRef.current = activeContent;
+    if (activeContent === committedRef.current) {
+      committedRef.current = null;
+      return;
     }
+    const validation = validateContent(activeContent);
+    setValidationErrors(validation.errors);
+    setIsValid(validation.isValid);
+    setCanSave(validation.parsed !== undefined);
+  }, [activeContent, validateContent]);
+
+  // Mirror the issue list as squiggles in the editor
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = editor?.getModel();
+    if (!monaco || !model) return;
+
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, validationErrors.map(error => {
+      const line = Math.min(error.line, model.getLineCount());
+      const singleLine = !error.endLine || error.endLine === error.line;
+      return {
+        startLineNumber: line,
+        startColumn: error.column || 1,
+        endLineNumber: line,
+        endColumn: singleLine && error.endColumn > (error.column || 1) ? error.endColumn : model.getLineMaxColumn(line),
+        message: error.message,
+        severity: monaco.MarkerSeverity[MARKER_SEVERITY[error.severity]]
+      };
+    }));
+  }, [validationErrors, editorValue]);
+
+  const handleEditorMount = useCallback<OnMount>((editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    setEditorMounted(true);
   }, []);
 
+  const revealPosition = useCallback((line: number, column = 1) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.revealLineInCenter(line);
+    editor.setPosition({ lineNumber: line, column });
+    editor.focus();
+  }, []);
+
+  const revealIssue = useCallback((error: ValidationError) => {
+    revealPosition(error.line, error.column || 1);
+  }, [revealPosition]);
+
   const handleEditorChange = useCallback((newValue: string | undefined) => {
     if (newValue === undefined) return;
     
     setEditorValue(newValue);
+    incomingContentRef.current = null;
     
-    const validation = validateSpec(newValue);
+    const validation = validateContent(newValue);
     setValidationErrors(validation.errors);
     setIsValid(validation.isValid);
-    
-    // Only call onChange if the spec is valid
-    if (validation.isValid && validation.parsed) {
-      onChange(newValue, validation.parsed);
+    setCanSave(validation.parsed !== undefined);
+
+    // Only propagate the change if the spec could be parsed
+    if (validation.parsed !== undefined) {
+      commitChange(newValue, validation.parsed);
     }
-  }, [validateSpec, onChange]);
+  }, [validateContent, commitChange]);
 
-  const handleSave = useCallback(() => {
-    const validation = validateSpec(editorValue);
-    if (validation.isValid && validation.parsed) {
-      onChange(editorValue, validation.parsed);
+  const handleSave = useCallback((label?: string) => {
+    const validation = validateContent(editorValue);
+    if (validation.parsed !== undefined) {
+      commitChange(editorValue, validation.parsed);
+      if (label !== undefined) {
+        onCheckpoint?.(label);
+        setCheckpointOpen(false);
+      }
       toast({
-        title: "Saved",
-        description: "Specification saved successfully",
+        title: label ? `Saved "${label}"` : "Saved",
+        description: validation.isValid
+          ? "Specification saved successfully"
+          : `Specification saved with ${validation.errors.length} issue${validation.errors.length !== 1 ? 's' : ''}`,
       });
     } else {
       toast({
@@ -137,14 +274,19 @@ export const YamlEditor: React.FC<YamlEditorProps> = ({ value, onChange }) => {
         variant: "destructive",
       });
     }
-  }, [editorValue, validateSpec, onChange, toast]);
+  }, [editorValue, validateContent, commitChange, onCheckpoint, toast]);
+
+  const openCheckpoint = useCallback((open: boolean) => {
+    if (open) setCheckpointName(`Checkpoint ${new Date().toLocaleString()}`);
+    setCheckpointOpen(open);
+  }, []);
 
   const handleDownload = useCallback(() => {
-    const blob = new Blob([editorValue], { type: 'text/yaml' });
+    const blob = new Blob([editorValue], { type: isJsonFile ? 'application/json' : 'text/yaml' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'openapi.yaml';
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -152,14 +294,16 @@ export const YamlEditor: React.FC<YamlEditorProps> = ({ value, onChange }) => {
     
     toast({
       title: "Downloaded",
-      description: "Specification downloaded as openapi.yaml",
+      description: `Specification downloaded as ${fileName}`,
     });
-  }, [editorValue, toast]);
+  }, [editorValue, fileName, isJsonFile, toast]);
 
   const formatDocument = useCallback(() => {
     try {
       const parsed = yaml.load(editorValue);
-      const formatted = yaml.dump(parsed, { indent: 2, lineWidth: 120 });
+      const formatted = isJsonFile
+        ? JSON.stringify(parsed, null, 2)
+        : yaml.dump(parsed, { indent: 2, lineWidth: 120 });
       setEditorValue(formatted);
       handleEditorChange(formatted);
       toast({
@@ -173,7 +317,29 @@ export const YamlEditor: React.FC<YamlEditorProps> = ({ value, onChange }) => {
         variant: "destructive",
       });
     }
-  }, [editorValue, handleEditorChange, toast]);
+  }, [editorValue, isJsonFile, handleEditorChange, toast]);
+
+  useEffect(() => {
+    if (!command || handledCommandRef.current === command) return;
+    // Acting on the previous spec's content would format or download the wrong document
+    if (incomingContentRef.current !== null && incomingContentRef.current !== editorValue) return;
+
+    if (command.type === 'reveal') {
+      if (isMultiFile && activeFile !== rootFile) {
+        setActiveFile(rootFile || '');
+        return;
+      }
+      if (!editorMounted) return;
+      const { line, column } = parseWithPositions(editorValue).locate(command.segments, 'key');
+      revealPosition(line, column);
+    } else if (command.type === 'format') {
+      formatDocument();
+    } else {
+      handleDownload();
+    }
+    handledCommandRef.current = command;
+    onCommandHandled?.();
+  }, [command, editorValue, editorMounted, isMultiFile, activeFile, rootFile, revealPosition, formatDocument, handleDownload, onCommandHandled]);
 
   return (
     <div className="h-full flex flex-col">
@@ -182,6 +348,20 @@ export const YamlEditor: React.FC<YamlEditorProps> = ({ value, onChange }) => {
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
             <CardTitle className="text-lg">YAML Editor</CardTitle>
+            {isMultiFile && (
+              <Select value={activeFile} onValueChange={setActiveFile}>
+                <SelectTrigger className="h-8 w-56 font-mono text-xs">
+                  <SelectValue placeholder="Select file" />
+                </SelectTrigger>
+                <SelectContent>
+                  {files.map((file) => (
+                    <SelectItem key={file.path} value={file.path} className="font-mono text-xs">
+                      {file.path}{file.path === rootFile ? ' (entry)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <div className="flex items-center gap-2">
               {isValid ? (
                 <Badge variant="secondary" className="bg-status-success/10 text-status-success border-status-success/20">
@@ -202,15 +382,65 @@ export const YamlEditor: React.FC<YamlEditorProps> = ({ value, onChange }) => {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {onRulesetChange && (
+              <LintRulesDialog ruleset={ruleset} onRulesetChange={onRulesetChange} />
+            )}
+            {onConvert && (specVersion === '2.0' || specVersion === '3.0') && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" title="Convert specification">
+                    <ArrowUpCircle className="h-4 w-4 mr-2" />
+                    Convert
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel className="text-xs text-muted-foreground">Create a converted copy</DropdownMenuLabel>
+                  {specVersion === '2.0' && (
+                    <DropdownMenuItem onSelect={() => onConvert('3.0')}>OpenAPI 3.0</DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onSelect={() => onConvert('3.1')}>OpenAPI 3.1</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             <Button variant="outline" size="sm" onClick={formatDocument}>
               Format
             </Button>
             <Button variant="outline" size="sm" onClick={handleDownload}>
               <Download className="h-4 w-4" />
             </Button>
-            <Button variant="default" size="sm" onClick={handleSave} disabled={!isValid}>
-              <Save className="h-4 w-4" />
-            </Button>
+            {onCheckpoint ? (
+              <Popover open={checkpointOpen} onOpenChange={openCheckpoint}>
+                <PopoverTrigger asChild>
+                  <Button variant="default" size="sm" disabled={!canSave} title="Save checkpoint">
+                    <Save className="h-4 w-4" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-72">
+                  <form
+                    className="space-y-3"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleSave(checkpointName.trim() || 'Checkpoint');
+                    }}
+                  >
+                    <div className="text-sm font-medium">Save checkpoint</div>
+                    <Input
+                      value={checkpointName}
+                      onChange={(e) => setCheckpointName(e.target.value)}
+                      placeholder="Checkpoint name"
+                      autoFocus
+                    />
+                    <Button type="submit" size="sm" className="w-full">
+                      Save
+                    </Button>
+                  </form>
+                </PopoverContent>
+              </Popover>
+            ) : (
+              <Button variant="default" size="sm" onClick={() => handleSave()} disabled={!canSave}>
+                <Save className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -220,16 +450,24 @@ export const YamlEditor: React.FC<YamlEditorProps> = ({ value, onChange }) => {
         <div className="flex-shrink-0 border-b border-border bg-muted/30">
           <div className="p-3 space-y-2 max-h-32 overflow-y-auto">
             {validationErrors.map((error, index) => (
-              <div key={index} className="flex items-start gap-2 text-sm">
+              <button
+                key={index}
+                type="button"
+                onClick={() => revealIssue(error)}
+                className="flex w-full items-start gap-2 text-left text-sm rounded hover:bg-muted/50"
+                title="Go to issue"
+              >
                 {error.severity === 'error' ? (
                   <X className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
-                ) : (
+                ) : error.severity === 'warning' ? (
                   <AlertTriangle className="h-4 w-4 text-status-warning mt-0.5 flex-shrink-0" />
+                ) : (
+                  <Info className="h-4 w-4 text-muted-foreground mt-0.5 flex-shrink-0" />
                 )}
-                <span className={error.severity === 'error' ? 'text-destructive' : 'text-status-warning'}>
-                  Line {error.line}: {error.message}
+                <span className={{ error: 'text-destructive', warning: 'text-status-warning', info: 'text-muted-foreground' }[error.severity]}>
+                  Line {error.line}{error.column ? `:${error.column}` : ''}: {error.message}
                 </span>
-              </div>
+              </button>
             ))}
           </div>
         </div>
@@ -239,9 +477,10 @@ export const YamlEditor: React.FC<YamlEditorProps> = ({ value, onChange }) => {
       <div className="flex-1 overflow-hidden">
         <Editor
           height="100%"
-          defaultLanguage="yaml"
+          language={isJsonFile ? 'json' : 'yaml'}
           value={editorValue}
           onChange={handleEditorChange}
+          onMount={handleEditorMount}
           theme="vs-dark"
           options={{
             minimap: { enabled: false },
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+
+import {
+  deleteEnvironment,
+  listEnvironments,
+  putEnvironment,
+  type Environment,
+} from "@/lib/environment-store"
+import { getVariableValues } from "@/lib/environment-variables"
+
+const ACTIVE_PREFIX = "apidoc-studio:environment:"
+const SECRETS_PREFIX = "apidoc-studio:secrets:"
+
+const readSecrets = (environmentId: string): Record<string, string> => {
+  try {
+    const stored = sessionStorage.getItem(SECRETS_PREFIX + environmentId)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+const writeSecrets = (environment: Environment) => {
+  const secrets = Object.fromEntries(
+    environment.variables.filter((variable) => variable.secret && variable.value).map((variable) => [variable.key, variable.value])
+  )
+  try {
+    if (Object.keys(secrets).length === 0) sessionStorage.removeItem(SECRETS_PREFIX + environment.id)
+    else sessionStorage.setItem(SECRETS_PREFIX + environment.id, JSON.stringify(secrets))
+  } catch (error) {
+    console.error("Failed to store secret variables:", error)
+  }
+}
+
+// Secret values live in sessionStorage, like credentials, and are merged back in on load
+const withSecrets = (environment: Environment): Environment => {
+  const secrets = readSecrets(environment.id)
+  return {
+    ...environment,
+    variables: environment.variables.map((variable) =>
+      variable.secret ? { ...variable, value: secrets[variable.key] ?? "" } : variable
+    ),
+  }
+}
+
+/**
+ * Environments of one spec and the one selected in the console. The
+ * selection is remembered per spec across reloads.
+ */
+export function useEnvironments(specId: string) {
+  const [environments, setEnvironments] = useState<Environment[]>([])
+  const [activeId, setActiveIdState] = useState(() => localStorage.getItem(ACTIVE_PREFIX + specId) || "")
+
+  const refresh = useCallback(async () => {
+    setEnvironments((await listEnvironments(specId)).map(withSecrets))
+  }, [specId])
+
+  useEffect(() => {
+    setEnvironments([])
+    setActiveIdState(localStorage.getItem(ACTIVE_PREFIX + specId) || "")
+    refresh().catch((error) => console.error("Failed to load environments:", error))
+  }, [specId, refresh])
+
+  const setActiveId = useCallback(
+    (id: string) => {
+      setActiveIdState(id)
+      if (id) localStorage.setItem(ACTIVE_PREFIX + specId, id)
+      else localStorage.removeItem(ACTIVE_PREFIX + specId)
+    },
+    [specId]
+  )
+
+  const saveEnvironment = useCallback(
+    async (environment: Environment) => {
+      writeSecrets(environment)
+      await putEnvironment(environment)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  const removeEnvironment = useCallback(
+    async (id: string) => {
+      sessionStorage.removeItem(SECRETS_PREFIX + id)
+      await deleteEnvironment(id)
+      if (id === activeId) setActiveId("")
+      await refresh()
+    },
+    [activeId, setActiveId, refresh]
+  )
+
+  const activeEnvironment = environments.find((environment) => environment.id === activeId)
+  const variables = useMemo(() => getVariableValues(activeEnvironment), [activeEnvironment])
+  const secrets = useMemo(
+    () => (activeEnvironment?.variables || []).filter((variable) => variable.secret).map((variable) => variable.value),
+    [activeEnvironment]
+  )
+
+  return { environments, activeEnvironment, setActiveId, variables, secrets, saveEnvironment, removeEnvironment }
+}
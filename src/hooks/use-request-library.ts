@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from "react"
+
+import {
+  addHistoryEntry,
+  clearHistory,
+  createRequestId,
+  deleteHistoryEntry,
+  deleteSavedRequest,
+  listHistory,
+  listSavedRequests,
+  putSavedRequest,
+  type HistoryEntry,
+  type RequestSnapshot,
+  type SavedRequest,
+  type StoredResponse,
+} from "@/lib/request-store"
+
+/**
+ * Sent-request history and saved requests of one spec, loaded from
+ * IndexedDB and refreshed after every change.
+ */
+export function useRequestLibrary(specId: string) {
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [saved, setSaved] = useState<SavedRequest[]>([])
+
+  const refresh = useCallback(async () => {
+    const [nextHistory, nextSaved] = await Promise.all([listHistory(specId), listSavedRequests(specId)])
+    setHistory(nextHistory)
+    setSaved(nextSaved)
+  }, [specId])
+
+  useEffect(() => {
+    setHistory([])
+    setSaved([])
+    refresh().catch((error) => console.error("Failed to load request library:", error))
+  }, [refresh])
+
+  const recordRequest = useCallback(
+    async (request: RequestSnapshot, response: StoredResponse) => {
+      await addHistoryEntry({ id: createRequestId(), specId, createdAt: Date.now(), request, response })
+      await refresh()
+    },
+    [specId, refresh]
+  )
+
+  const removeHistoryEntry = useCallback(
+    async (id: string) => {
+      await deleteHistoryEntry(id)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  const clearAllHistory = useCallback(async () => {
+    await clearHistory(specId)
+    await refresh()
+  }, [specId, refresh])
+
+  // Saving under an existing name and folder replaces that request
+  const saveRequest = useCallback(
+    async (name: string, folder: string, request: RequestSnapshot) => {
+      const existing = saved.find((item) => item.name === name && item.folder === folder)
+      await putSavedRequest({
+        id: existing?.id || createRequestId(),
+        specId,
+        name,
+        folder,
+        createdAt: Date.now(),
+        request,
+      })
+      await refresh()
+    },
+    [saved, specId, refresh]
+  )
+
+  const removeSavedRequest = useCallback(
+    async (id: string) => {
+      await deleteSavedRequest(id)
+      await refresh()
+    },
+    [refresh]
+  )
+
+  return { history, saved, recordRequest, removeHistoryEntry, clearAllHistory, saveRequest, removeSavedRequest }
+}
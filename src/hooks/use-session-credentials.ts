@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from "react"
+
+import type { SpecCredentials } from "@/lib/spec-security"
+
+const STORAGE_PREFIX = "apidoc-studio:credentials:"
+
+const readCredentials = (specId: string): SpecCredentials => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_PREFIX + specId)
+    return stored ? JSON.parse(stored) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Credentials for one spec, kept in sessionStorage so they survive switching
+ * tabs and specs but are dropped when the browser session ends. They are
+ * never written to the persisted workspace.
+ */
+export function useSessionCredentials(specId: string) {
+  const [credentials, setCredentialsState] = useState<SpecCredentials>(() => readCredentials(specId))
+
+  useEffect(() => {
+    setCredentialsState(readCredentials(specId))
+  }, [specId])
+
+  const setCredentials = useCallback(
+    (next: SpecCredentials) => {
+      setCredentialsState(next)
+      try {
+        if (Object.keys(next).length === 0) sessionStorage.removeItem(STORAGE_PREFIX + specId)
+        else sessionStorage.setItem(STORAGE_PREFIX + specId, JSON.stringify(next))
+      } catch (error) {
+        console.error("Failed to store credentials:", error)
+      }
+    },
+    [specId]
+  )
+
+  return [credentials, setCredentials] as const
+}
@@ -0,0 +1,7 @@
+import { useMemo } from "react"
+import { createSpecModel } from "@/lib/spec-model"
+import type { OpenApiDocument } from "@/lib/openapi-types"
+
+export function useSpecModel(spec: OpenApiDocument | null | undefined) {
+  return useMemo(() => createSpecModel(spec), [spec])
+}
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import {
+  addRevision,
+  createRevisionId,
+  listRevisions,
+  type RevisionKind,
+  type SpecRevision,
+} from "@/lib/revision-store"
+import type { ApiSpec } from "@/lib/workspace-store"
+
+const AUTOSAVE_DELAY_MS = 3000
+
+const sameContent = (revision: SpecRevision | undefined, spec: ApiSpec) =>
+  !!revision &&
+  revision.content === spec.content &&
+  JSON.stringify(revision.files ?? null) === JSON.stringify(spec.files ?? null)
+
+/**
+ * Revision history of the selected spec. Edits are snapshotted once the
+ * content has been idle for a few seconds (and when switching away from the
+ * spec); checkpoints are recorded explicitly through `saveRevision`.
+ */
+export function useSpecRevisions(spec: ApiSpec | undefined, enabled = true) {
+  const [revisions, setRevisions] = useState<SpecRevision[]>([])
+  const specRef = useRef(spec)
+  specRef.current = spec
+  // Edited spec waiting for its autosave timer
+  const pendingRef = useRef<ApiSpec | null>(null)
+
+  const specId = spec?.id
+
+  const store = useCallback(async (target: ApiSpec, kind: RevisionKind, label?: string, force = false) => {
+    const existing = await listRevisions(target.id)
+    if (!force && sameContent(existing[0], target)) return existing[0]
+
+    const revision: SpecRevision = {
+      id: createRevisionId(),
+      specId: target.id,
+      createdAt: Date.now(),
+      kind,
+      label,
+      content: target.content,
+      files: target.files,
+    }
+    await addRevision(revision)
+    if (specRef.current?.id === target.id) {
+      setRevisions(await listRevisions(target.id))
+    }
+    return revision
+  }, [])
+
+  // Load the history of the selected spec, recording its current content when it has none
+  useEffect(() => {
+    if (!enabled || !specId) {
+      setRevisions([])
+      return
+    }
+    let cancelled = false
+    listRevisions(specId)
+      .then(async (list) => {
+        const current = specRef.current
+        if (list.length === 0 && current?.id === specId) {
+          await store(current, "autosave", "Initial version", true)
+          return
+        }
+        if (!cancelled) setRevisions(list)
+      })
+      .catch((error) => console.error("Failed to load revisions:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, specId, store])
+
+  useEffect(() => {
+    if (!enabled || !spec) return
+    pendingRef.current = spec
+    const timer = setTimeout(() => {
+      pendingRef.current = null
+      store(spec, "autosave").catch((error) => console.error("Failed to autosave revision:", error))
+    }, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [enabled, spec, store])
+
+  // Don't lose the last edits of a spec when switching to another one
+  useEffect(() => {
+    return () => {
+      const pending = pendingRef.current
+      pendingRef.current = null
+      if (pending) {
+        store(pending, "autosave").catch((error) => console.error("Failed to autosave revision:", error))
+      }
+    }
+  }, [specId, store])
+
+  const saveRevision = useCallback(async (kind: RevisionKind, label?: string) => {
+    const current = specRef.current
+    if (!current) return undefined
+    pendingRef.current = null
+    return store(current, kind, label, kind === "checkpoint")
+  }, [store])
+
+  return { revisions, saveRevision }
+}
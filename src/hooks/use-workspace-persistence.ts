@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from "react"
+
+import { loadWorkspace, saveWorkspace, type WorkspaceSnapshot } from "@/lib/workspace-store"
+
+const SAVE_DELAY_MS = 500
+
+/**
+ * Restores the workspace from IndexedDB once on mount, then writes every
+ * change back after a short pause. `onRestore` receives null on first visit
+ * or when storage is unavailable. Returns whether restoring has finished.
+ */
+export function useWorkspacePersistence(
+  snapshot: WorkspaceSnapshot,
+  onRestore: (saved: WorkspaceSnapshot | null) => void
+) {
+  const [restored, setRestored] = useState(false)
+  const onRestoreRef = useRef(onRestore)
+  onRestoreRef.current = onRestore
+
+  useEffect(() => {
+    let cancelled = false
+    loadWorkspace()
+      .catch((error) => {
+        console.error("Failed to restore workspace:", error)
+        return null
+      })
+      .then((saved) => {
+        if (cancelled) return
+        onRestoreRef.current(saved)
+        setRestored(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    // Saving before the restore would overwrite the stored workspace with the empty initial state
+    if (!restored) return
+    const timer = setTimeout(() => {
+      saveWorkspace(snapshot).catch((error) => console.error("Failed to save workspace:", error))
+    }, SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [restored, snapshot])
+
+  return restored
+}
@@ -0,0 +1,89 @@
+import { matchPath } from 'react-router-dom';
+import { HTTP_METHODS, type HttpMethod, type OpenApiDocument, type OperationObject } from './openapi-types';
+
+export type AppTab = 'upload' | 'viewer' | 'editor' | 'try-it' | 'compare';
+
+export interface AppRoute {
+  specId?: string;
+  tab: AppTab;
+  operationId?: string;
+}
+
+// URL segment for each tab that belongs to a spec; the upload tab lives at the root
+const TAB_SEGMENTS: Record<Exclude<AppTab, 'upload'>, string> = {
+  viewer: 'viewer',
+  editor: 'editor',
+  'try-it': 'try',
+  compare: 'compare',
+};
+
+export const APP_ROUTE_PATTERNS = {
+  home: '/',
+  viewer: '/specs/:specId/viewer',
+  editor: '/specs/:specId/editor',
+  tryIt: '/specs/:specId/try',
+  tryOperation: '/specs/:specId/try/:operationId',
+  compare: '/specs/:specId/compare',
+} as const;
+
+const decodeParam = (value: string | undefined): string | undefined => {
+  if (value === undefined) return undefined;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/** Builds the shareable path for a spec, tab and (in the console) operation. */
+export const buildAppPath = ({ specId, tab, operationId }: AppRoute): string => {
+  if (!specId || tab === 'upload') return APP_ROUTE_PATTERNS.home;
+  const base = `/specs/${encodeURIComponent(specId)}/${TAB_SEGMENTS[tab]}`;
+  return tab === 'try-it' && operationId ? `${base}/${encodeURIComponent(operationId)}` : base;
+};
+
+/** Reads a path produced by `buildAppPath`; returns null for anything else. */
+export const parseAppPath = (pathname: string): AppRoute | null => {
+  if (matchPath(APP_ROUTE_PATTERNS.home, pathname)) return { tab: 'upload' };
+
+  const operationMatch = matchPath(APP_ROUTE_PATTERNS.tryOperation, pathname);
+  if (operationMatch) {
+    return {
+      specId: decodeParam(operationMatch.params.specId),
+      tab: 'try-it',
+      operationId: decodeParam(operationMatch.params.operationId),
+    };
+  }
+
+  for (const [tab, segment] of Object.entries(TAB_SEGMENTS)) {
+    const match = matchPath(`/specs/:specId/${segment}`, pathname);
+    if (match) return { specId: decodeParam(match.params.specId), tab: tab as AppTab };
+  }
+  return null;
+};
+
+/**
+ * Identifies an operation in a link: its operationId when it has one,
+ * otherwise the method and path, e.g. `GET /pets/{id}`.
+ */
+export const getOperationRouteId = (path: string, method: string, operation?: OperationObject): string =>
+  operation?.operationId || `${method.toUpperCase()} ${path}`;
+
+export const findOperationByRouteId = (
+  spec: OpenApiDocument | null | undefined,
+  routeId: string
+): { path: string; method: HttpMethod } | null => {
+  for (const [path, pathItem] of Object.entries(spec?.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem?.[method] as OperationObject | undefined;
+      if (operation && getOperationRouteId(path, method, operation) === routeId) return { path, method };
+    }
+  }
+  // Links made before an operationId was added still resolve by method and path
+  for (const [path, pathItem] of Object.entries(spec?.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      if (pathItem?.[method] && `${method.toUpperCase()} ${path}` === routeId) return { path, method };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,386 @@
+import { formatCookieHeader, type AppliedSecurity } from './spec-security';
+import type { BodyKind } from './request-body';
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'go' | 'httpie' | 'powershell';
+
+export const SNIPPET_LANGUAGES: Array<{ id: SnippetLanguage; label: string }> = [
+  { id: 'curl', label: 'cURL' },
+  { id: 'fetch', label: 'fetch' },
+  { id: 'axios', label: 'axios' },
+  { id: 'python', label: 'Python' },
+  { id: 'go', label: 'Go' },
+  { id: 'httpie', label: 'HTTPie' },
+  { id: 'powershell', label: 'PowerShell' },
+];
+
+export type SnippetBody =
+  | { kind: 'text'; text: string; json: boolean }
+  | { kind: 'form-urlencoded'; fields: Array<[string, string]> }
+  // `fileName` marks a file part; the snippet reads it from the working directory
+  | { kind: 'multipart'; fields: Array<{ name: string; value: string; fileName?: string }> }
+  | { kind: 'binary'; fileName: string };
+
+export interface SnippetRequest {
+  method: string;
+  url: string;
+  headers: Array<[string, string]>;
+  body?: SnippetBody;
+}
+
+export interface SnippetInput {
+  method: string;
+  server: string;
+  path: string;
+  // Values with variables already substituted; `array` values are comma-separated
+  parameters: Array<{ name: string; value: string; type: string; array?: boolean }>;
+  auth: AppliedSecurity;
+  mediaType?: string;
+  bodyKind?: BodyKind;
+  body?: string;
+  formFields?: Array<{ name: string; value: string; isFile: boolean; fileNames: string[]; multiple: boolean }>;
+  fileName?: string;
+}
+
+const splitValues = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Puts together the request the console would send: path parameters filled
+ * in, query string, headers including cookies, and the body. Cookies are
+ * sent as a header, which scripts can do and browsers cannot.
+ */
+export const buildSnippetRequest = (input: SnippetInput): SnippetRequest => {
+  const named = input.parameters.filter(param => param.name && param.value);
+  let path = input.path;
+  named
+    .filter(param => param.type === 'path')
+    .forEach(param => {
+      path = path.replace(`{${param.name}}`, encodeURIComponent(param.value));
+    });
+
+  const query = new URLSearchParams();
+  const queryParams = named.filter(param => param.type === 'query');
+  Object.entries(input.auth.query)
+    .filter(([name]) => !queryParams.some(param => param.name === name))
+    .forEach(([name, value]) => query.append(name, value));
+  queryParams.forEach(param => (param.array ? splitValues(param.value) : [param.value]).forEach(value => query.append(param.name, value)));
+  const queryString = query.toString();
+  const url = input.server.replace(/\/$/, '') + path + (queryString ? `?${queryString}` : '');
+
+  const headers = new Map<string, string>(Object.entries(input.auth.headers));
+  const cookies: Record<string, string> = { ...input.auth.cookies };
+  named.filter(param => param.type === 'cookie').forEach(param => { cookies[param.name] = param.value; });
+  if (Object.keys(cookies).length > 0) {
+    headers.set('Cookie', formatCookieHeader(cookies));
+  }
+
+  let body: SnippetBody | undefined;
+  const kind = input.bodyKind;
+  if (kind === 'form-urlencoded' || kind === 'multipart') {
+    const fields = (input.formFields || []).filter(field => field.name);
+    body = kind === 'multipart'
+      ? {
+          kind,
+          fields: fields.flatMap(field => (field.isFile
+            ? field.fileNames.map(fileName => ({ name: field.name, value: '', fileName }))
+            : (field.multiple ? splitValues(field.value) : [field.value]).filter(value => value !== '').map(value => ({ name: field.name, value })))),
+        }
+      : {
+          kind,
+          fields: fields.flatMap(field =>
+            (field.multiple ? splitValues(field.value) : [field.value]).filter(value => value !== '').map(value => [field.name, value] as [string, string])),
+        };
+  } else if (kind === 'binary') {
+    if (input.fileName) body = { kind, fileName: input.fileName };
+  } else if (kind && input.body?.trim()) {
+    body = { kind: 'text', text: input.body, json: kind === 'json' };
+  }
+  if (body && input.mediaType && body.kind !== 'multipart') headers.set('Content-Type', input.mediaType);
+
+  named.filter(param => param.type === 'header').forEach(param => headers.set(param.name, param.value));
+
+  return { method: input.method.toUpperCase(), url, headers: [...headers.entries()], body };
+};
+
+// POSIX shell: single quotes, with embedded quotes closed, escaped and reopened
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+const powerShellQuote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+const jsString = (value: string) => JSON.stringify(value);
+// JSON string escapes are also valid in Python and Go string literals
+const pyString = jsString;
+const goString = jsString;
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const toPython = (value: unknown, indent = ''): string => {
+  if (value === null) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'string') return pyString(value);
+  if (typeof value === 'number') return String(value);
+  const inner = `${indent}    `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => inner + toPython(item, inner)).join(',\n')}\n${indent}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([key, item]) => `${inner}${pyString(key)}: ${toPython(item, inner)}`).join(',\n')}\n${indent}}`;
+};
+
+const curl = ({ method, url, headers, body }: SnippetRequest): string => {
+  const lines = [`curl -X ${method} ${shellQuote(url)}`];
+  headers.forEach(([name, value]) => lines.push(`-H ${shellQuote(`${name}: ${value}`)}`));
+  if (body?.kind === 'text') lines.push(`--data-raw ${shellQuote(body.text)}`);
+  if (body?.kind === 'form-urlencoded') body.fields.forEach(([name, value]) => lines.push(`--data-urlencode ${shellQuote(`${name}=${value}`)}`));
+  if (body?.kind === 'multipart') {
+    body.fields.forEach(field => lines.push(field.fileName
+      ? `-F ${shellQuote(`${field.name}=@${field.fileName}`)}`
+      : `--form-string ${shellQuote(`${field.name}=${field.value}`)}`));
+  }
+  if (body?.kind === 'binary') lines.push(`--data-binary ${shellQuote(`@${body.fileName}`)}`);
+  return lines.join(' \\\n  ');
+};
+
+const httpie = ({ method, url, headers, body }: SnippetRequest): string => {
+  const flags = body?.kind === 'form-urlencoded' ? ['--form'] : body?.kind === 'multipart' ? ['--multipart'] : [];
+  if (body?.kind === 'text') flags.push(`--raw ${shellQuote(body.text)}`);
+  const items = headers.map(([name, value]) => shellQuote(`${name}:${value}`));
+  if (body?.kind === 'form-urlencoded') body.fields.forEach(([name, value]) => items.push(shellQuote(`${name}=${value}`)));
+  if (body?.kind === 'multipart') {
+    body.fields.forEach(field => items.push(shellQuote(field.fileName ? `${field.name}@${field.fileName}` : `${field.name}=${field.value}`)));
+  }
+  const command = ['http', ...flags, method, shellQuote(url), ...items].join(' \\\n  ');
+  return body?.kind === 'binary' ? `${command} \\\n  < ${shellQuote(body.fileName)}` : command;
+};
+
+const readsFiles = (body: SnippetBody | undefined) =>
+  body?.kind === 'binary' || (body?.kind === 'multipart' && body.fields.some(field => field.fileName));
+
+// The fetch and axios body setup, assigned to `body` when there is one. Files are read with Node's `openAsBlob`.
+const jsBodySetup = (body: SnippetBody | undefined): string[] => {
+  if (!body) return [];
+  switch (body.kind) {
+    case 'text': {
+      const parsed = body.json ? parseJson(body.text) : undefined;
+      return parsed !== undefined
+        ? [`const body = JSON.stringify(${JSON.stringify(parsed, null, 2)});`]
+        : [`const body = ${jsString(body.text)};`];
+    }
+    case 'form-urlencoded':
+      return [
+        'const body = new URLSearchParams();',
+        ...body.fields.map(([name, value]) => `body.append(${jsString(name)}, ${jsString(value)});`),
+      ];
+    case 'multipart':
+      return [
+        'const body = new FormData();',
+        ...body.fields.map(field => (field.fileName
+          ? `body.append(${jsString(field.name)}, await openAsBlob(${jsString(field.fileName)}), ${jsString(field.fileName)});`
+          : `body.append(${jsString(field.name)}, ${jsString(field.value)});`)),
+      ];
+    case 'binary':
+      return [`const body = await openAsBlob(${jsString(body.fileName)});`];
+  }
+};
+
+const jsHeaders = (headers: Array<[string, string]>, indent: string) =>
+  headers.length === 0
+    ? '{}'
+    : `{\n${headers.map(([name, value]) => `${indent}  ${jsString(name)}: ${jsString(value)}`).join(',\n')}\n${indent}}`;
+
+const fetchSnippet = ({ method, url, headers, body }: SnippetRequest): string => {
+  const options = [`  method: ${jsString(method)}`, `  headers: ${jsHeaders(headers, '  ')}`];
+  if (body) options.push('  body');
+  return [
+    ...(readsFiles(body) ? ["import { openAsBlob } from 'node:fs';", ''] : []),
+    ...jsBodySetup(body),
+    `const response = await fetch(${jsString(url)}, {\n${options.join(',\n')},\n});`,
+    'console.log(response.status, await response.text());',
+  ].join('\n');
+};
+
+const axiosSnippet = ({ method, url, headers, body }: SnippetRequest): string => {
+  const options = [`  method: ${jsString(method.toLowerCase())}`, `  url: ${jsString(url)}`, `  headers: ${jsHeaders(headers, '  ')}`];
+  if (body) options.push('  data: body');
+  return [
+    "import axios from 'axios';",
+    ...(readsFiles(body) ? ["import { openAsBlob } from 'node:fs';"] : []),
+    '',
+    ...jsBodySetup(body),
+    `const response = await axios({\n${options.join(',\n')},\n});`,
+    'console.log(response.status, response.data);',
+  ].join('\n');
+};
+
+const python = ({ method, url, headers, body }: SnippetRequest): string => {
+  const lines = ['import requests', ''];
+  const args = [pyString(method), 'url'];
+  lines.push(`url = ${pyString(url)}`);
+  const sendHeaders = body?.kind === 'text' && body.json && parseJson(body.text) !== undefined
+    // `json=` sets the Content-Type itself
+    ? headers.filter(([name]) => name.toLowerCase() !== 'content-type')
+    : headers;
+  if (sendHeaders.length > 0) {
+    lines.push(`headers = ${toPython(Object.fromEntries(sendHeaders))}`);
+    args.push('headers=headers');
+  }
+  if (body?.kind === 'text') {
+    const parsed = body.json ? parseJson(body.text) : undefined;
+    if (parsed !== undefined) {
+      lines.push(`payload = ${toPython(parsed)}`);
+      args.push('json=payload');
+    } else {
+      lines.push(`payload = ${pyString(body.text)}`);
+      args.push('data=payload.encode("utf-8")');
+    }
+  }
+  if (body?.kind === 'form-urlencoded') {
+    lines.push(`payload = [\n${body.fields.map(([name, value]) => `    (${pyString(name)}, ${pyString(value)})`).join(',\n')}\n]`);
+    args.push('data=payload');
+  }
+  if (body?.kind === 'multipart') {
+    const values = body.fields.filter(field => !field.fileName);
+    const files = body.fields.filter(field => field.fileName);
+    if (values.length > 0) {
+      lines.push(`payload = [\n${values.map(field => `    (${pyString(field.name)}, ${pyString(field.value)})`).join(',\n')}\n]`);
+      args.push('data=payload');
+    }
+    if (files.length > 0) {
+      lines.push(`files = [\n${files.map(field => `    (${pyString(field.name)}, open(${pyString(field.fileName || '')}, "rb"))`).join(',\n')}\n]`);
+      args.push('files=files');
+    }
+  }
+  if (body?.kind === 'binary') {
+    lines.push(`payload = open(${pyString(body.fileName)}, "rb")`);
+    args.push('data=payload');
+  }
+  lines.push('', `response = requests.request(${args.join(', ')})`, 'print(response.status_code, response.text)');
+  return lines.join('\n');
+};
+
+const go = ({ method, url, headers, body }: SnippetRequest): string => {
+  const imports = new Set(['fmt', 'io', 'net/http']);
+  const setup: string[] = [];
+  let reader = 'nil';
+  let contentType: string | undefined;
+
+  if (body?.kind === 'text') {
+    imports.add('strings');
+    const text = body.text.includes('`') ? goString(body.text) : `\`${body.text}\``;
+    setup.push(`\tbody := strings.NewReader(${text})`);
+    reader = 'body';
+  } else if (body?.kind === 'form-urlencoded') {
+    imports.add('net/url').add('strings');
+    setup.push('\tform := url.Values{}');
+    body.fields.forEach(([name, value]) => setup.push(`\tform.Add(${goString(name)}, ${goString(value)})`));
+    setup.push('\tbody := strings.NewReader(form.Encode())');
+    reader = 'body';
+  } else if (body?.kind === 'multipart') {
+    imports.add('bytes').add('mime/multipart');
+    // An unused import does not compile, so `os` only comes with a file part
+    if (body.fields.some(field => field.fileName)) imports.add('os');
+    setup.push('\tbody := &bytes.Buffer{}', '\twriter := multipart.NewWriter(body)');
+    body.fields.forEach(field => {
+      if (field.fileName) {
+        setup.push(
+          `\tif file, err := os.Open(${goString(field.fileName)}); err == nil {`,
+          `\t\tpart, _ := writer.CreateFormFile(${goString(field.name)}, ${goString(field.fileName)})`,
+          '\t\tio.Copy(part, file)',
+          '\t\tfile.Close()',
+          '\t}'
+        );
+      } else {
+        setup.push(`\twriter.WriteField(${goString(field.name)}, ${goString(field.value)})`);
+      }
+    });
+    setup.push('\twriter.Close()');
+    reader = 'body';
+    contentType = 'writer.FormDataContentType()';
+  } else if (body?.kind === 'binary') {
+    imports.add('os');
+    setup.push(`\tbody, err := os.Open(${goString(body.fileName)})`, '\tif err != nil {', '\t\tpanic(err)', '\t}', '\tdefer body.Close()');
+    reader = 'body';
+  }
+
+  const lines = [
+    'package main',
+    '',
+    `import (\n${[...imports].sort().map(name => `\t"${name}"`).join('\n')}\n)`,
+    '',
+    'func main() {',
+    ...setup,
+    `\treq, err := http.NewRequest(${goString(method)}, ${goString(url)}, ${reader})`,
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    ...headers.map(([name, value]) => `\treq.Header.Set(${goString(name)}, ${goString(value)})`),
+  ];
+  if (contentType) lines.push(`\treq.Header.Set("Content-Type", ${contentType})`);
+  lines.push(
+    '',
+    '\tres, err := http.DefaultClient.Do(req)',
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tdefer res.Body.Close()',
+    '\tdata, _ := io.ReadAll(res.Body)',
+    '\tfmt.Println(res.Status, string(data))',
+    '}'
+  );
+  return lines.join('\n');
+};
+
+const powershell = ({ method, url, headers, body }: SnippetRequest): string => {
+  const lines: string[] = [];
+  // Content-Type is passed separately; Invoke-RestMethod rejects it among the headers for some bodies
+  const contentType = headers.find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+  const otherHeaders = headers.filter(([name]) => name.toLowerCase() !== 'content-type');
+  const args = [`-Uri ${powerShellQuote(url)}`, `-Method ${method}`];
+
+  if (otherHeaders.length > 0) {
+    lines.push(`$headers = @{\n${otherHeaders.map(([name, value]) => `    ${powerShellQuote(name)} = ${powerShellQuote(value)}`).join('\n')}\n}`);
+    args.push('-Headers $headers');
+  }
+  if (contentType) args.push(`-ContentType ${powerShellQuote(contentType)}`);
+  if (body?.kind === 'text') {
+    lines.push(`$body = ${powerShellQuote(body.text)}`);
+    args.push('-Body $body');
+  }
+  if (body?.kind === 'form-urlencoded') {
+    lines.push(`$body = @{\n${body.fields.map(([name, value]) => `    ${powerShellQuote(name)} = ${powerShellQuote(value)}`).join('\n')}\n}`);
+    args.push('-Body $body');
+  }
+  if (body?.kind === 'multipart') {
+    // -Form needs PowerShell 7 or later
+    lines.push(`$form = @{\n${body.fields.map(field => `    ${powerShellQuote(field.name)} = ${field.fileName
+      ? `Get-Item -Path ${powerShellQuote(field.fileName)}`
+      : powerShellQuote(field.value)}`).join('\n')}\n}`);
+    args.push('-Form $form');
+  }
+  if (body?.kind === 'binary') args.push(`-InFile ${powerShellQuote(body.fileName)}`);
+
+  lines.push(`$response = Invoke-RestMethod ${args.join(' `\n  ')}`, '$response | ConvertTo-Json -Depth 10');
+  return lines.join('\n');
+};
+
+const GENERATORS: Record<SnippetLanguage, (request: SnippetRequest) => string> = {
+  curl,
+  fetch: fetchSnippet,
+  axios: axiosSnippet,
+  python,
+  go,
+  httpie,
+  powershell,
+};
+
+/**
+ * Source code sending `request` in the given language or tool.
+ */
+export const generateSnippet = (language: SnippetLanguage, request: SnippetRequest): string =>
+  GENERATORS[language](request);
@@ -0,0 +1,371 @@
+import { expandServerUrl, getDocumentServers } from './server-urls';
+import { encodeBasicCredentials } from './spec-security';
+import type { HttpMethod, OpenApiDocument } from './openapi-types';
+import type { RequestSnapshot } from './request-store';
+
+export interface ParsedCurl {
+  method: string;
+  url: string;
+  headers: Array<[string, string]>;
+  // `-d` style data, joined with `&` when given several times
+  data?: string;
+  form: Array<{ name: string; value: string; isFile: boolean }>;
+}
+
+export interface CurlMatch {
+  path: string;
+  method: HttpMethod;
+  // Part of the URL before the matched path, e.g. `https://api.example.com/v2`
+  server: string;
+  pathParameters: Record<string, string>;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Splits a shell command into words the way a POSIX shell would for the
+ * common cases: single and double quotes, `$'…'` strings, backslash escapes
+ * and line continuations.
+ */
+export const tokenizeShell = (command: string): string[] => {
+  const words: string[] = [];
+  let current = '';
+  let inWord = false;
+  let i = 0;
+
+  const ansiEscapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+
+  while (i < command.length) {
+    const char = command[i];
+    if (char === '\\' && (command[i + 1] === '\n' || command.slice(i + 1, i + 3) === '\r\n')) {
+      i += command[i + 1] === '\n' ? 2 : 3;
+    } else if (/\s/.test(char)) {
+      if (inWord) words.push(current);
+      current = '';
+      inWord = false;
+      i++;
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) throw new Error('Unterminated single quote');
+      current += command.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+    } else if (char === '$' && command[i + 1] === "'") {
+      i += 2;
+      while (i < command.length && command[i] !== "'") {
+        if (command[i] === '\\' && i + 1 < command.length) {
+          current += ansiEscapes[command[i + 1]] ?? command[i + 1];
+          i += 2;
+        } else {
+          current += command[i++];
+        }
+      }
+      if (i >= command.length) throw new Error('Unterminated $\' quote');
+      inWord = true;
+      i++;
+    } else if (char === '"') {
+      i++;
+      while (i < command.length && command[i] !== '"') {
+        // Inside double quotes a backslash only escapes these characters
+        if (command[i] === '\\' && '"\\$`\n'.includes(command[i + 1])) {
+          if (command[i + 1] !== '\n') current += command[i + 1];
+          i += 2;
+        } else {
+          current += command[i++];
+        }
+      }
+      if (i >= command.length) throw new Error('Unterminated double quote');
+      inWord = true;
+      i++;
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[i + 1];
+      inWord = true;
+      i += 2;
+    } else {
+      current += char;
+      inWord = true;
+      i++;
+    }
+  }
+  if (inWord) words.push(current);
+  return words;
+};
+
+// Options whose value is not needed but must be skipped
+const IGNORED_WITH_VALUE = new Set([
+  '-o', '--output', '-m', '--max-time', '--connect-timeout', '-x', '--proxy', '--cacert', '--cert', '--key',
+  '-w', '--write-out', '-c', '--cookie-jar', '--retry', '-T', '--upload-file', '-K', '--config',
+]);
+
+const SHORT_WITH_VALUE = new Set(['X', 'H', 'd', 'F', 'u', 'b', 'A', 'e', 'o', 'm', 'x', 'w', 'c', 'T', 'K']);
+
+/**
+ * Parses a `curl` command into its method, URL, headers and body. Only the
+ * options that affect what is sent are interpreted; the rest are skipped.
+ */
+export const parseCurl = (command: string): ParsedCurl => {
+  const words = tokenizeShell(command.trim());
+  if (words[0] !== 'curl') throw new Error('The command does not start with curl');
+
+  let method: string | undefined;
+  let url: string | undefined;
+  let useGet = false;
+  const headers: Array<[string, string]> = [];
+  const data: string[] = [];
+  const form: ParsedCurl['form'] = [];
+
+  for (let i = 1; i < words.length; i++) {
+    let option = words[i];
+    let value: string | undefined;
+
+    // `--request=POST` and `-XPOST`
+    if (option.startsWith('--') && option.includes('=')) {
+      value = option.slice(option.indexOf('=') + 1);
+      option = option.slice(0, option.indexOf('='));
+    } else if (/^-[A-Za-z]./.test(option) && SHORT_WITH_VALUE.has(option[1])) {
+      value = option.slice(2);
+      option = option.slice(0, 2);
+    }
+    const takeValue = () => {
+      if (value !== undefined) return value;
+      if (i + 1 >= words.length) throw new Error(`Missing value for ${option}`);
+      return words[++i];
+    };
+
+    switch (option) {
+      case '-X':
+      case '--request':
+        method = takeValue().toUpperCase();
+        break;
+      case '-H':
+      case '--header': {
+        const header = takeValue();
+        const separator = header.indexOf(':');
+        if (separator > 0) headers.push([header.slice(0, separator).trim(), header.slice(separator + 1).trim()]);
+        break;
+      }
+      case '-d':
+      case '--data':
+      case '--data-raw':
+      case '--data-binary':
+      case '--data-ascii':
+        data.push(takeValue());
+        break;
+      case '--data-urlencode': {
+        const item = takeValue();
+        const separator = item.indexOf('=');
+        data.push(separator === -1
+          ? encodeURIComponent(item)
+          : `${item.slice(0, separator)}=${encodeURIComponent(item.slice(separator + 1))}`);
+        break;
+      }
+      case '--json':
+        data.push(takeValue());
+        headers.push(['Content-Type', 'application/json'], ['Accept', 'application/json']);
+        break;
+      case '-F':
+      case '--form':
+      case '--form-string': {
+        const item = takeValue();
+        const separator = item.indexOf('=');
+        if (separator === -1) break;
+        const fieldValue = item.slice(separator + 1);
+        const isFile = option !== '--form-string' && fieldValue.startsWith('@');
+        form.push({ name: item.slice(0, separator), value: isFile ? fieldValue.slice(1) : fieldValue, isFile });
+        break;
+      }
+      case '-u':
+      case '--user':
+        headers.push(['Authorization', encodeBasicCredentials(takeValue())]);
+        break;
+      case '-b':
+      case '--cookie':
+        headers.push(['Cookie', takeValue()]);
+        break;
+      case '-A':
+      case '--user-agent':
+        headers.push(['User-Agent', takeValue()]);
+        break;
+      case '-e':
+      case '--referer':
+        headers.push(['Referer', takeValue()]);
+        break;
+      case '-G':
+      case '--get':
+        useGet = true;
+        break;
+      case '-I':
+      case '--head':
+        method = 'HEAD';
+        break;
+      case '--url':
+        url = takeValue();
+        break;
+      default:
+        if (IGNORED_WITH_VALUE.has(option)) takeValue();
+        else if (!option.startsWith('-') && url === undefined) url = option;
+    }
+  }
+
+  if (!url) throw new Error('No URL found in the command');
+  if (!/^[a-z][a-z\d+.-]*:\/\//i.test(url)) url = `http://${url}`;
+
+  let body = data.length > 0 ? data.join('&') : undefined;
+  if (useGet && body !== undefined) {
+    url += (url.includes('?') ? '&' : '?') + body;
+    body = undefined;
+  }
+
+  return {
+    method: method || (body !== undefined || form.length > 0 ? 'POST' : 'GET'),
+    url,
+    headers,
+    data: body,
+    form,
+  };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches one path template segment such as `{id}` or `report-{year}.csv`
+const segmentPattern = (segment: string) => {
+  const names: string[] = [];
+  const source = segment.split(/(\{[^}]+\})/).map(part => {
+    const name = /^\{([^}]+)\}$/.exec(part)?.[1];
+    if (!name) return escapeRegExp(part);
+    names.push(name);
+    return '([^/]+)';
+  }).join('');
+  return { regex: new RegExp(`^${source}$`), names, literal: names.length === 0 };
+};
+
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Finds the operation of `spec` a request URL and method most likely target.
+ * Paths are matched against the end of the URL's path, so a server prefix
+ * the spec doesn't declare still works. Literal segments count more than
+ * parameters, and an operation with the same method beats one without.
+ */
+export const matchCurlToOperation = (spec: OpenApiDocument, method: string, url: string): CurlMatch | null => {
+  const parsed = new URL(url);
+  const segments = splitPath(parsed.pathname);
+  const wanted = method.toLowerCase();
+  let best: CurlMatch | null = null;
+  let bestScore = -1;
+
+  for (const [template, pathItem] of Object.entries(spec.paths || {})) {
+    const templateSegments = splitPath(template);
+    if (templateSegments.length > segments.length) continue;
+    const tail = segments.slice(segments.length - templateSegments.length);
+
+    const pathParameters: Record<string, string> = {};
+    let score = 0;
+    const matches = templateSegments.every((segment, index) => {
+      const pattern = segmentPattern(segment);
+      const match = pattern.regex.exec(tail[index]);
+      if (!match) return false;
+      pattern.names.forEach((name, position) => { pathParameters[name] = safeDecode(match[position + 1]); });
+      score += pattern.literal ? 2 : 1;
+      return true;
+    });
+    const methods = HTTP_METHODS.filter(candidate => pathItem?.[candidate]);
+    if (!matches || methods.length === 0) continue;
+
+    const sameMethod = methods.includes(wanted as HttpMethod);
+    score += sameMethod ? 100 : 0;
+    if (score <= bestScore) continue;
+
+    const prefix = segments.slice(0, segments.length - templateSegments.length);
+    bestScore = score;
+    best = {
+      path: template,
+      method: sameMethod ? wanted as HttpMethod : methods[0],
+      server: parsed.origin + (prefix.length > 0 ? `/${prefix.join('/')}` : ''),
+      pathParameters,
+    };
+  }
+
+  if (!best) return null;
+  const server = best.server;
+  // Prefer the documented spelling of the server when it is the same URL
+  const documented = getDocumentServers(spec)
+    .map(candidate => expandServerUrl(candidate).replace(/\/$/, ''))
+    .find(candidate => candidate.toLowerCase() === server.toLowerCase());
+  return { ...best, server: documented || server };
+};
+
+const prettyJson = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Turns a pasted `curl` command into a console request for the closest
+ * operation of `spec`. Throws when the command can't be parsed or no
+ * operation matches.
+ */
+export const importCurl = (spec: OpenApiDocument, command: string): { request: RequestSnapshot; curl: ParsedCurl } => {
+  const curl = parseCurl(command);
+  const match = matchCurlToOperation(spec, curl.method, curl.url);
+  if (!match) throw new Error(`No operation in the specification matches ${new URL(curl.url).pathname}`);
+
+  const url = new URL(curl.url);
+  const contentType = curl.headers.find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+  const parameters: RequestSnapshot['parameters'] = [
+    ...Object.entries(match.pathParameters).map(([name, value]) => ({ name, value, type: 'path' as const })),
+    ...[...url.searchParams.entries()].map(([name, value]) => ({ name, value, type: 'query' as const })),
+  ];
+  curl.headers
+    // The console sets Content-Type from the selected media type
+    .filter(([name]) => name.toLowerCase() !== 'content-type')
+    .forEach(([name, value]) => {
+      if (name.toLowerCase() !== 'cookie') {
+        parameters.push({ name, value, type: 'header' });
+        return;
+      }
+      value.split(';').map(item => item.trim()).filter(Boolean).forEach(item => {
+        const separator = item.indexOf('=');
+        if (separator > 0) parameters.push({ name: item.slice(0, separator), value: item.slice(separator + 1), type: 'cookie' });
+      });
+    });
+
+  // curl sends `-d` data as a form unless told otherwise, but pasted JSON rarely comes with its header
+  const looksLikeJson = !!curl.data && /^\s*[[{]/.test(curl.data);
+  const isUrlEncoded = !!curl.data && (contentType ? contentType.startsWith('application/x-www-form-urlencoded') : !looksLikeJson);
+  const formFields = curl.form.length > 0
+    ? curl.form.filter(field => !field.isFile).map(({ name, value }) => ({ name, value }))
+    : isUrlEncoded && curl.data
+      ? [...new URLSearchParams(curl.data).entries()].map(([name, value]) => ({ name, value }))
+      : undefined;
+  const bodyMediaType = curl.form.length > 0
+    ? 'multipart/form-data'
+    : contentType?.split(';')[0].trim() || (curl.data ? (looksLikeJson ? 'application/json' : 'application/x-www-form-urlencoded') : '');
+
+  return {
+    curl,
+    request: {
+      method: match.method,
+      path: match.path,
+      server: match.server,
+      mock: false,
+      parameters,
+      bodyMediaType,
+      body: curl.data ? prettyJson(curl.data) : '',
+      formFields,
+      url: curl.url,
+      headers: Object.fromEntries(curl.headers),
+    },
+  };
+};
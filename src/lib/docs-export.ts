@@ -0,0 +1,75 @@
+import { createRedocOptions, fetchRedocSource } from './redoc-loader';
+import { withGeneratedExamples } from './schema-sample';
+import type { OpenApiDocument } from './openapi-types';
+
+// Formats offered by the spec actions menu; `pdf` goes through the print dialog
+export type DocsFormat = 'html' | 'markdown' | 'pdf';
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A literal `</script` inside inlined code or data would close the element early
+const escapeScriptContent = (source: string) => source.replace(/<\/script/gi, '<\\/script');
+
+/** `petstore-api-docs.html` style file name derived from the spec title. */
+export const getDocsFileName = (spec: OpenApiDocument, extension: string) => {
+  const slug = (spec.info?.title || 'api')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'api'}-docs.${extension}`;
+};
+
+/**
+ * A complete HTML page rendering `spec` with the given Redoc source inlined,
+ * so it opens from disk or any static server without fetching anything.
+ */
+export const buildStandaloneDocs = (spec: OpenApiDocument, redocSource: string, theme: 'light' | 'dark'): string => {
+  const title = [spec.info?.title || 'API Reference', spec.info?.version].filter(Boolean).join(' ');
+  // `<` only appears inside JSON strings, where < reads back as the same character
+  const specJson = JSON.stringify(withGeneratedExamples(spec)).replace(/</g, '\\u003c');
+  const options = JSON.stringify(createRedocOptions(theme));
+  const background = theme === 'light' ? '#FFFFFF' : '#0F172A';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="generator" content="OpenAPI Studio">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { margin: 0; padding: 0; background: ${background}; }
+  </style>
+</head>
+<body>
+  <div id="redoc"></div>
+  <noscript>This documentation needs JavaScript to render.</noscript>
+  <script id="openapi-spec" type="application/json">${specJson}</script>
+  <script>${escapeScriptContent(redocSource)}</script>
+  <script>
+    Redoc.init(
+      JSON.parse(document.getElementById('openapi-spec').textContent),
+      ${options},
+      document.getElementById('redoc')
+    );
+  </script>
+</body>
+</html>
+`;
+};
+
+/** Builds the standalone page with the Redoc bundle the app itself ships. */
+export const exportStandaloneDocs = async (spec: OpenApiDocument, theme: 'light' | 'dark'): Promise<string> =>
+  buildStandaloneDocs(spec, await fetchRedocSource(), theme);
+
+export const downloadDocument = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
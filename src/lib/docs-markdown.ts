@@ -0,0 +1,133 @@
+import { buildDocsModel, type DocsBody, type DocsModel, type DocsOperation, type DocsSchemaRow } from './docs-model';
+import type { OpenApiDocument } from './openapi-types';
+
+// Pipes would split the cell and line breaks would end the row
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>') || ' ';
+
+const table = (headers: string[], rows: string[][]) => [
+  `| ${headers.join(' | ')} |`,
+  `| ${headers.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+].join('\n');
+
+const fence = (code: string, language: string) => {
+  // A longer fence than any backtick run inside keeps the block closed
+  const longest = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${code}\n${marker}`;
+};
+
+const exampleLanguage = (mediaType: string) => {
+  if (/json/i.test(mediaType)) return 'json';
+  if (/xml/i.test(mediaType)) return 'xml';
+  return '';
+};
+
+const schemaTable = (rows: DocsSchemaRow[]) =>
+  table(['Property', 'Type', 'Required', 'Description'], rows.map(row => [
+    `\`${row.name}\``,
+    row.type,
+    row.required ? 'Yes' : 'No',
+    row.description,
+  ]));
+
+const renderBody = (body: DocsBody, heading: string) => {
+  const parts = [`${heading} \`${body.mediaType}\``, '', `Schema: \`${body.type}\``];
+  if (body.rows.length > 0) parts.push('', schemaTable(body.rows));
+  if (body.example) parts.push('', 'Example:', '', fence(body.example, exampleLanguage(body.mediaType)));
+  return parts.join('\n');
+};
+
+const renderOperation = (operation: DocsOperation) => {
+  const parts = [
+    `<a id="${operation.anchor}"></a>`,
+    '',
+    `### ${operation.method} ${operation.path}${operation.deprecated ? ' (deprecated)' : ''}`,
+  ];
+  if (operation.summary) parts.push('', `**${operation.summary}**`);
+  if (operation.description) parts.push('', operation.description);
+  if (operation.operationId) parts.push('', `Operation ID: \`${operation.operationId}\``);
+
+  if (operation.parameters.length > 0) {
+    parts.push('', '#### Parameters', '', table(
+      ['Name', 'In', 'Type', 'Required', 'Description'],
+      operation.parameters.map(parameter => [
+        `\`${parameter.name}\``,
+        parameter.in,
+        parameter.type,
+        parameter.required ? 'Yes' : 'No',
+        parameter.description,
+      ])
+    ));
+  }
+
+  if (operation.requestBody) {
+    parts.push('', '#### Request body', '');
+    if (operation.requestBody.description) parts.push(operation.requestBody.description, '');
+    parts.push(operation.requestBody.required ? 'Required.' : 'Optional.');
+    operation.requestBody.bodies.forEach(body => parts.push('', renderBody(body, '#####')));
+  }
+
+  if (operation.responses.length > 0) {
+    parts.push('', '#### Responses', '', table(
+      ['Status', 'Description', 'Content'],
+      operation.responses.map(response => [
+        response.status,
+        response.description,
+        response.bodies.map(body => `\`${body.mediaType}\``).join(', '),
+      ])
+    ));
+    operation.responses.forEach(response => {
+      response.bodies.forEach(body => parts.push('', renderBody(body, `##### ${response.status}`)));
+    });
+  }
+  return parts.join('\n');
+};
+
+/** Renders the docs model as GitHub-flavored Markdown with a linked table of contents. */
+export const renderDocsMarkdown = (model: DocsModel): string => {
+  const parts = [`# ${model.title}`];
+  if (model.version) parts.push('', `Version: ${model.version}`);
+  if (model.description) parts.push('', model.description);
+  if (model.servers.length > 0) {
+    parts.push('', '## Servers', '', ...model.servers.map(url => `- \`${url}\``));
+  }
+
+  parts.push('', '## Contents', '');
+  model.sections.forEach(section => {
+    parts.push(`- [${section.name}](#${section.anchor})`);
+    section.operations.forEach(operation => {
+      parts.push(`  - [${operation.method} ${operation.path}](#${operation.anchor})`);
+    });
+  });
+  if (model.schemas.length > 0) parts.push('- [Schemas](#schemas)');
+
+  parts.push('', '## Operations', '', table(
+    ['Method', 'Path', 'Summary', 'Tag'],
+    model.sections.flatMap(section => section.operations.map(operation => [
+      operation.method,
+      `[\`${operation.path}\`](#${operation.anchor})`,
+      operation.summary,
+      section.name,
+    ]))
+  ));
+
+  model.sections.forEach(section => {
+    parts.push('', `<a id="${section.anchor}"></a>`, '', `## ${section.name}`);
+    if (section.description) parts.push('', section.description);
+    section.operations.forEach(operation => parts.push('', renderOperation(operation)));
+  });
+
+  if (model.schemas.length > 0) {
+    parts.push('', '<a id="schemas"></a>', '', '## Schemas');
+    model.schemas.forEach(schema => {
+      parts.push('', `<a id="${schema.anchor}"></a>`, '', `### ${schema.name}`, '', `Type: \`${schema.type}\``);
+      if (schema.description) parts.push('', schema.description);
+      if (schema.rows.length > 0) parts.push('', schemaTable(schema.rows));
+    });
+  }
+
+  return `${parts.join('\n')}\n`;
+};
+
+export const exportDocsMarkdown = (spec: OpenApiDocument): string => renderDocsMarkdown(buildDocsModel(spec));
@@ -0,0 +1,282 @@
+import { formatBodyText, getBodyKind, getRequestBodyMediaTypes } from './request-body';
+import { getDocumentedExample, sampleFromSchema, type SampleContext } from './schema-sample';
+import { getDocumentServers } from './server-urls';
+import {
+  getOperationParameters,
+  getParameterSchema,
+  isReference,
+  listOperations,
+  parsePointer,
+  tryResolveRef,
+} from './spec-model';
+import type {
+  MediaTypeObject,
+  OpenApiDocument,
+  ParameterObject,
+  RequestBodyObject,
+  ResponseObject,
+  SchemaObject,
+} from './openapi-types';
+
+export interface DocsSchemaRow {
+  // Dotted path of nested properties, e.g. `items[].price`
+  name: string;
+  type: string;
+  required: boolean;
+  description: string;
+}
+
+export interface DocsBody {
+  mediaType: string;
+  type: string;
+  rows: DocsSchemaRow[];
+  example?: string;
+}
+
+export interface DocsParameter {
+  name: string;
+  in: string;
+  type: string;
+  required: boolean;
+  description: string;
+}
+
+export interface DocsResponse {
+  status: string;
+  description: string;
+  bodies: DocsBody[];
+}
+
+export interface DocsOperation {
+  // Anchor for links from the table of contents
+  anchor: string;
+  method: string;
+  path: string;
+  summary: string;
+  description: string;
+  operationId?: string;
+  deprecated: boolean;
+  parameters: DocsParameter[];
+  requestBody?: { description: string; required: boolean; bodies: DocsBody[] };
+  responses: DocsResponse[];
+}
+
+export interface DocsTagSection {
+  anchor: string;
+  name: string;
+  description: string;
+  operations: DocsOperation[];
+}
+
+export interface DocsSchema {
+  anchor: string;
+  name: string;
+  type: string;
+  description: string;
+  rows: DocsSchemaRow[];
+}
+
+/** Everything the Markdown and print renderers show, in document order. */
+export interface DocsModel {
+  title: string;
+  version: string;
+  description: string;
+  servers: string[];
+  sections: DocsTagSection[];
+  schemas: DocsSchema[];
+}
+
+// Nested inline objects are expanded this deep; named schemas are listed separately
+const MAX_ROW_DEPTH = 3;
+
+const UNTAGGED = 'Other operations';
+
+export const toAnchor = (...parts: string[]) =>
+  parts.join('-').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const refName = (schema: unknown) => (isReference(schema) ? parsePointer(schema.$ref).pop() : undefined);
+
+const formatValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const describeType = (schema: SchemaObject | undefined): string => {
+  if (!schema) return 'any';
+  const name = refName(schema);
+  if (name) return name;
+  if (schema.oneOf) return `oneOf: ${schema.oneOf.map(describeType).join(' | ')}`;
+  if (schema.anyOf) return `anyOf: ${schema.anyOf.map(describeType).join(' | ')}`;
+  if (schema.allOf) return schema.allOf.map(describeType).join(' & ');
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type || (schema.properties ? 'object' : 'any')];
+  const described = types.map(type => {
+    if (type === 'array') return `array<${describeType(schema.items)}>`;
+    return schema.format && type !== 'null' ? `${type} (${schema.format})` : type;
+  }).join(' | ');
+  return schema.nullable ? `${described} | null` : described;
+};
+
+const describeSchema = (schema: SchemaObject | undefined): string => {
+  if (!schema) return '';
+  const notes: string[] = [];
+  if (schema.description) notes.push(schema.description);
+  if (schema.enum) notes.push(`Allowed: ${schema.enum.map(formatValue).join(', ')}`);
+  if (schema.default !== undefined) notes.push(`Default: ${formatValue(schema.default)}`);
+  if (schema.pattern) notes.push(`Pattern: ${schema.pattern}`);
+  if (schema.readOnly) notes.push('Read-only');
+  if (schema.writeOnly) notes.push('Write-only');
+  if (schema.deprecated) notes.push('Deprecated');
+  return notes.join('. ');
+};
+
+// Properties of an object schema, including those merged in through `allOf`
+const collectProperties = (root: OpenApiDocument, schema: SchemaObject | undefined, seen: SchemaObject[] = []) => {
+  const resolved = tryResolveRef<SchemaObject>(root, schema);
+  const result = { properties: {} as Record<string, SchemaObject>, required: [] as string[] };
+  if (!resolved || seen.includes(resolved)) return result;
+  (resolved.allOf || []).forEach(part => {
+    const nested = collectProperties(root, part, [...seen, resolved]);
+    Object.assign(result.properties, nested.properties);
+    result.required.push(...nested.required);
+  });
+  Object.assign(result.properties, resolved.properties || {});
+  result.required.push(...(resolved.required || []));
+  return result;
+};
+
+const schemaRows = (root: OpenApiDocument, schema: SchemaObject | undefined, prefix = '', depth = 0): DocsSchemaRow[] => {
+  const { properties, required } = collectProperties(root, schema);
+  return Object.entries(properties).flatMap(([name, property]) => {
+    const row: DocsSchemaRow = {
+      name: `${prefix}${name}`,
+      type: describeType(property),
+      required: required.includes(name),
+      description: describeSchema(tryResolveRef<SchemaObject>(root, property)),
+    };
+    if (depth + 1 >= MAX_ROW_DEPTH || refName(property)) return [row];
+    if (property.properties || property.allOf) return [row, ...schemaRows(root, property, `${row.name}.`, depth + 1)];
+    if (property.items && !refName(property.items) && (property.items.properties || property.items.allOf)) {
+      return [row, ...schemaRows(root, property.items, `${row.name}[].`, depth + 1)];
+    }
+    return [row];
+  });
+};
+
+const describeBody = (root: OpenApiDocument, mediaType: string, media: MediaTypeObject, context: SampleContext): DocsBody => {
+  const kind = getBodyKind(mediaType);
+  const schema = media.schema;
+  const value = getDocumentedExample(root, media) ?? (schema ? sampleFromSchema(schema, { root, context }) : undefined);
+  return {
+    mediaType,
+    type: describeType(schema),
+    rows: schemaRows(root, schema),
+    example: value === undefined || kind === 'binary' ? undefined : formatBodyText(kind, value, tryResolveRef<SchemaObject>(root, schema)),
+  };
+};
+
+// Swagger 2.0 responses carry one schema for every type in `produces`
+const responseMedia = (response: ResponseObject, produces: string[]): Record<string, MediaTypeObject> => {
+  if (response.content) return response.content;
+  if (!response.schema) return {};
+  const example = response.examples ? Object.values(response.examples)[0] : undefined;
+  return Object.fromEntries((produces.length > 0 ? produces : ['application/json'])
+    .map(mediaType => [mediaType, { schema: response.schema, example }]));
+};
+
+/**
+ * Tag sections in the order of the document's `tags`, then tags only used
+ * by operations in order of first use; untagged operations come last.
+ */
+const orderTags = (spec: OpenApiDocument, usedTags: string[]) => {
+  const declared = (spec.tags || []).map(tag => tag.name);
+  return [...declared, ...usedTags.filter(tag => !declared.includes(tag))];
+};
+
+export const buildDocsModel = (spec: OpenApiDocument): DocsModel => {
+  const operations = listOperations(spec);
+  const usedTags = [...new Set(operations.flatMap(({ operation }) => operation.tags || []))];
+
+  const describeOperation = (tag: string, entry: typeof operations[number]): DocsOperation => {
+    const { path, method, operation } = entry;
+    const parameters = getOperationParameters(spec, entry)
+      .filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData')
+      .map(parameter => {
+        const schema = getParameterSchema(parameter);
+        return {
+          name: parameter.name,
+          in: parameter.in,
+          type: describeType(schema),
+          required: !!parameter.required,
+          description: [parameter.description, describeSchema(tryResolveRef<SchemaObject>(spec, schema))].filter(Boolean).join('. '),
+        };
+      });
+
+    const requestBody = tryResolveRef<RequestBodyObject>(spec, operation.requestBody);
+    const bodies = getRequestBodyMediaTypes(spec, operation).map(({ mediaType, media }) => describeBody(spec, mediaType, media, 'request'));
+    const bodyParameter = (operation.parameters || []).map(parameter => tryResolveRef<ParameterObject>(spec, parameter)).find(parameter => parameter?.in === 'body');
+    const produces = operation.produces || (spec.produces as string[] | undefined) || [];
+
+    return {
+      anchor: toAnchor(tag, method, path),
+      method: method.toUpperCase(),
+      path,
+      summary: operation.summary || '',
+      description: operation.description || '',
+      operationId: operation.operationId,
+      deprecated: !!operation.deprecated,
+      parameters,
+      requestBody: bodies.length > 0
+        ? {
+            description: requestBody?.description || bodyParameter?.description || '',
+            required: !!(requestBody?.required ?? bodyParameter?.required),
+            bodies,
+          }
+        : undefined,
+      responses: Object.entries(operation.responses || {}).map(([status, raw]) => {
+        const response = tryResolveRef<ResponseObject>(spec, raw) || {};
+        return {
+          status,
+          description: response.description || '',
+          bodies: Object.entries(responseMedia(response, produces))
+            .map(([mediaType, media]) => describeBody(spec, mediaType, media, 'response')),
+        };
+      }),
+    };
+  };
+
+  const sections: DocsTagSection[] = orderTags(spec, usedTags)
+    .map(name => ({
+      anchor: toAnchor('tag', name),
+      name,
+      description: spec.tags?.find(tag => tag.name === name)?.description || '',
+      operations: operations
+        .filter(({ operation }) => operation.tags?.includes(name))
+        .map(entry => describeOperation(name, entry)),
+    }))
+    .filter(section => section.operations.length > 0);
+
+  const untagged = operations.filter(({ operation }) => !operation.tags?.length);
+  if (untagged.length > 0) {
+    sections.push({
+      anchor: toAnchor('tag', UNTAGGED),
+      name: UNTAGGED,
+      description: '',
+      operations: untagged.map(entry => describeOperation(UNTAGGED, entry)),
+    });
+  }
+
+  const schemas = (spec.swagger ? spec.definitions as Record<string, SchemaObject> | undefined : spec.components?.schemas) || {};
+
+  return {
+    title: spec.info?.title || 'API Reference',
+    version: spec.info?.version || '',
+    description: spec.info?.description || '',
+    servers: getDocumentServers(spec).map(server => server.url),
+    sections,
+    schemas: Object.entries(schemas).map(([name, schema]) => ({
+      anchor: toAnchor('schema', name),
+      name,
+      type: describeType(schema),
+      description: describeSchema(schema),
+      rows: schemaRows(spec, schema),
+    })),
+  };
+};
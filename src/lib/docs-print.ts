@@ -0,0 +1,213 @@
+import { buildDocsModel, type DocsBody, type DocsModel, type DocsOperation, type DocsSchemaRow } from './docs-model';
+import { escapeHtml } from './docs-export';
+import type { OpenApiDocument } from './openapi-types';
+
+const SAFE_LINK = /^(https?:|mailto:|#)/i;
+
+// Inline Markdown the specs commonly use: code spans, bold and links
+const renderInline = (text: string) =>
+  escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, href: string) =>
+      SAFE_LINK.test(href) ? `<a href="${href}">${label}</a>` : match);
+
+/**
+ * Paragraphs and bullet lists from a Markdown description. Anything richer is
+ * shown as text; raw HTML in the spec is escaped rather than rendered.
+ */
+const renderDescription = (text: string) => {
+  if (!text.trim()) return '';
+  return text.trim().split(/\n\s*\n/).map(block => {
+    const lines = block.split('\n');
+    if (lines.every(line => /^\s*[-*]\s+/.test(line))) {
+      return `<ul>${lines.map(line => `<li>${renderInline(line.replace(/^\s*[-*]\s+/, ''))}</li>`).join('')}</ul>`;
+    }
+    return `<p>${lines.map(renderInline).join('<br>')}</p>`;
+  }).join('\n');
+};
+
+const renderTable = (headers: string[], rows: string[][]) => `<table>
+<thead><tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr></thead>
+<tbody>${rows.map(row => `<tr>${row.map(value => `<td>${value}</td>`).join('')}</tr>`).join('\n')}</tbody>
+</table>`;
+
+const renderSchemaRows = (rows: DocsSchemaRow[]) => renderTable(
+  ['Property', 'Type', 'Required', 'Description'],
+  rows.map(row => [
+    `<code>${escapeHtml(row.name)}</code>`,
+    escapeHtml(row.type),
+    row.required ? 'Yes' : 'No',
+    renderInline(row.description),
+  ])
+);
+
+const renderBody = (body: DocsBody, label: string) => `<div class="body">
+<h5>${escapeHtml(label)} <code>${escapeHtml(body.mediaType)}</code></h5>
+<p class="muted">Schema: <code>${escapeHtml(body.type)}</code></p>
+${body.rows.length > 0 ? renderSchemaRows(body.rows) : ''}
+${body.example ? `<pre>${escapeHtml(body.example)}</pre>` : ''}
+</div>`;
+
+const renderOperation = (operation: DocsOperation) => {
+  const parts = [
+    `<h3 id="${operation.anchor}"><span class="method method-${operation.method.toLowerCase()}">${operation.method}</span> <code>${escapeHtml(operation.path)}</code>${operation.deprecated ? ' <span class="deprecated">Deprecated</span>' : ''}</h3>`,
+  ];
+  if (operation.summary) parts.push(`<p><strong>${escapeHtml(operation.summary)}</strong></p>`);
+  parts.push(renderDescription(operation.description));
+  if (operation.operationId) parts.push(`<p class="muted">Operation ID: <code>${escapeHtml(operation.operationId)}</code></p>`);
+
+  if (operation.parameters.length > 0) {
+    parts.push('<h4>Parameters</h4>', renderTable(
+      ['Name', 'In', 'Type', 'Required', 'Description'],
+      operation.parameters.map(parameter => [
+        `<code>${escapeHtml(parameter.name)}</code>`,
+        escapeHtml(parameter.in),
+        escapeHtml(parameter.type),
+        parameter.required ? 'Yes' : 'No',
+        renderInline(parameter.description),
+      ])
+    ));
+  }
+
+  if (operation.requestBody) {
+    parts.push(
+      `<h4>Request body <span class="muted">(${operation.requestBody.required ? 'required' : 'optional'})</span></h4>`,
+      renderDescription(operation.requestBody.description),
+      ...operation.requestBody.bodies.map(body => renderBody(body, 'Content'))
+    );
+  }
+
+  if (operation.responses.length > 0) {
+    parts.push('<h4>Responses</h4>', renderTable(
+      ['Status', 'Description'],
+      operation.responses.map(response => [`<code>${escapeHtml(response.status)}</code>`, renderInline(response.description)])
+    ));
+    operation.responses.forEach(response => {
+      parts.push(...response.bodies.map(body => renderBody(body, `Response ${response.status}`)));
+    });
+  }
+
+  return `<section class="operation">\n${parts.filter(Boolean).join('\n')}\n</section>`;
+};
+
+const PRINT_STYLES = `
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 10.5pt/1.5 -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #0f172a; }
+  h1, h2, h3, h4, h5 { line-height: 1.25; break-after: avoid; }
+  h2 { font-size: 18pt; border-bottom: 2px solid #0f172a; padding-bottom: 4pt; }
+  h3 { font-size: 12.5pt; margin-top: 18pt; }
+  h4 { font-size: 11pt; margin: 12pt 0 6pt; }
+  h5 { font-size: 10pt; margin: 10pt 0 4pt; }
+  a { color: #2563eb; text-decoration: none; }
+  code, pre { font-family: 'SFMono-Regular', Menlo, Consolas, monospace; font-size: 9pt; }
+  pre { background: #f1f5f9; border: 1px solid #e2e8f0; padding: 8pt; white-space: pre-wrap; word-break: break-word; }
+  table { width: 100%; border-collapse: collapse; margin: 6pt 0; }
+  th, td { border: 1px solid #cbd5e1; padding: 4pt 6pt; text-align: left; vertical-align: top; word-break: break-word; }
+  th { background: #f1f5f9; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+  .cover { height: 240mm; display: flex; flex-direction: column; justify-content: center; }
+  .cover h1 { font-size: 28pt; margin: 0 0 8pt; }
+  .page { break-before: page; }
+  .toc ol { padding-left: 16pt; }
+  .toc li { margin: 2pt 0; }
+  .muted { color: #64748b; }
+  .method { display: inline-block; min-width: 44pt; padding: 1pt 4pt; border-radius: 3pt; color: #fff; background: #64748b; font-size: 9pt; text-align: center; }
+  .method-get { background: #2563eb; }
+  .method-post { background: #16a34a; }
+  .method-put { background: #d97706; }
+  .method-patch { background: #7c3aed; }
+  .method-delete { background: #dc2626; }
+  .deprecated { font-size: 9pt; color: #dc2626; }
+  .operation { border-top: 1px solid #e2e8f0; }
+  @media screen { body { max-width: 210mm; margin: 0 auto; padding: 16mm; } }
+`;
+
+/**
+ * A print-ready HTML document for saving as PDF: a cover page, a table of
+ * contents, and each tag section plus the schemas starting on a new page.
+ */
+export const renderPrintDocs = (model: DocsModel): string => {
+  const toc = model.sections.map(section => `<li><a href="#${section.anchor}">${escapeHtml(section.name)}</a><ol>${
+    section.operations.map(operation => `<li><a href="#${operation.anchor}">${operation.method} ${escapeHtml(operation.path)}</a>${
+      operation.summary ? ` <span class="muted">— ${escapeHtml(operation.summary)}</span>` : ''
+    }</li>`).join('')
+  }</ol></li>`).join('\n');
+
+  const sections = model.sections.map(section => `<section class="page">
+<h2 id="${section.anchor}">${escapeHtml(section.name)}</h2>
+${renderDescription(section.description)}
+${section.operations.map(renderOperation).join('\n')}
+</section>`).join('\n');
+
+  const schemas = model.schemas.length > 0 ? `<section class="page">
+<h2 id="schemas">Schemas</h2>
+${model.schemas.map(schema => `<section class="operation">
+<h3 id="${schema.anchor}">${escapeHtml(schema.name)}</h3>
+<p class="muted">Type: <code>${escapeHtml(schema.type)}</code></p>
+${renderDescription(schema.description)}
+${schema.rows.length > 0 ? renderSchemaRows(schema.rows) : ''}
+</section>`).join('\n')}
+</section>` : '';
+
+  const title = [model.title, model.version].filter(Boolean).join(' ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="generator" content="OpenAPI Studio">
+  <title>${escapeHtml(title)}</title>
+  <style>${PRINT_STYLES}</style>
+</head>
+<body>
+<section class="cover">
+  <h1>${escapeHtml(model.title)}</h1>
+  ${model.version ? `<p class="muted">Version ${escapeHtml(model.version)}</p>` : ''}
+  ${renderDescription(model.description)}
+  ${model.servers.length > 0 ? `<p class="muted">Servers: ${model.servers.map(url => `<code>${escapeHtml(url)}</code>`).join(', ')}</p>` : ''}
+</section>
+<nav class="toc page">
+  <h2>Contents</h2>
+  <ol>
+${toc}
+${model.schemas.length > 0 ? '<li><a href="#schemas">Schemas</a></li>' : ''}
+  </ol>
+</nav>
+${sections}
+${schemas}
+</body>
+</html>
+`;
+};
+
+export const exportPrintDocs = (spec: OpenApiDocument): string => renderPrintDocs(buildDocsModel(spec));
+
+/**
+ * Opens the browser print dialog for `html` from a hidden frame, where
+ * "Save as PDF" produces the document. Resolves once the dialog closes.
+ */
+export const printDocument = (html: string): Promise<void> => new Promise((resolve, reject) => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;visibility:hidden;';
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) {
+      frame.remove();
+      reject(new Error('The print frame could not be opened'));
+      return;
+    }
+    frameWindow.focus();
+    frameWindow.print();
+    // print() blocks until the dialog closes; removing the frame later keeps Safari from cancelling it
+    setTimeout(() => {
+      frame.remove();
+      resolve();
+    }, 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+});
@@ -0,0 +1,58 @@
+import { ENVIRONMENT_STORE, openDatabase, requestToPromise, transactionDone } from './workspace-store';
+
+export interface EnvironmentVariable {
+  key: string;
+  value: string;
+  // Secret values are masked in the console and never written to IndexedDB.
+  secret: boolean;
+}
+
+export interface Environment {
+  id: string;
+  specId: string;
+  name: string;
+  createdAt: number;
+  variables: EnvironmentVariable[];
+}
+
+export const createEnvironmentId = () => `env-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Environments of a spec, oldest first so the switcher keeps a stable order.
+ */
+export const listEnvironments = async (specId: string): Promise<Environment[]> => {
+  const database = await openDatabase();
+  const index = database.transaction(ENVIRONMENT_STORE, 'readonly').objectStore(ENVIRONMENT_STORE).index('specId');
+  const environments = await requestToPromise<Environment[]>(index.getAll(specId));
+  return environments.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Stores an environment with the values of its secret variables blanked.
+ */
+export const putEnvironment = async (environment: Environment): Promise<void> => {
+  const stored: Environment = {
+    ...environment,
+    variables: environment.variables.map(variable => (variable.secret ? { ...variable, value: '' } : variable)),
+  };
+  const database = await openDatabase();
+  const transaction = database.transaction(ENVIRONMENT_STORE, 'readwrite');
+  transaction.objectStore(ENVIRONMENT_STORE).put(stored);
+  await transactionDone(transaction);
+};
+
+export const deleteEnvironment = async (id: string): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(ENVIRONMENT_STORE, 'readwrite');
+  transaction.objectStore(ENVIRONMENT_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+export const deleteEnvironments = async (specId: string): Promise<void> => {
+  const existing = await listEnvironments(specId);
+  const database = await openDatabase();
+  const transaction = database.transaction(ENVIRONMENT_STORE, 'readwrite');
+  const store = transaction.objectStore(ENVIRONMENT_STORE);
+  existing.forEach(item => store.delete(item.id));
+  await transactionDone(transaction);
+};
@@ -0,0 +1,52 @@
+import type { Environment } from './environment-store';
+
+// `{{name}}`, allowing spaces inside the braces
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export type VariableValues = Record<string, string>;
+
+export const getVariableValues = (environment: Environment | undefined): VariableValues =>
+  Object.fromEntries((environment?.variables || []).filter(variable => variable.key).map(variable => [variable.key, variable.value]));
+
+/**
+ * Replaces `{{name}}` with the variable's value. Unknown variables are left
+ * as written so they can be reported.
+ */
+export const substituteVariables = (text: string, values: VariableValues): string =>
+  text.replace(VARIABLE_PATTERN, (match, name: string) => (name in values ? values[name] : match));
+
+/**
+ * Substitutes variables in every string of a plain value, e.g. the
+ * credentials entered in the Authorize dialog.
+ */
+export const substituteInValue = <T>(value: T, values: VariableValues): T => {
+  if (typeof value === 'string') return substituteVariables(value, values) as T;
+  if (Array.isArray(value)) return value.map(item => substituteInValue(item, values)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substituteInValue(item, values)])) as T;
+  }
+  return value;
+};
+
+/**
+ * Names of the variables used in the texts that have no value.
+ */
+export const findUnresolvedVariables = (texts: string[], values: VariableValues): string[] => {
+  const unresolved = new Set<string>();
+  texts.forEach(text => {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      if (!(match[1] in values)) unresolved.add(match[1]);
+    }
+  });
+  return [...unresolved];
+};
+
+/**
+ * Hides the values of secret variables wherever they appear in `text`.
+ */
+export const maskSecrets = (text: string, secrets: string[], mask = '••••••'): string =>
+  secrets
+    .filter(secret => secret.length > 0)
+    // Longest first, so a secret containing another is masked whole
+    .sort((a, b) => b.length - a.length)
+    .reduce((masked, secret) => masked.split(secret).join(mask), text);
@@ -0,0 +1,264 @@
+import { getDocumentedExample, sampleFromSchema } from './schema-sample';
+import { getOperationParameters, tryResolveRef } from './spec-model';
+import type {
+  HttpMethod,
+  MediaTypeObject,
+  OpenApiDocument,
+  OperationObject,
+  PathItemObject,
+  ResponseObject,
+  SchemaObject,
+} from './openapi-types';
+
+export interface MockRequest {
+  method: string;
+  // Concrete request path, e.g. `/products/42`, without server prefix or query string.
+  path: string;
+  // Decoded query parameters; required ones that are missing get a 400.
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+}
+
+export interface MockResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  duration: number;
+}
+
+export interface MockOptions {
+  // Simulated network latency range in milliseconds.
+  latency?: [number, number];
+}
+
+export interface OperationMatch {
+  pathTemplate: string;
+  method: HttpMethod;
+  operation: OperationObject;
+  pathParams: Record<string, string>;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No Content',
+  301: 'Moved Permanently',
+  302: 'Found',
+  304: 'Not Modified',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+};
+
+const DEFAULT_LATENCY: [number, number] = [80, 400];
+
+export const getStatusText = (status: number) => STATUS_TEXT[status] || '';
+
+// A malformed escape such as `%zz` is kept as typed instead of failing the match.
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matches a concrete path against an OpenAPI path template and returns the
+ * extracted path parameters, or null when the path does not match.
+ */
+export const matchPathTemplate = (template: string, path: string): Record<string, string> | null => {
+  const names: string[] = [];
+  const pattern = template
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      const param = part.match(/^\{([^}]+)\}$/);
+      if (param) {
+        names.push(param[1]);
+        return '([^/]+)';
+      }
+      return escapeRegExp(part);
+    })
+    .join('');
+
+  const match = new RegExp(`^${pattern}/?$`).exec(path);
+  if (!match) return null;
+
+  return names.reduce<Record<string, string>>((params, name, index) => {
+    params[name] = safeDecode(match[index + 1]);
+    return params;
+  }, {});
+};
+
+/**
+ * Finds the operation serving `method path`. Literal templates win over
+ * templated ones, so `/products/featured` beats `/products/{productId}`.
+ */
+export const findOperation = (spec: OpenApiDocument, method: string, path: string): OperationMatch | null => {
+  const normalizedMethod = method.toLowerCase() as HttpMethod;
+  const candidates = Object.keys(spec?.paths || {})
+    .map(template => ({ template, params: matchPathTemplate(template, path) }))
+    .filter(candidate => candidate.params !== null)
+    .sort((a, b) => Object.keys(a.params).length - Object.keys(b.params).length);
+
+  for (const { template, params } of candidates) {
+    const operation = spec.paths[template]?.[normalizedMethod] as OperationObject | undefined;
+    if (operation) {
+      return { pathTemplate: template, method: normalizedMethod, operation, pathParams: params };
+    }
+  }
+  return null;
+};
+
+/**
+ * Parses a `Prefer` header in the style of Prism (`code=404, example=notFound`)
+ * so callers can force a particular documented response.
+ */
+const parsePrefer = (headers: Record<string, string> = {}) => {
+  const header = Object.entries(headers).find(([name]) => name.toLowerCase() === 'prefer')?.[1] || '';
+  const preferences: Record<string, string> = {};
+  header.split(/[,;]/).forEach(part => {
+    const [key, value] = part.split('=').map(s => s?.trim());
+    if (key && value) preferences[key.toLowerCase()] = value;
+  });
+  return preferences;
+};
+
+const pickStatus = (responses: Record<string, ResponseObject>, preferred?: string): string | undefined => {
+  const codes = Object.keys(responses);
+  if (preferred && codes.includes(preferred)) return preferred;
+  const success = codes.filter(code => /^2\d\d$/.test(code)).sort();
+  if (success.length > 0) return success[0];
+  if (codes.includes('2XX')) return '2XX';
+  if (codes.includes('default')) return 'default';
+  return codes[0];
+};
+
+const pickMediaType = (content: Record<string, MediaTypeObject>, accept?: string): string | undefined => {
+  const mediaTypes = Object.keys(content);
+  if (accept) {
+    const accepted = accept.split(',').map(part => part.split(';')[0].trim());
+    const match = mediaTypes.find(type => accepted.includes(type));
+    if (match) return match;
+  }
+  return mediaTypes.find(type => type.includes('json')) || mediaTypes[0];
+};
+
+const pickExample = (spec: OpenApiDocument, media: MediaTypeObject, exampleName?: string): unknown =>
+  getDocumentedExample(spec, media, exampleName) ?? sampleFromSchema(media.schema, { root: spec, context: 'response' });
+
+const serializeBody = (value: unknown, mediaType: string): string => {
+  if (value === undefined) return '';
+  if (typeof value === 'string' && !mediaType.includes('json')) return value;
+  return JSON.stringify(value, null, 2);
+};
+
+const concreteStatus = (code: string): number => {
+  if (code === 'default') return 200;
+  if (/^\dXX$/i.test(code)) return Number(code[0]) * 100;
+  return Number(code);
+};
+
+const errorResponse = (status: number, message: string, duration: number): MockResponse => ({
+  status,
+  statusText: getStatusText(status),
+  headers: { 'content-type': 'application/json', 'x-mock-server': 'apidoc-studio' },
+  body: JSON.stringify({ error: getStatusText(status), message }, null, 2),
+  duration,
+});
+
+const delay = ([min, max]: [number, number]) =>
+  new Promise<void>(resolve => setTimeout(resolve, min + Math.random() * Math.max(0, max - min)));
+
+/**
+ * Serves a request from the spec alone: matches the operation, rejects a
+ * missing required query parameter, picks a documented response (honoring
+ * `example`/`examples`, falling back to a payload generated from the schema)
+ * and waits a simulated network delay.
+ */
+export const mockRequest = async (
+  spec: OpenApiDocument,
+  request: MockRequest,
+  options: MockOptions = {}
+): Promise<MockResponse> => {
+  const startTime = Date.now();
+  await delay(options.latency || DEFAULT_LATENCY);
+  const duration = () => Date.now() - startTime;
+
+  const match = findOperation(spec, request.method, request.path);
+  if (!match) {
+    const pathExists = Object.keys(spec?.paths || {}).some(template => matchPathTemplate(template, request.path));
+    return pathExists
+      ? errorResponse(405, `${request.method.toUpperCase()} is not documented for ${request.path}`, duration())
+      : errorResponse(404, `No documented path matches ${request.path}`, duration());
+  }
+
+  const pathItem = tryResolveRef<PathItemObject>(spec, spec.paths?.[match.pathTemplate]) || {};
+  const missingQuery = getOperationParameters(spec, { path: match.pathTemplate, method: match.method, operation: match.operation, pathItem })
+    .filter(parameter => parameter.in === 'query' && parameter.required && !request.query?.[parameter.name])
+    .map(parameter => parameter.name);
+  if (missingQuery.length > 0) {
+    return errorResponse(400, `Missing required query parameter${missingQuery.length > 1 ? 's' : ''}: ${missingQuery.join(', ')}`, duration());
+  }
+
+  const preferences = parsePrefer(request.headers);
+  const responses = match.operation.responses || {};
+  const statusCode = pickStatus(responses, preferences.code);
+  if (!statusCode) {
+    return errorResponse(501, `${match.method.toUpperCase()} ${match.pathTemplate} documents no responses`, duration());
+  }
+
+  const declared = responses[statusCode];
+  const response = tryResolveRef<ResponseObject>(spec, declared) || {};
+  const status = concreteStatus(statusCode);
+  const headers: Record<string, string> = {
+    'x-mock-server': 'apidoc-studio',
+    date: new Date().toUTCString(),
+  };
+
+  Object.entries(response.headers || {}).forEach(([name, header]) => {
+    // Swagger 2.0 headers describe their type inline instead of through `schema`.
+    const schema: SchemaObject = header.schema || { type: header.type, format: header.format as string, enum: header.enum as unknown[] };
+    const value = header.example ?? sampleFromSchema(schema, { root: spec });
+    if (value !== null && value !== undefined) headers[name.toLowerCase()] = String(value);
+  });
+
+  let body = '';
+  const accept = Object.entries(request.headers || {}).find(([name]) => name.toLowerCase() === 'accept')?.[1];
+  if (response.content && Object.keys(response.content).length > 0) {
+    const mediaType = pickMediaType(response.content, accept);
+    body = serializeBody(pickExample(spec, response.content[mediaType], preferences.example), mediaType);
+    headers['content-type'] = mediaType;
+  } else if (response.schema || response.examples) {
+    // Swagger 2.0 responses keep the schema and per-mime examples on the response itself.
+    const mediaType = pickMediaType(
+      (response.examples as Record<string, MediaTypeObject>) || { 'application/json': {} },
+      accept
+    );
+    const value = response.examples?.[mediaType] ?? sampleFromSchema(response.schema, { root: spec, context: 'response' });
+    body = serializeBody(value, mediaType);
+    headers['content-type'] = mediaType;
+  }
+
+  return {
+    status,
+    statusText: getStatusText(status),
+    headers,
+    body,
+    duration: duration(),
+  };
+};
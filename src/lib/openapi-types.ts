@@ -0,0 +1,222 @@
+// Structural types for the parts of Swagger 2.0 / OpenAPI 3.x documents the
+// studio works with. They are intentionally loose: specs come from users and
+// may be incomplete, so every field is optional and unknown keys are allowed.
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace'] as const;
+
+export type HttpMethod = typeof HTTP_METHODS[number];
+
+export interface ReferenceObject {
+  $ref: string;
+  [key: string]: unknown;
+}
+
+export interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  example?: unknown;
+  examples?: unknown[];
+  nullable?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  deprecated?: boolean;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  items?: SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  not?: SchemaObject;
+  discriminator?: { propertyName: string; mapping?: Record<string, string> };
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: boolean | number;
+  exclusiveMaximum?: boolean | number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minProperties?: number;
+  maxProperties?: number;
+  [key: string]: unknown;
+}
+
+export interface ExampleObject {
+  summary?: string;
+  description?: string;
+  value?: unknown;
+  externalValue?: string;
+  [key: string]: unknown;
+}
+
+export interface MediaTypeObject {
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, ExampleObject>;
+  encoding?: Record<string, { contentType?: string; [key: string]: unknown }>;
+  [key: string]: unknown;
+}
+
+export interface HeaderObject {
+  description?: string;
+  required?: boolean;
+  schema?: SchemaObject;
+  example?: unknown;
+  type?: string;
+  [key: string]: unknown;
+}
+
+export interface ParameterObject {
+  name: string;
+  in: 'query' | 'header' | 'path' | 'cookie' | 'body' | 'formData';
+  description?: string;
+  required?: boolean;
+  deprecated?: boolean;
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, ExampleObject>;
+  // Swagger 2.0 non-body parameters carry their schema inline.
+  type?: string;
+  format?: string;
+  items?: SchemaObject;
+  enum?: unknown[];
+  default?: unknown;
+  [key: string]: unknown;
+}
+
+export interface RequestBodyObject {
+  description?: string;
+  required?: boolean;
+  content?: Record<string, MediaTypeObject>;
+  [key: string]: unknown;
+}
+
+export interface ResponseObject {
+  description?: string;
+  headers?: Record<string, HeaderObject>;
+  content?: Record<string, MediaTypeObject>;
+  // Swagger 2.0 responses.
+  schema?: SchemaObject;
+  examples?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface ServerVariableObject {
+  enum?: string[];
+  default: string;
+  description?: string;
+}
+
+export interface ServerObject {
+  url: string;
+  description?: string;
+  variables?: Record<string, ServerVariableObject>;
+}
+
+export type SecurityRequirementObject = Record<string, string[]>;
+
+export interface OAuthFlowObject {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes?: Record<string, string>;
+}
+
+export interface SecuritySchemeObject {
+  // `basic` only appears in Swagger 2.0 security definitions.
+  type: 'http' | 'apiKey' | 'oauth2' | 'openIdConnect' | 'mutualTLS' | 'basic';
+  description?: string;
+  scheme?: string;
+  bearerFormat?: string;
+  name?: string;
+  in?: 'header' | 'query' | 'cookie';
+  flows?: {
+    implicit?: OAuthFlowObject;
+    password?: OAuthFlowObject;
+    clientCredentials?: OAuthFlowObject;
+    authorizationCode?: OAuthFlowObject;
+  };
+  openIdConnectUrl?: string;
+  // Swagger 2.0 OAuth2 definitions describe a single flow inline.
+  flow?: 'implicit' | 'password' | 'application' | 'accessCode';
+  tokenUrl?: string;
+  authorizationUrl?: string;
+  scopes?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+export interface OperationObject {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: ParameterObject[];
+  requestBody?: RequestBodyObject;
+  responses?: Record<string, ResponseObject>;
+  security?: SecurityRequirementObject[];
+  servers?: ServerObject[];
+  consumes?: string[];
+  produces?: string[];
+  [key: string]: unknown;
+}
+
+export interface PathItemObject {
+  summary?: string;
+  description?: string;
+  parameters?: ParameterObject[];
+  servers?: ServerObject[];
+  get?: OperationObject;
+  post?: OperationObject;
+  put?: OperationObject;
+  delete?: OperationObject;
+  patch?: OperationObject;
+  head?: OperationObject;
+  options?: OperationObject;
+  trace?: OperationObject;
+  [key: string]: unknown;
+}
+
+export interface TagObject {
+  name: string;
+  description?: string;
+  [key: string]: unknown;
+}
+
+export interface OpenApiDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: {
+    title?: string;
+    version?: string;
+    description?: string;
+    [key: string]: unknown;
+  };
+  servers?: ServerObject[];
+  paths?: Record<string, PathItemObject>;
+  components?: {
+    schemas?: Record<string, SchemaObject>;
+    responses?: Record<string, ResponseObject>;
+    parameters?: Record<string, ParameterObject>;
+    requestBodies?: Record<string, RequestBodyObject>;
+    headers?: Record<string, HeaderObject>;
+    examples?: Record<string, ExampleObject>;
+    securitySchemes?: Record<string, SecuritySchemeObject>;
+    [key: string]: unknown;
+  };
+  // Swagger 2.0 counterpart of `components.securitySchemes`.
+  securityDefinitions?: Record<string, SecuritySchemeObject>;
+  security?: SecurityRequirementObject[];
+  tags?: TagObject[];
+  [key: string]: unknown;
+}
@@ -0,0 +1,134 @@
+import Ajv2020 from 'ajv/dist/2020';
+import AjvDraft04 from 'ajv-draft-04';
+import type AjvCore from 'ajv/dist/core';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import { simplifyErrors, type SpecVersion } from './spec-validation';
+import type { SchemaObject } from './openapi-types';
+import type { SampleContext } from './schema-sample';
+
+export interface PayloadIssue {
+  // Location in the payload, e.g. `$.items[0].quantity`.
+  path: string;
+  message: string;
+}
+
+type Json = Record<string, unknown>;
+
+const ROOT_ID = 'urn:apidoc-studio:spec';
+
+const isObject = (value: unknown): value is Json =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Copies a spec fragment into plain JSON Schema: local refs point into the
+ * registered spec, 2.0/3.0 `nullable` becomes a `null` type, and properties
+ * that are read-only (requests) or write-only (responses) are not required.
+ */
+const prepare = (node: unknown, version: SpecVersion, context: SampleContext): unknown => {
+  if (Array.isArray(node)) return node.map(item => prepare(item, version, context));
+  if (!isObject(node)) return node;
+
+  const result: Json = {};
+  Object.entries(node).forEach(([key, value]) => {
+    if (key === '$ref' && typeof value === 'string' && value.startsWith('#')) result.$ref = ROOT_ID + value;
+    else result[key] = prepare(value, version, context);
+  });
+
+  if (version !== '3.1' && (result.nullable === true || result['x-nullable'] === true)) {
+    if (typeof result.type === 'string') result.type = [result.type, 'null'];
+    if (Array.isArray(result.enum) && !result.enum.includes(null)) result.enum = [...result.enum, null];
+  }
+
+  if (Array.isArray(result.required) && isObject(result.properties)) {
+    const properties = result.properties;
+    const hidden = context === 'request' ? 'readOnly' : 'writeOnly';
+    result.required = result.required.filter(name => !(isObject(properties[name]) && properties[name][hidden] === true));
+  }
+  return result;
+};
+
+interface ValidatorSet {
+  ajv: AjvCore;
+  compiled: WeakMap<object, ValidateFunction>;
+}
+
+// One Ajv instance per spec document, version and direction; compiled schemas are reused
+const validatorSets = new WeakMap<object, Map<string, ValidatorSet>>();
+
+const getValidator = (root: object, schema: SchemaObject, version: SpecVersion, context: SampleContext): ValidateFunction => {
+  if (!validatorSets.has(root)) validatorSets.set(root, new Map());
+  const sets = validatorSets.get(root);
+  const key = `${version}:${context}`;
+
+  if (!sets.has(key)) {
+    const options = { allErrors: true, strict: false, validateSchema: false, validateFormats: false };
+    const ajv = version === '3.1' ? new Ajv2020(options) : new AjvDraft04(options);
+    ajv.addSchema(prepare(root, version, context) as object, ROOT_ID);
+    sets.set(key, { ajv, compiled: new WeakMap() });
+  }
+
+  const set = sets.get(key);
+  if (!set.compiled.has(schema)) {
+    set.compiled.set(schema, set.ajv.compile(prepare(schema, version, context) as object));
+  }
+  return set.compiled.get(schema);
+};
+
+const toPayloadPath = (pointer: string): string =>
+  pointer
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((path, segment) => (/^\d+$/.test(segment) ? `${path}[${segment}]` : `${path}.${segment}`), '$');
+
+const describeError = (error: ErrorObject): PayloadIssue => {
+  const path = toPayloadPath(error.instancePath);
+  switch (error.keyword) {
+    case 'required':
+      return { path: `${path}.${error.params.missingProperty}`, message: 'is required' };
+    case 'additionalProperties':
+      return { path: `${path}.${error.params.additionalProperty}`, message: 'is not allowed' };
+    case 'type':
+      return { path, message: `must be ${[].concat(error.params.type).join(' or ')}` };
+    case 'enum':
+      return { path, message: `must be one of ${error.params.allowedValues.map((value: unknown) => JSON.stringify(value)).join(', ')}` };
+    default:
+      return { path, message: error.message || 'is invalid' };
+  }
+};
+
+/**
+ * Validates a value against a schema from `root` (the spec it belongs to),
+ * using JSON Schema draft 04 semantics for Swagger 2.0 and OpenAPI 3.0 and
+ * 2020-12 for OpenAPI 3.1. Formats are treated as annotations.
+ */
+export const validatePayload = (
+  root: object,
+  schema: SchemaObject,
+  value: unknown,
+  version: SpecVersion,
+  context: SampleContext = 'request'
+): PayloadIssue[] => {
+  const validate = getValidator(root, schema, version, context);
+  if (validate(value)) return [];
+  return simplifyErrors(validate.errors || []).map(describeError);
+};
+
+/**
+ * Parses a JSON request body and validates it. Syntax errors are reported
+ * as a single issue at the root.
+ */
+export const validateJsonPayload = (
+  root: object,
+  schema: SchemaObject,
+  text: string,
+  version: SpecVersion
+): PayloadIssue[] => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return [{ path: '$', message: `Invalid JSON: ${error instanceof Error ? error.message : 'unable to parse'}` }];
+  }
+  return validatePayload(root, schema, value, version, 'request');
+};
@@ -0,0 +1,98 @@
+// Emitted as a hashed asset of the app build, so it is served from the same origin and pinned by the lockfile
+import redocStandaloneUrl from 'redoc/bundles/redoc.standalone.js?url';
+
+export interface RedocGlobal {
+  init: (spec: unknown, options: Record<string, unknown>, element: HTMLElement, callback?: (error?: unknown) => void) => void;
+  version?: string;
+}
+
+declare global {
+  interface Window {
+    Redoc?: RedocGlobal;
+    define?: unknown;
+  }
+}
+
+export { redocStandaloneUrl };
+
+let redocPromise: Promise<RedocGlobal> | null = null;
+let redocSourcePromise: Promise<string> | null = null;
+
+/** Redoc options for the app's light and dark themes, used by the viewer and exported docs alike. */
+export const createRedocOptions = (theme: 'light' | 'dark'): Record<string, unknown> => ({
+  theme: theme === 'light' ? {
+    colors: {
+      primary: { main: '#3B82F6' },
+      text: { primary: '#1F2937' },
+    },
+    sidebar: { backgroundColor: '#F9FAFB', textColor: '#374151' },
+    rightPanel: { backgroundColor: '#FFFFFF', textColor: '#1F2937' },
+  } : {
+    colors: {
+      primary: { main: '#3B82F6' },
+      text: { primary: '#FFFFFF' },
+      background: { primary: '#0F172A' },
+    },
+    sidebar: { backgroundColor: '#1F2937', textColor: '#FFFFFF' },
+    rightPanel: { backgroundColor: '#0F172A', textColor: '#FFFFFF' },
+    typography: {
+      color: '#FFFFFF',
+      headings: { color: '#FFFFFF' },
+    },
+  },
+  scrollYOffset: 0,
+  hideDownloadButton: false,
+  disableSearch: false,
+  expandResponses: '200,201',
+  nativeScrollbars: false,
+  hideNavigation: false,
+  stickyNavbar: true,
+});
+
+/**
+ * Loads the Redoc bundle shipped with the app. The script is added once and
+ * shared by every viewer; no network beyond the app's own origin is needed.
+ */
+export const loadRedoc = (): Promise<RedocGlobal> => {
+  if (window.Redoc) return Promise.resolve(window.Redoc);
+  if (!redocPromise) {
+    redocPromise = new Promise<RedocGlobal>((resolve, reject) => {
+      // The bundle is UMD: with Monaco's AMD loader on the page it would register as a module instead of a global
+      const amdDefine = window.define;
+      window.define = undefined;
+      const restoreDefine = () => {
+        if (window.define === undefined) window.define = amdDefine;
+      };
+
+      const script = document.createElement('script');
+      script.src = redocStandaloneUrl;
+      script.async = true;
+      script.onload = () => {
+        restoreDefine();
+        if (window.Redoc && typeof window.Redoc.init === 'function') resolve(window.Redoc);
+        else reject(new Error('The bundled Redoc script did not define Redoc'));
+      };
+      script.onerror = () => {
+        restoreDefine();
+        script.remove();
+        reject(new Error('Failed to load the bundled Redoc script'));
+      };
+      document.head.appendChild(script);
+    });
+    // Let a later call retry instead of caching the failure.
+    redocPromise.catch(() => { redocPromise = null; });
+  }
+  return redocPromise;
+};
+
+/** Text of the bundled Redoc script, for pages that embed it instead of linking to it. */
+export const fetchRedocSource = (): Promise<string> => {
+  if (!redocSourcePromise) {
+    redocSourcePromise = fetch(redocStandaloneUrl).then(response => {
+      if (!response.ok) throw new Error(`Failed to read the bundled Redoc script (${response.status})`);
+      return response.text();
+    });
+    redocSourcePromise.catch(() => { redocSourcePromise = null; });
+  }
+  return redocSourcePromise;
+};
@@ -0,0 +1,192 @@
+import { sampleFromSchema } from './schema-sample';
+import { getParameterSchema, tryResolveRef } from './spec-model';
+import type {
+  MediaTypeObject,
+  OpenApiDocument,
+  OperationObject,
+  ParameterObject,
+  RequestBodyObject,
+  SchemaObject,
+} from './openapi-types';
+
+export type BodyKind = 'json' | 'form-urlencoded' | 'multipart' | 'binary' | 'xml' | 'text';
+
+export interface BodyMediaType {
+  mediaType: string;
+  kind: BodyKind;
+  media: MediaTypeObject;
+}
+
+export interface FormField {
+  name: string;
+  value: string;
+  files: File[];
+  // Binary parts are picked from disk instead of typed
+  isFile: boolean;
+  // Arrays are sent as repeated parts; typed values are comma-separated
+  multiple: boolean;
+  required: boolean;
+  description?: string;
+  // Rows the user added that the schema does not describe
+  custom?: boolean;
+}
+
+const BINARY_TYPES = ['application/octet-stream', 'application/pdf', 'application/zip'];
+
+export const getBodyKind = (mediaType: string): BodyKind => {
+  const type = mediaType.split(';')[0].trim().toLowerCase();
+  if (type === 'application/json' || type.endsWith('+json')) return 'json';
+  if (type === 'application/x-www-form-urlencoded') return 'form-urlencoded';
+  if (type.startsWith('multipart/')) return 'multipart';
+  if (type.endsWith('/xml') || type.endsWith('+xml')) return 'xml';
+  if (BINARY_TYPES.includes(type) || /^(image|audio|video)\//.test(type)) return 'binary';
+  return 'text';
+};
+
+/**
+ * The media types an operation accepts for its request body. Swagger 2.0
+ * body and formData parameters are described the way OpenAPI 3 would, with
+ * `consumes` as the list of media types.
+ */
+export const getRequestBodyMediaTypes = (
+  spec: OpenApiDocument | null | undefined,
+  operation: OperationObject | undefined
+): BodyMediaType[] => {
+  if (!operation) return [];
+  const toEntries = (mediaTypes: string[], media: MediaTypeObject) =>
+    mediaTypes.map(mediaType => ({ mediaType, kind: getBodyKind(mediaType), media }));
+
+  const requestBody = tryResolveRef<RequestBodyObject>(spec, operation.requestBody);
+  if (requestBody?.content) {
+    return Object.entries(requestBody.content).map(([mediaType, media]) => ({ mediaType, kind: getBodyKind(mediaType), media }));
+  }
+
+  const parameters = (operation.parameters || [])
+    .map(parameter => tryResolveRef<ParameterObject>(spec, parameter))
+    .filter((parameter): parameter is ParameterObject => Boolean(parameter));
+  const consumes = operation.consumes || (spec?.consumes as string[] | undefined) || [];
+
+  const bodyParameter = parameters.find(parameter => parameter.in === 'body');
+  if (bodyParameter) {
+    return toEntries(consumes.length > 0 ? consumes : ['application/json'], { schema: bodyParameter.schema });
+  }
+
+  const formParameters = parameters.filter(parameter => parameter.in === 'formData');
+  if (formParameters.length === 0) return [];
+  const schema: SchemaObject = {
+    type: 'object',
+    properties: Object.fromEntries(formParameters.map(parameter => [
+      parameter.name,
+      parameter.type === 'file'
+        ? { type: 'string', format: 'binary', description: parameter.description }
+        : { ...getParameterSchema(parameter), description: parameter.description },
+    ])),
+    required: formParameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+  };
+  const formTypes = consumes.filter(type => ['multipart', 'form-urlencoded'].includes(getBodyKind(type)));
+  const fallback = formParameters.some(parameter => parameter.type === 'file') ? 'multipart/form-data' : 'application/x-www-form-urlencoded';
+  return toEntries(formTypes.length > 0 ? formTypes : [fallback], { schema });
+};
+
+const isBinarySchema = (schema: SchemaObject | undefined) =>
+  !!schema && (
+    schema.type === 'file'
+    || (schema.type === 'string' && (schema.format === 'binary' || schema.format === 'base64'))
+    || typeof schema.contentMediaType === 'string'
+  );
+
+const collectProperties = (root: unknown, schema: SchemaObject | undefined, seen: SchemaObject[] = []) => {
+  const resolved = tryResolveRef<SchemaObject>(root, schema);
+  const result = { properties: {} as Record<string, SchemaObject>, required: [] as string[] };
+  if (!resolved || seen.includes(resolved)) return result;
+
+  (resolved.allOf || []).forEach(part => {
+    const nested = collectProperties(root, part, [...seen, resolved]);
+    Object.assign(result.properties, nested.properties);
+    result.required.push(...nested.required);
+  });
+  Object.entries(resolved.properties || {}).forEach(([name, property]) => {
+    result.properties[name] = tryResolveRef<SchemaObject>(root, property) || property;
+  });
+  result.required.push(...(resolved.required || []));
+  return result;
+};
+
+const toFormValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(toFormValue).join(',');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * One form row per property of an object schema, prefilled with generated
+ * values. Binary properties (and arrays of them) become file pickers.
+ */
+export const getFormFields = (root: unknown, schema: SchemaObject | undefined): FormField[] => {
+  const { properties, required } = collectProperties(root, schema);
+  return Object.entries(properties)
+    .filter(([, property]) => !property.readOnly)
+    .map(([name, property]) => {
+      const multiple = property.type === 'array';
+      const isFile = isBinarySchema(multiple ? tryResolveRef<SchemaObject>(root, property.items) : property);
+      return {
+        name,
+        value: isFile ? '' : toFormValue(sampleFromSchema(property, { root, context: 'request' })),
+        files: [],
+        isFile,
+        multiple,
+        required: required.includes(name),
+        description: property.description,
+      };
+    });
+};
+
+/**
+ * Encodes form rows for sending. Empty optional rows are left out and
+ * array values are sent as repeated fields.
+ */
+export const encodeFormBody = (kind: 'form-urlencoded' | 'multipart', fields: FormField[]): URLSearchParams | FormData => {
+  const values = (field: FormField) =>
+    field.multiple ? field.value.split(',').map(item => item.trim()).filter(Boolean) : [field.value];
+
+  if (kind === 'form-urlencoded') {
+    const params = new URLSearchParams();
+    fields
+      .filter(field => field.name && field.value !== '')
+      .forEach(field => values(field).forEach(value => params.append(field.name, value)));
+    return params;
+  }
+
+  const formData = new FormData();
+  fields.filter(field => field.name).forEach(field => {
+    if (field.isFile) field.files.forEach(file => formData.append(field.name, file, file.name));
+    else if (field.value !== '') values(field).forEach(value => formData.append(field.name, value));
+  });
+  return formData;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toXmlElement = (value: unknown, name: string, indent: string): string => {
+  if (Array.isArray(value)) return value.map(item => toXmlElement(item, name, indent)).join('\n');
+  if (value && typeof value === 'object') {
+    const children = Object.entries(value).map(([key, child]) => toXmlElement(child, key, `${indent}  `));
+    return `${indent}<${name}>\n${children.join('\n')}\n${indent}</${name}>`;
+  }
+  return `${indent}<${name}>${escapeXml(value === null || value === undefined ? '' : String(value))}</${name}>`;
+};
+
+/**
+ * Renders a generated sample as the text of a JSON, XML or plain-text body.
+ */
+export const formatBodyText = (kind: BodyKind, value: unknown, schema?: SchemaObject): string => {
+  // Documented XML and text examples are already in their final form
+  if (typeof value === 'string' && kind !== 'json') return value;
+  if (kind === 'xml') {
+    const xml = schema?.xml as { name?: string } | undefined;
+    const rootName = xml?.name || schema?.title?.replace(/\W/g, '') || 'root';
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${toXmlElement(value, rootName, '')}`;
+  }
+  return JSON.stringify(value, null, 2);
+};
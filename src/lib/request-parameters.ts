@@ -0,0 +1,173 @@
+import { sampleFromSchema } from './schema-sample';
+import { getOperationParameters, getParameterSchema, type OperationEntry } from './spec-model';
+import type { OpenApiDocument, SchemaObject } from './openapi-types';
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'cookie';
+
+export interface ParameterField {
+  name: string;
+  in: ParameterLocation;
+  required: boolean;
+  description?: string;
+  deprecated?: boolean;
+  schema?: SchemaObject;
+  example?: unknown;
+}
+
+const LOCATIONS: ParameterLocation[] = ['path', 'query', 'header', 'cookie'];
+
+export const getPathPlaceholders = (template: string): string[] =>
+  [...template.matchAll(/\{([^}]+)\}/g)].map(match => match[1]);
+
+/**
+ * Form fields for every path, query, header and cookie parameter of an
+ * operation, path-level parameters included. Path placeholders the spec
+ * forgot to declare still get a required field, so none is left unreplaced.
+ */
+export const getParameterFields = (document: OpenApiDocument | null | undefined, entry: OperationEntry): ParameterField[] => {
+  const declared: ParameterField[] = getOperationParameters(document, entry)
+    .filter(parameter => LOCATIONS.includes(parameter.in as ParameterLocation))
+    .map(parameter => ({
+      name: parameter.name,
+      in: parameter.in as ParameterLocation,
+      required: parameter.in === 'path' || Boolean(parameter.required),
+      description: parameter.description,
+      deprecated: parameter.deprecated,
+      schema: getParameterSchema(parameter),
+      example: parameter.example,
+    }));
+
+  const pathFields = getPathPlaceholders(entry.path).map(name =>
+    declared.find(field => field.in === 'path' && field.name === name) || { name, in: 'path' as const, required: true }
+  );
+  return [...pathFields, ...declared.filter(field => field.in !== 'path')];
+};
+
+const toFieldValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(toFieldValue).join(',');
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * The value a field starts with: its default, or for path parameters an
+ * example or generated sample so the URL is always complete.
+ */
+export const getInitialValue = (field: ParameterField): string => {
+  if (field.schema?.default !== undefined) return toFieldValue(field.schema.default);
+  if (field.in !== 'path') return '';
+  if (field.example !== undefined) return toFieldValue(field.example);
+  return field.schema ? toFieldValue(sampleFromSchema(field.schema)) : '';
+};
+
+const primaryType = (schema: SchemaObject | undefined) =>
+  Array.isArray(schema?.type) ? schema.type.find(type => type !== 'null') : schema?.type;
+
+// Choices for a dropdown, or null when the value is free text.
+export const getValueOptions = (field: ParameterField): string[] | null => {
+  if (Array.isArray(field.schema?.enum) && field.schema.enum.length > 0) return field.schema.enum.map(toFieldValue);
+  if (primaryType(field.schema) === 'boolean') return ['true', 'false'];
+  return null;
+};
+
+const describeBounds = (schema: SchemaObject): string[] => {
+  const hints: string[] = [];
+  const lower = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : schema.minimum;
+  const upper = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : schema.maximum;
+  const lowerExclusive = schema.exclusiveMinimum === true || typeof schema.exclusiveMinimum === 'number';
+  const upperExclusive = schema.exclusiveMaximum === true || typeof schema.exclusiveMaximum === 'number';
+  if (lower !== undefined) hints.push(`${lowerExclusive ? '>' : '≥'} ${lower}`);
+  if (upper !== undefined) hints.push(`${upperExclusive ? '<' : '≤'} ${upper}`);
+  if (schema.minLength !== undefined) hints.push(`min length ${schema.minLength}`);
+  if (schema.maxLength !== undefined) hints.push(`max length ${schema.maxLength}`);
+  if (schema.pattern) hints.push(`pattern ${schema.pattern}`);
+  return hints;
+};
+
+// Short type and constraint hints shown next to a field, e.g. `integer`, `≥ 1`.
+export const describeParameter = (field: ParameterField): string[] => {
+  const schema = field.schema;
+  if (!schema) return [];
+  const type = primaryType(schema);
+  const hints: string[] = [];
+
+  if (type === 'array') {
+    const itemType = primaryType(schema.items);
+    hints.push(`${itemType || 'value'}[] (comma-separated)`);
+    if (schema.minItems !== undefined) hints.push(`min ${schema.minItems} items`);
+    if (schema.maxItems !== undefined) hints.push(`max ${schema.maxItems} items`);
+    if (schema.items) hints.push(...describeBounds(schema.items));
+  } else {
+    if (type) hints.push(schema.format ? `${type} (${schema.format})` : type);
+    hints.push(...describeBounds(schema));
+  }
+  return hints;
+};
+
+const validateScalar = (schema: SchemaObject | undefined, value: string): string | null => {
+  if (!schema) return null;
+  const type = primaryType(schema);
+
+  if (Array.isArray(schema.enum) && schema.enum.length > 0 && !schema.enum.map(toFieldValue).includes(value)) {
+    return `Must be one of ${schema.enum.map(toFieldValue).join(', ')}`;
+  }
+
+  if (type === 'integer' || type === 'number') {
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number)) return `Must be a${type === 'integer' ? 'n integer' : ' number'}`;
+    if (type === 'integer' && !Number.isInteger(number)) return 'Must be an integer';
+    if (typeof schema.exclusiveMinimum === 'number' && number <= schema.exclusiveMinimum) return `Must be greater than ${schema.exclusiveMinimum}`;
+    if (typeof schema.exclusiveMaximum === 'number' && number >= schema.exclusiveMaximum) return `Must be less than ${schema.exclusiveMaximum}`;
+    if (schema.minimum !== undefined) {
+      if (schema.exclusiveMinimum === true ? number <= schema.minimum : number < schema.minimum) {
+        return `Must be ${schema.exclusiveMinimum === true ? 'greater than' : 'at least'} ${schema.minimum}`;
+      }
+    }
+    if (schema.maximum !== undefined) {
+      if (schema.exclusiveMaximum === true ? number >= schema.maximum : number > schema.maximum) {
+        return `Must be ${schema.exclusiveMaximum === true ? 'less than' : 'at most'} ${schema.maximum}`;
+      }
+    }
+    if (schema.multipleOf && number % schema.multipleOf !== 0) return `Must be a multiple of ${schema.multipleOf}`;
+    return null;
+  }
+
+  if (type === 'boolean') {
+    return value === 'true' || value === 'false' ? null : 'Must be true or false';
+  }
+
+  if (schema.minLength !== undefined && value.length < schema.minLength) return `Must be at least ${schema.minLength} characters`;
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) return `Must be at most ${schema.maxLength} characters`;
+  if (schema.pattern) {
+    try {
+      if (!new RegExp(schema.pattern, 'u').test(value)) return `Must match ${schema.pattern}`;
+    } catch {
+      // Patterns JavaScript cannot compile are not checked
+    }
+  }
+  return null;
+};
+
+// Array parameters are edited as comma-separated values.
+export const splitArrayValue = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Checks a form value against the parameter's schema. Returns a short
+ * message, or null when the value can be sent.
+ */
+export const validateParameterValue = (field: ParameterField, value: string): string | null => {
+  if (value === '') return field.required ? 'Required' : null;
+  if (primaryType(field.schema) !== 'array') return validateScalar(field.schema, value);
+
+  const items = splitArrayValue(value);
+  const { minItems, maxItems } = field.schema as SchemaObject;
+  if (minItems !== undefined && items.length < minItems) return `Needs at least ${minItems} items`;
+  if (maxItems !== undefined && items.length > maxItems) return `Allows at most ${maxItems} items`;
+  for (const item of items) {
+    const error = validateScalar(field.schema?.items, item);
+    if (error) return `${item}: ${error}`;
+  }
+  return null;
+};
+
+export const isArrayParameter = (field: ParameterField | undefined) => primaryType(field?.schema) === 'array';
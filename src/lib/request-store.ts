@@ -0,0 +1,125 @@
+import { HISTORY_STORE, openDatabase, requestToPromise, SAVED_REQUEST_STORE, transactionDone } from './workspace-store';
+
+/**
+ * Everything needed to put a request back into the console. Credentials are
+ * not part of it; they are applied again from the Authorize dialog.
+ */
+export interface RequestSnapshot {
+  method: string;
+  // Path template, e.g. `/products/{productId}`.
+  path: string;
+  server: string;
+  mock: boolean;
+  parameters: Array<{ name: string; value: string; type: 'path' | 'query' | 'header' | 'cookie' }>;
+  bodyMediaType: string;
+  body: string;
+  // Form rows without their files, which cannot be stored.
+  formFields?: Array<{ name: string; value: string }>;
+  // As sent, with credential values redacted.
+  url: string;
+  headers: Record<string, string>;
+}
+
+export interface StoredResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  duration: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  specId: string;
+  createdAt: number;
+  request: RequestSnapshot;
+  response: StoredResponse;
+}
+
+export interface SavedRequest {
+  id: string;
+  specId: string;
+  name: string;
+  // Empty for requests outside any folder.
+  folder: string;
+  createdAt: number;
+  request: RequestSnapshot;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Response bodies beyond this many characters are cut before storing.
+const MAX_STORED_BODY = 100_000;
+
+export const createRequestId = () => `req-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const listBySpec = async <T extends { createdAt: number }>(storeName: string, specId: string): Promise<T[]> => {
+  const database = await openDatabase();
+  const index = database.transaction(storeName, 'readonly').objectStore(storeName).index('specId');
+  const items = await requestToPromise<T[]>(index.getAll(specId));
+  return items.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const deleteByIds = async (storeName: string, ids: string[]): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(transaction);
+};
+
+/**
+ * Sent requests of a spec, newest first.
+ */
+export const listHistory = (specId: string) => listBySpec<HistoryEntry>(HISTORY_STORE, specId);
+
+/**
+ * Records a sent request and drops the oldest entries beyond `MAX_HISTORY_ENTRIES`.
+ */
+export const addHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  const existing = await listHistory(entry.specId);
+  const stored: HistoryEntry = {
+    ...entry,
+    response: {
+      ...entry.response,
+      body: entry.response.body.length > MAX_STORED_BODY
+        ? `${entry.response.body.slice(0, MAX_STORED_BODY)}\n… (truncated)`
+        : entry.response.body,
+    },
+  };
+
+  const database = await openDatabase();
+  const transaction = database.transaction(HISTORY_STORE, 'readwrite');
+  const store = transaction.objectStore(HISTORY_STORE);
+  store.put(stored);
+  existing.slice(MAX_HISTORY_ENTRIES - 1).forEach(item => store.delete(item.id));
+  await transactionDone(transaction);
+};
+
+export const deleteHistoryEntry = (id: string) => deleteByIds(HISTORY_STORE, [id]);
+
+export const clearHistory = async (specId: string): Promise<void> => {
+  const existing = await listHistory(specId);
+  await deleteByIds(HISTORY_STORE, existing.map(item => item.id));
+};
+
+/**
+ * Saved requests of a spec, newest first.
+ */
+export const listSavedRequests = (specId: string) => listBySpec<SavedRequest>(SAVED_REQUEST_STORE, specId);
+
+export const putSavedRequest = async (saved: SavedRequest): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(SAVED_REQUEST_STORE, 'readwrite');
+  transaction.objectStore(SAVED_REQUEST_STORE).put(saved);
+  await transactionDone(transaction);
+};
+
+export const deleteSavedRequest = (id: string) => deleteByIds(SAVED_REQUEST_STORE, [id]);
+
+// Removes the history and saved requests of a deleted spec.
+export const deleteRequestData = async (specId: string): Promise<void> => {
+  await clearHistory(specId);
+  const saved = await listSavedRequests(specId);
+  await deleteByIds(SAVED_REQUEST_STORE, saved.map(item => item.id));
+};
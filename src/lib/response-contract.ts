@@ -0,0 +1,127 @@
+import { validatePayload, type PayloadIssue } from './payload-validation';
+import { tryResolveRef } from './spec-model';
+import type { SpecVersion } from './spec-validation';
+import type { OpenApiDocument, OperationObject, ResponseObject, SchemaObject } from './openapi-types';
+
+export type ContractCheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface ContractCheck {
+  name: 'Status code' | 'Content-Type' | 'Body';
+  status: ContractCheckStatus;
+  message: string;
+  issues?: PayloadIssue[];
+}
+
+export interface ContractReport {
+  // Key of the documented response the status matched, e.g. `200`, `4XX` or `default`.
+  matchedResponse: string | null;
+  checks: ContractCheck[];
+  passed: boolean;
+}
+
+export interface ReceivedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const mediaTypeOf = (contentType: string) => contentType.split(';')[0].trim().toLowerCase();
+
+const mediaTypeMatches = (declared: string, actual: string) => {
+  const [declaredType, declaredSubtype] = mediaTypeOf(declared).split('/');
+  const [actualType, actualSubtype] = actual.split('/');
+  return (declaredType === '*' || declaredType === actualType) && (declaredSubtype === '*' || declaredSubtype === actualSubtype);
+};
+
+const isJsonMediaType = (mediaType: string) => mediaType === 'application/json' || mediaType.endsWith('+json');
+
+// Exact status first, then its `NXX` range, then `default`.
+const matchResponseKey = (responses: Record<string, unknown>, status: number): string | null => {
+  const keys = Object.keys(responses);
+  return keys.find(key => key === String(status))
+    || keys.find(key => key.toUpperCase() === `${String(status)[0]}XX`)
+    || (keys.includes('default') ? 'default' : null);
+};
+
+/**
+ * Checks a received response against what the operation documents: the
+ * status code, the Content-Type and the body schema. `spec` is used to
+ * resolve references and pick the JSON Schema dialect.
+ */
+export const checkResponseContract = (
+  spec: OpenApiDocument,
+  operation: OperationObject,
+  response: ReceivedResponse,
+  version: SpecVersion
+): ContractReport => {
+  const checks: ContractCheck[] = [];
+  const responses = operation.responses || {};
+  const matchedResponse = matchResponseKey(responses, response.status);
+  const documented = matchedResponse ? tryResolveRef<ResponseObject>(spec, responses[matchedResponse]) : undefined;
+
+  checks.push(matchedResponse
+    ? {
+        name: 'Status code',
+        status: 'pass',
+        message: matchedResponse === String(response.status)
+          ? `${response.status} is documented`
+          : `${response.status} matches the documented ${matchedResponse} response`,
+      }
+    : {
+        name: 'Status code',
+        status: 'fail',
+        message: `${response.status} is not documented (expected ${Object.keys(responses).join(', ') || 'no responses'})`,
+      });
+
+  if (!documented) {
+    checks.push({ name: 'Content-Type', status: 'skip', message: 'No documented response to compare with' });
+    checks.push({ name: 'Body', status: 'skip', message: 'No documented response to compare with' });
+    return { matchedResponse, checks, passed: false };
+  }
+
+  // Swagger 2.0 responses have a single schema and list media types in `produces`.
+  const content: Record<string, { schema?: SchemaObject }> = documented.content
+    || (documented.schema
+      ? Object.fromEntries((operation.produces || (spec.produces as string[] | undefined) || ['application/json'])
+        .map(mediaType => [mediaType, { schema: documented.schema }]))
+      : {});
+  const declaredTypes = Object.keys(content);
+  const contentTypeHeader = Object.entries(response.headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1] || '';
+  const actualType = mediaTypeOf(contentTypeHeader);
+  const hasBody = response.body.trim() !== '';
+
+  let matchedType: string | undefined;
+  if (declaredTypes.length === 0) {
+    checks.push(hasBody
+      ? { name: 'Content-Type', status: 'fail', message: `The documented response has no body, but ${actualType || 'a body'} was returned` }
+      : { name: 'Content-Type', status: 'pass', message: 'No body, as documented' });
+  } else if (!actualType) {
+    checks.push({ name: 'Content-Type', status: hasBody ? 'fail' : 'skip', message: `No Content-Type header (expected ${declaredTypes.join(', ')})` });
+  } else {
+    matchedType = declaredTypes.find(type => mediaTypeMatches(type, actualType));
+    checks.push(matchedType
+      ? { name: 'Content-Type', status: 'pass', message: `${actualType} is documented` }
+      : { name: 'Content-Type', status: 'fail', message: `${actualType} is not documented (expected ${declaredTypes.join(', ')})` });
+  }
+
+  const schema = matchedType ? content[matchedType]?.schema : undefined;
+  if (!schema) {
+    checks.push({ name: 'Body', status: 'skip', message: 'No schema to validate against' });
+  } else if (!isJsonMediaType(actualType)) {
+    checks.push({ name: 'Body', status: 'skip', message: `Only JSON bodies are validated, got ${actualType}` });
+  } else {
+    let value: unknown;
+    try {
+      value = JSON.parse(response.body);
+    } catch {
+      checks.push({ name: 'Body', status: 'fail', message: 'Body is not valid JSON' });
+      return { matchedResponse, checks, passed: false };
+    }
+    const issues = validatePayload(spec, schema, value, version, 'response');
+    checks.push(issues.length === 0
+      ? { name: 'Body', status: 'pass', message: 'Body matches the schema' }
+      : { name: 'Body', status: 'fail', message: `${issues.length} schema violation${issues.length > 1 ? 's' : ''}`, issues });
+  }
+
+  return { matchedResponse, checks, passed: checks.every(check => check.status !== 'fail') };
+};
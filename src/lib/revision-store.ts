@@ -0,0 +1,56 @@
+import type { SpecFile } from './spec-bundle';
+import { openDatabase, REVISION_STORE, requestToPromise, transactionDone } from './workspace-store';
+
+export type RevisionKind = 'autosave' | 'checkpoint';
+
+export interface SpecRevision {
+  id: string;
+  specId: string;
+  createdAt: number;
+  kind: RevisionKind;
+  // Checkpoint name, or a short note such as "Before restore" for autosaves.
+  label?: string;
+  content: string;
+  files?: SpecFile[];
+}
+
+// Checkpoints are kept forever; only the newest autosaves per spec are.
+export const MAX_AUTOSAVES = 50;
+
+export const createRevisionId = () => `rev-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Revisions of a spec, newest first.
+ */
+export const listRevisions = async (specId: string): Promise<SpecRevision[]> => {
+  const database = await openDatabase();
+  const index = database.transaction(REVISION_STORE, 'readonly').objectStore(REVISION_STORE).index('specId');
+  const revisions = await requestToPromise<SpecRevision[]>(index.getAll(specId));
+  return revisions.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Stores a revision and drops the oldest autosaves beyond `MAX_AUTOSAVES`.
+ */
+export const addRevision = async (revision: SpecRevision): Promise<void> => {
+  const existing = await listRevisions(revision.specId);
+  const staleAutosaves = [revision, ...existing]
+    .filter(item => item.kind === 'autosave')
+    .slice(MAX_AUTOSAVES);
+
+  const database = await openDatabase();
+  const transaction = database.transaction(REVISION_STORE, 'readwrite');
+  const store = transaction.objectStore(REVISION_STORE);
+  store.put(revision);
+  staleAutosaves.forEach(item => store.delete(item.id));
+  await transactionDone(transaction);
+};
+
+export const deleteRevisions = async (specId: string): Promise<void> => {
+  const existing = await listRevisions(specId);
+  const database = await openDatabase();
+  const transaction = database.transaction(REVISION_STORE, 'readwrite');
+  const store = transaction.objectStore(REVISION_STORE);
+  existing.forEach(item => store.delete(item.id));
+  await transactionDone(transaction);
+};
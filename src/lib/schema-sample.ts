@@ -0,0 +1,265 @@
+import type { ExampleObject, MediaTypeObject, OpenApiDocument, RequestBodyObject, ResponseObject, SchemaObject } from './openapi-types';
+import { listOperations, tryResolveRef } from './spec-model';
+
+export type SampleContext = 'request' | 'response';
+
+export interface SampleOptions {
+  // Document used to resolve local `#/...` references.
+  root?: unknown;
+  // Request samples leave out `readOnly` properties, response samples `writeOnly` ones.
+  context?: SampleContext;
+  // Chosen `oneOf`/`anyOf` branch per location, as reported by `findSchemaBranches`.
+  branches?: Record<string, number>;
+}
+
+export interface SchemaBranchPoint {
+  // Location in the generated value, e.g. `$`, `$.payment` or `$.items[]`.
+  location: string;
+  keyword: 'oneOf' | 'anyOf';
+  options: string[];
+  selected: number;
+}
+
+interface SampleState {
+  options: SampleOptions;
+  depth: number;
+  seenRefs: string[];
+  location: string;
+  branchPoints?: SchemaBranchPoint[];
+}
+
+const MAX_DEPTH = 8;
+
+const resolve = (schema: SchemaObject | undefined, root: unknown): SchemaObject | undefined =>
+  schema?.$ref ? tryResolveRef<SchemaObject>(root, schema) : schema;
+
+const primaryType = (schema: SchemaObject) => {
+  if (Array.isArray(schema.type)) return schema.type.find(type => type !== 'null') || 'null';
+  if (schema.type) return schema.type;
+  if (schema.properties || schema.additionalProperties) return 'object';
+  if (schema.items) return 'array';
+  return undefined;
+};
+
+/**
+ * Folds `allOf` parts into one schema so required lists, properties and
+ * constraints from every part apply together.
+ */
+const mergeAllOf = (schema: SchemaObject, root: unknown, seenRefs: string[] = []): SchemaObject => {
+  if (!schema.allOf) return schema;
+  const { allOf, ...base } = schema;
+  return allOf.reduce<SchemaObject>((merged, part) => {
+    if (part.$ref && seenRefs.includes(part.$ref)) return merged;
+    const resolved = resolve(part, root);
+    if (!resolved) return merged;
+    const flat = mergeAllOf(resolved, root, part.$ref ? [...seenRefs, part.$ref] : seenRefs);
+    return {
+      ...merged,
+      ...flat,
+      properties: { ...merged.properties, ...flat.properties },
+      required: [...(merged.required || []), ...(flat.required || [])],
+    };
+  }, base);
+};
+
+const branchLabel = (schema: SchemaObject, root: unknown, index: number): string => {
+  if (schema.$ref) return schema.$ref.split('/').pop() || schema.$ref;
+  const resolved = resolve(schema, root);
+  if (resolved?.title) return resolved.title;
+  const type = resolved && primaryType(resolved);
+  return type ? `Option ${index + 1} (${type})` : `Option ${index + 1}`;
+};
+
+// Discriminator value that selects `branch`: its mapping key, else the schema name.
+const discriminatorValue = (schema: SchemaObject, branch: SchemaObject): string | undefined => {
+  if (!branch.$ref) return undefined;
+  const mapping = Object.entries(schema.discriminator?.mapping || {}).find(([, ref]) => ref === branch.$ref || branch.$ref.endsWith(`/${ref}`));
+  return mapping ? mapping[0] : branch.$ref.split('/').pop();
+};
+
+const sampleString = (schema: SchemaObject): string => {
+  let value: string;
+  switch (schema.format) {
+    case 'email':
+    case 'idn-email': value = 'user@example.com'; break;
+    case 'uuid': value = '123e4567-e89b-12d3-a456-426614174000'; break;
+    case 'date-time': value = new Date().toISOString(); break;
+    case 'date': value = new Date().toISOString().slice(0, 10); break;
+    case 'time': value = new Date().toISOString().slice(11, 19) + 'Z'; break;
+    case 'uri':
+    case 'url': value = 'https://example.com'; break;
+    case 'uri-reference': value = '/resources/1'; break;
+    case 'hostname': value = 'example.com'; break;
+    case 'ipv4': value = '192.168.0.1'; break;
+    case 'ipv6': value = '2001:db8::1'; break;
+    case 'password': value = 'P@ssw0rd!'; break;
+    case 'byte': value = 'U2FtcGxlIGRhdGE='; break;
+    case 'binary': value = '<binary>'; break;
+    default: value = schema.minLength ? 'sample text' : 'string';
+  }
+  if (schema.minLength !== undefined && value.length < schema.minLength) value = value.padEnd(schema.minLength, 'x');
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) value = value.slice(0, schema.maxLength);
+  return value;
+};
+
+const sampleNumber = (schema: SchemaObject, integer: boolean): number => {
+  const step = schema.multipleOf || 1;
+  let value = 1;
+  if (typeof schema.exclusiveMinimum === 'number') value = schema.exclusiveMinimum + step;
+  else if (schema.minimum !== undefined) value = schema.exclusiveMinimum === true ? schema.minimum + step : schema.minimum;
+
+  const upper = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : schema.maximum;
+  const upperExclusive = schema.exclusiveMaximum === true || typeof schema.exclusiveMaximum === 'number';
+  if (upper !== undefined && (upperExclusive ? value >= upper : value > upper)) value = upperExclusive ? upper - step : upper;
+
+  if (schema.multipleOf) value = Math.ceil(value / schema.multipleOf) * schema.multipleOf;
+  return integer ? Math.ceil(value) : value;
+};
+
+const sample = (input: SchemaObject | undefined, state: SampleState): unknown => {
+  const { options, depth, seenRefs } = state;
+  if (!input || depth > MAX_DEPTH) return null;
+
+  if (input.$ref) {
+    // Recursive schemas end where they would repeat
+    if (seenRefs.includes(input.$ref)) return undefined;
+    return sample(tryResolveRef<SchemaObject>(options.root, input), { ...state, seenRefs: [...seenRefs, input.$ref] });
+  }
+
+  if (input.example !== undefined) return input.example;
+  if (Array.isArray(input.examples) && input.examples.length > 0) return input.examples[0];
+  if (input.default !== undefined) return input.default;
+  if (input.const !== undefined) return input.const;
+  if (Array.isArray(input.enum) && input.enum.length > 0) return input.enum.find(value => value !== null) ?? input.enum[0];
+
+  const schema = mergeAllOf(input, options.root, seenRefs);
+  const keyword = schema.oneOf?.length ? 'oneOf' : schema.anyOf?.length ? 'anyOf' : null;
+  if (keyword) {
+    const branches = schema[keyword] as SchemaObject[];
+    const requested = options.branches?.[state.location] ?? 0;
+    const selected = requested < branches.length ? requested : 0;
+    state.branchPoints?.push({
+      location: state.location,
+      keyword,
+      options: branches.map((branch, index) => branchLabel(branch, options.root, index)),
+      selected,
+    });
+
+    const { oneOf: _oneOf, anyOf: _anyOf, ...base } = schema;
+    const branch = branches[selected];
+    const value = sample(
+      Object.keys(base).some(key => key === 'properties' || key === 'type') ? { allOf: [base, branch] } : branch,
+      { ...state, depth: depth + 1 }
+    );
+    const propertyName = schema.discriminator?.propertyName;
+    if (propertyName && value && typeof value === 'object' && !Array.isArray(value)) {
+      const discriminator = discriminatorValue(schema, branch);
+      if (discriminator) return { ...value, [propertyName]: discriminator };
+    }
+    return value;
+  }
+
+  switch (primaryType(schema)) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      Object.entries(schema.properties || {}).forEach(([key, property]) => {
+        const resolved = resolve(property, options.root);
+        if (options.context === 'request' && resolved?.readOnly) return;
+        if (options.context === 'response' && resolved?.writeOnly) return;
+        const value = sample(property, { ...state, depth: depth + 1, location: `${state.location}.${key}` });
+        if (value !== undefined) result[key] = value;
+      });
+      if (schema.additionalProperties && typeof schema.additionalProperties === 'object' && !schema.properties) {
+        const value = sample(schema.additionalProperties, { ...state, depth: depth + 1, location: `${state.location}.*` });
+        if (value !== undefined) result.additionalProp1 = value;
+      }
+      return result;
+    }
+    case 'array': {
+      if (!schema.items || schema.maxItems === 0) return [];
+      const count = Math.max(schema.minItems ?? 1, 1);
+      const item = sample(schema.items, { ...state, depth: depth + 1, location: `${state.location}[]` });
+      if (item === undefined) return [];
+      return Array.from({ length: count }, (_, index) => {
+        // Keep generated items distinct when the schema asks for unique items
+        if (!schema.uniqueItems || index === 0) return item;
+        if (typeof item === 'number') return item + index;
+        if (typeof item === 'string') return item.includes('@') ? item.replace('@', `${index + 1}@`) : `${item}${index + 1}`;
+        return item;
+      });
+    }
+    case 'string':
+      return sampleString(schema);
+    case 'integer':
+      return sampleNumber(schema, true);
+    case 'number':
+      return sampleNumber(schema, false);
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Generates an instance of a schema: documented examples and defaults win,
+ * otherwise a value is built that follows types, formats, constraints and
+ * composition keywords down to any depth.
+ */
+export const sampleFromSchema = (schema: SchemaObject | undefined, options: SampleOptions = {}): unknown =>
+  sample(schema, { options, depth: 0, seenRefs: [], location: '$' }) ?? null;
+
+/**
+ * The `oneOf`/`anyOf` choices met while generating a sample with the given
+ * branch selection, so a UI can offer them for the next sample.
+ */
+export const findSchemaBranches = (schema: SchemaObject | undefined, options: SampleOptions = {}): SchemaBranchPoint[] => {
+  const branchPoints: SchemaBranchPoint[] = [];
+  sample(schema, { options, depth: 0, seenRefs: [], location: '$', branchPoints });
+  return branchPoints;
+};
+
+/**
+ * The example documented on a media type: `example`, else the named (or
+ * first) entry of `examples`. Undefined when none is documented.
+ */
+export const getDocumentedExample = (root: unknown, media: MediaTypeObject | undefined, exampleName?: string): unknown => {
+  if (!media) return undefined;
+  if (media.example !== undefined) return media.example;
+  const examples = media.examples || {};
+  const key = exampleName && examples[exampleName] ? exampleName : Object.keys(examples)[0];
+  if (!key) return undefined;
+  const example = tryResolveRef<ExampleObject>(root, examples[key]);
+  return example && typeof example === 'object' && 'value' in example ? example.value : undefined;
+};
+
+const addMediaExamples = (root: OpenApiDocument, content: Record<string, MediaTypeObject> | undefined, context: SampleContext) => {
+  Object.values(content || {}).forEach(media => {
+    if (!media?.schema || media.example !== undefined || media.examples) return;
+    media.example = sampleFromSchema(media.schema, { root, context });
+  });
+};
+
+/**
+ * Copy of the spec where request and response bodies without examples get
+ * generated ones, so documentation shows the payloads the mock server and
+ * the console produce.
+ */
+export const withGeneratedExamples = (spec: OpenApiDocument): OpenApiDocument => {
+  const copy = structuredClone(spec);
+  listOperations(copy).forEach(({ operation }) => {
+    const requestBody = tryResolveRef<RequestBodyObject>(copy, operation.requestBody);
+    addMediaExamples(copy, requestBody?.content, 'request');
+
+    Object.values(operation.responses || {}).forEach(declared => {
+      const response = tryResolveRef<ResponseObject>(copy, declared);
+      if (!response) return;
+      addMediaExamples(copy, response.content, 'response');
+      // Swagger 2.0 responses keep per-mime examples next to the schema
+      if (response.schema && !response.examples) {
+        response.examples = { 'application/json': sampleFromSchema(response.schema, { root: copy, context: 'response' }) };
+      }
+    });
+  });
+  return copy;
+};
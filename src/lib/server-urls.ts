@@ -0,0 +1,61 @@
+import type { OpenApiDocument, OperationObject, PathItemObject, ServerObject } from './openapi-types';
+
+export type ServerLevel = 'operation' | 'path' | 'document';
+
+export interface ServerOptions {
+  servers: ServerObject[];
+  // Where the servers are declared; operation and path servers override the document's
+  level: ServerLevel;
+}
+
+const SERVER_VARIABLE_PATTERN = /\{([^{}]+)\}/g;
+
+/**
+ * Document-level servers. Swagger 2.0 specs describe theirs through `host`,
+ * `basePath` and `schemes`.
+ */
+export const getDocumentServers = (spec: OpenApiDocument | null | undefined): ServerObject[] => {
+  if (!spec) return [];
+  if (spec.servers && spec.servers.length > 0) return spec.servers;
+  if (typeof spec.swagger !== 'string' || typeof spec.host !== 'string') return [];
+  const basePath = typeof spec.basePath === 'string' ? spec.basePath : '';
+  const schemes = Array.isArray(spec.schemes) && spec.schemes.length > 0 ? spec.schemes as string[] : ['https'];
+  return schemes.map(scheme => ({ url: `${scheme}://${spec.host}${basePath}` }));
+};
+
+/**
+ * The servers that apply to an operation: its own `servers`, else those of
+ * its path item, else the document's.
+ */
+export const getServerOptions = (
+  spec: OpenApiDocument | null | undefined,
+  pathItem?: PathItemObject,
+  operation?: OperationObject
+): ServerOptions => {
+  if (operation?.servers && operation.servers.length > 0) return { servers: operation.servers, level: 'operation' };
+  if (pathItem?.servers && pathItem.servers.length > 0) return { servers: pathItem.servers, level: 'path' };
+  return { servers: getDocumentServers(spec), level: 'document' };
+};
+
+/**
+ * Names of the `{variables}` in a server URL, in order of appearance.
+ */
+export const getServerVariableNames = (url: string): string[] =>
+  [...new Set([...url.matchAll(SERVER_VARIABLE_PATTERN)].map(match => match[1]))];
+
+/**
+ * Starting values for a server's variables. Placeholders without a declared
+ * variable start empty.
+ */
+export const getDefaultServerVariables = (server: ServerObject): Record<string, string> =>
+  Object.fromEntries(getServerVariableNames(server.url).map(name => [name, server.variables?.[name]?.default ?? '']));
+
+/**
+ * The server URL with its variables filled in; missing values fall back to
+ * the declared defaults.
+ */
+export const expandServerUrl = (server: ServerObject, values: Record<string, string> = {}): string =>
+  server.url.replace(SERVER_VARIABLE_PATTERN, (match, name: string) => {
+    const value = values[name] ?? server.variables?.[name]?.default;
+    return value === undefined ? match : value;
+  });
@@ -0,0 +1,294 @@
+import * as yaml from 'js-yaml';
+import type { OpenApiDocument } from './openapi-types';
+import { resolvePointer, toPointer, unescapePointerSegment } from './spec-model';
+
+export interface SpecFile {
+  // Workspace-relative path using forward slashes, e.g. `schemas/product.yaml`.
+  path: string;
+  content: string;
+}
+
+export interface BundleIssue {
+  file: string;
+  ref?: string;
+  message: string;
+}
+
+export interface BundleResult {
+  document: OpenApiDocument | null;
+  rootFile: string;
+  errors: BundleIssue[];
+}
+
+type ComponentSection = 'schemas' | 'parameters' | 'responses' | 'requestBodies' | 'headers' | 'examples';
+
+export const SPEC_FILE_PATTERN = /\.(ya?ml|json)$/i;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const parseSpecContent = (content: string): unknown => {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return yaml.load(content);
+  }
+};
+
+export const normalizePath = (path: string): string => {
+  const segments: string[] = [];
+  path.replace(/\\/g, '/').split('/').forEach(segment => {
+    if (segment === '' || segment === '.') return;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  });
+  return segments.join('/');
+};
+
+const dirname = (path: string) => path.split('/').slice(0, -1).join('/');
+
+export const basename = (path: string) => path.split('/').pop() || path;
+
+export const resolveRelativePath = (fromFile: string, relative: string) =>
+  normalizePath(`${dirname(fromFile)}/${relative}`);
+
+/**
+ * Strips the directory shared by every file, so a folder upload of
+ * `my-api/openapi.yaml` and `my-api/schemas/a.yaml` becomes
+ * `openapi.yaml` and `schemas/a.yaml`.
+ */
+export const stripCommonDirectory = (files: SpecFile[]): SpecFile[] => {
+  const normalized = files.map(file => ({ ...file, path: normalizePath(file.path) }));
+  const directories = normalized.map(file => dirname(file.path).split('/').filter(Boolean));
+  let shared = 0;
+  while (
+    directories.length > 0 &&
+    directories.every(parts => parts.length > shared && parts[shared] === directories[0][shared])
+  ) {
+    shared++;
+  }
+  return normalized.map(file => ({ ...file, path: file.path.split('/').slice(shared).join('/') }));
+};
+
+/**
+ * Picks the entry document: a file declaring `openapi` or `swagger`,
+ * preferring conventional names and then the shallowest path.
+ */
+export const findRootFile = (files: SpecFile[]): string | undefined => {
+  const candidates = files.filter(file => {
+    try {
+      const parsed = parseSpecContent(file.content);
+      return isObject(parsed) && (!!parsed.openapi || !!parsed.swagger);
+    } catch {
+      return false;
+    }
+  });
+
+  const rank = (file: SpecFile) => [
+    /^(openapi|swagger)\.(ya?ml|json)$/i.test(basename(file.path)) ? 0 : 1,
+    file.path.split('/').length,
+  ];
+
+  return candidates
+    .sort((a, b) => {
+      const [nameA, depthA] = rank(a);
+      const [nameB, depthB] = rank(b);
+      return nameA - nameB || depthA - depthB || a.path.localeCompare(b.path);
+    })[0]?.path;
+};
+
+// A stray `%` in a ref being typed would make the URI decoders throw; the raw text is kept instead.
+const safeDecode = (value: string, decode: (text: string) => string = decodeURIComponent) => {
+  try {
+    return decode(value);
+  } catch {
+    return value;
+  }
+};
+
+const parseFragment = (fragment: string): string[] =>
+  fragment.split('/').filter(Boolean).map(segment => unescapePointerSegment(safeDecode(segment)));
+
+// Infers which component section a `$ref` at `location` points into, so shared
+// external definitions are hoisted under a name instead of being copied inline.
+const inferSection = (location: string[]): ComponentSection | null => {
+  const last = location[location.length - 1];
+  const parent = location[location.length - 2];
+
+  if (parent === 'properties' || parent === 'patternProperties') return 'schemas';
+  if (['schema', 'items', 'additionalProperties', 'not'].includes(last)) return 'schemas';
+  if (['allOf', 'oneOf', 'anyOf'].includes(parent)) return 'schemas';
+  if (parent === 'definitions' || parent === 'schemas') return 'schemas';
+  if (parent === 'parameters') return 'parameters';
+  if (parent === 'responses') return 'responses';
+  if (last === 'requestBody' || parent === 'requestBodies') return 'requestBodies';
+  if (parent === 'headers') return 'headers';
+  if (parent === 'examples') return 'examples';
+  return null;
+};
+
+const sectionPath = (section: ComponentSection, swagger2: boolean): string[] | null => {
+  if (!swagger2) return ['components', section];
+  if (section === 'schemas') return ['definitions'];
+  if (section === 'parameters' || section === 'responses') return [section];
+  return null;
+};
+
+/**
+ * Combines a multi-file spec into a single document. References into other
+ * files are resolved relative to the referencing file; shared definitions are
+ * hoisted into the root's components, everything else is inlined.
+ */
+export const bundleSpec = (files: SpecFile[], rootFile = findRootFile(files)): BundleResult => {
+  const errors: BundleIssue[] = [];
+  const parsed = new Map<string, unknown>();
+
+  files.forEach(file => {
+    try {
+      parsed.set(file.path, parseSpecContent(file.content));
+    } catch (error) {
+      errors.push({ file: file.path, message: error instanceof Error ? error.message : 'Invalid YAML or JSON' });
+    }
+  });
+
+  const root = rootFile ? parsed.get(rootFile) : undefined;
+  if (!rootFile || !isObject(root)) {
+    errors.push({ file: rootFile || '', message: 'No file declares an openapi or swagger version' });
+    return { document: null, rootFile: rootFile || '', errors };
+  }
+
+  const swagger2 = !!root.swagger;
+  const hoisted = new Map<string, string>();
+  const takenNames = new Map<string, Set<string>>();
+  const extraComponents: Array<{ path: string[]; name: string; value: unknown }> = [];
+
+  const namesIn = (path: string[]) => {
+    const key = path.join('/');
+    if (!takenNames.has(key)) {
+      let node: unknown = root;
+      path.forEach(segment => { node = isObject(node) ? node[segment] : undefined; });
+      takenNames.set(key, new Set(isObject(node) ? Object.keys(node) : []));
+    }
+    return takenNames.get(key);
+  };
+
+  const uniqueName = (path: string[], preferred: string) => {
+    const names = namesIn(path);
+    const base = preferred.replace(/\.(ya?ml|json)$/i, '').replace(/[^A-Za-z0-9._-]/g, '_') || 'Component';
+    let name = base;
+    for (let i = 2; names.has(name); i++) name = `${base}${i}`;
+    names.add(name);
+    return name;
+  };
+
+  const splitRef = (ref: string, fromFile: string) => {
+    const [filePart, fragment = ''] = ref.split('#');
+    const file = filePart ? resolveRelativePath(fromFile, safeDecode(filePart, decodeURI)) : fromFile;
+    return { file, pointer: fragment, key: `${file}#${fragment}` };
+  };
+
+  const lookup = (file: string, pointer: string, ref: string, fromFile: string): { found: boolean; value?: unknown } => {
+    if (!parsed.has(file)) {
+      errors.push({ file: fromFile, ref, message: `Referenced file not found: ${file}` });
+      return { found: false };
+    }
+    try {
+      return { found: true, value: resolvePointer(parsed.get(file), toPointer(parseFragment(pointer))) };
+    } catch (error) {
+      errors.push({ file: fromFile, ref, message: error instanceof Error ? error.message : `Cannot resolve ${ref}` });
+      return { found: false };
+    }
+  };
+
+  // Root components that are themselves external refs keep their name: the
+  // slot receives the file's content and every other reference points at it.
+  const preregister = (path: string[]) => {
+    let node: unknown = root;
+    path.forEach(segment => { node = isObject(node) ? node[segment] : undefined; });
+    if (!isObject(node)) return;
+    Object.entries(node).forEach(([name, value]) => {
+      if (isObject(value) && typeof value.$ref === 'string' && !value.$ref.startsWith('#')) {
+        const { key } = splitRef(value.$ref, rootFile);
+        if (!hoisted.has(key)) hoisted.set(key, '#' + toPointer([...path, name]));
+      }
+    });
+  };
+  (['schemas', 'parameters', 'responses', 'requestBodies', 'headers', 'examples'] as ComponentSection[])
+    .map(section => sectionPath(section, swagger2))
+    .filter(Boolean)
+    .forEach(preregister);
+
+  const process = (node: unknown, file: string, location: string[], stack: string[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item, index) => process(item, file, [...location, String(index)], stack));
+    }
+    if (!isObject(node)) return node;
+
+    if (typeof node.$ref === 'string') {
+      const ref = node.$ref;
+      if (/^[a-z]+:\/\//i.test(ref)) {
+        errors.push({ file, ref, message: `Remote references are not supported: ${ref}` });
+        return node;
+      }
+
+      const target = splitRef(ref, file);
+      if (target.file === rootFile) {
+        return file === rootFile ? node : { ...node, $ref: `#${target.pointer}` };
+      }
+
+      const siblings = { ...node };
+      delete siblings.$ref;
+      const localRef = hoisted.get(target.key);
+
+      // The component slot that owns this external definition: inline it here.
+      if (localRef && localRef === '#' + toPointer(location)) {
+        const { found, value } = lookup(target.file, target.pointer, ref, file);
+        return found ? process(value, target.file, location, [...stack, target.key]) : node;
+      }
+      if (localRef) return { ...siblings, $ref: localRef };
+
+      const section = inferSection(location);
+      const componentPath = section && sectionPath(section, swagger2);
+      if (componentPath) {
+        const segments = parseFragment(target.pointer);
+        const name = uniqueName(componentPath, segments[segments.length - 1] || basename(target.file));
+        const pointer = '#' + toPointer([...componentPath, name]);
+        hoisted.set(target.key, pointer);
+        const { found, value } = lookup(target.file, target.pointer, ref, file);
+        if (!found) return node;
+        const entry = { path: componentPath, name, value: undefined as unknown };
+        extraComponents.push(entry);
+        entry.value = process(value, target.file, [...componentPath, name], [...stack, target.key]);
+        return { ...siblings, $ref: pointer };
+      }
+
+      if (stack.includes(target.key)) {
+        errors.push({ file, ref, message: `Circular reference cannot be inlined: ${ref}` });
+        return node;
+      }
+      const { found, value } = lookup(target.file, target.pointer, ref, file);
+      if (!found) return node;
+      const inlined = process(value, target.file, location, [...stack, target.key]);
+      return isObject(inlined) ? { ...inlined, ...siblings } : inlined;
+    }
+
+    const result: Record<string, unknown> = {};
+    Object.entries(node).forEach(([key, value]) => {
+      result[key] = process(value, file, [...location, key], stack);
+    });
+    return result;
+  };
+
+  const document = process(root, rootFile, [], []) as Record<string, unknown>;
+
+  extraComponents.forEach(({ path, name, value }) => {
+    let container = document;
+    path.forEach(segment => {
+      if (!isObject(container[segment])) container[segment] = {};
+      container = container[segment] as Record<string, unknown>;
+    });
+    container[name] = value;
+  });
+
+  return { document: document as OpenApiDocument, rootFile, errors };
+};
@@ -0,0 +1,425 @@
+import { HTTP_METHODS, type OpenApiDocument } from './openapi-types';
+import { isReference, parsePointer, tryResolveRef } from './spec-model';
+import { detectSpecVersion } from './spec-validation';
+
+export type ConversionTarget = '3.0' | '3.1';
+
+export interface ConversionResult {
+  document: OpenApiDocument;
+  // Things that could not be carried over exactly.
+  warnings: string[];
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', 'definitions', '$defs'];
+const SCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+const SCHEMA_KEYWORDS = ['items', 'not', 'additionalProperties', 'contains', 'if', 'then', 'else'];
+
+/**
+ * Applies `transform` to a schema and, depth first, to every subschema it
+ * contains. `transform` mutates in place.
+ */
+const visitSchema = (schema: unknown, transform: (schema: Json) => void) => {
+  if (!isObject(schema) || isReference(schema)) return;
+  SCHEMA_MAP_KEYWORDS.forEach(keyword => {
+    if (isObject(schema[keyword])) Object.values(schema[keyword] as Json).forEach(child => visitSchema(child, transform));
+  });
+  SCHEMA_LIST_KEYWORDS.forEach(keyword => {
+    if (Array.isArray(schema[keyword])) (schema[keyword] as unknown[]).forEach(child => visitSchema(child, transform));
+  });
+  SCHEMA_KEYWORDS.forEach(keyword => visitSchema(schema[keyword], transform));
+  transform(schema);
+};
+
+/**
+ * Visits every schema of an OpenAPI 3.x document: component schemas and any
+ * `schema` found under paths and other components.
+ */
+const visitDocumentSchemas = (document: Json, transform: (schema: Json) => void) => {
+  const walk = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (isObject(node)) {
+      Object.entries(node).forEach(([key, value]) => {
+        if (key === 'schema') visitSchema(value, transform);
+        else walk(value);
+      });
+    }
+  };
+  const components = isObject(document.components) ? document.components : {};
+  Object.entries(components).forEach(([section, entries]) => {
+    if (section === 'schemas' && isObject(entries)) Object.values(entries).forEach(schema => visitSchema(schema, transform));
+    else walk(entries);
+  });
+  walk(document.paths);
+  walk(document.webhooks);
+};
+
+// ---------------------------------------------------------------------------
+// Swagger 2.0 -> OpenAPI 3.0
+
+const SCHEMA_FIELDS = [
+  'type', 'format', 'items', 'enum', 'default', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+  'multipleOf', 'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'uniqueItems',
+];
+
+const COLLECTION_FORMATS: Record<string, { style?: string; explode: boolean }> = {
+  csv: { explode: false },
+  multi: { style: 'form', explode: true },
+  ssv: { style: 'spaceDelimited', explode: false },
+  pipes: { style: 'pipeDelimited', explode: false },
+};
+
+const OAUTH_FLOWS: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  application: 'clientCredentials',
+  accessCode: 'authorizationCode',
+};
+
+const convertSchema2 = (schema: unknown) => {
+  visitSchema(schema, node => {
+    if (node['x-nullable'] !== undefined) {
+      node.nullable = node['x-nullable'];
+      delete node['x-nullable'];
+    }
+    if (node.type === 'file') {
+      node.type = 'string';
+      node.format = 'binary';
+    }
+    if (typeof node.discriminator === 'string') {
+      node.discriminator = { propertyName: node.discriminator };
+    }
+  });
+  return schema;
+};
+
+// Moves the inline Swagger 2.0 type description of a parameter or header into `schema`.
+const extractSchema = (source: Json): Json => {
+  const schema: Json = {};
+  SCHEMA_FIELDS.forEach(field => {
+    if (source[field] !== undefined) {
+      schema[field] = source[field];
+      delete source[field];
+    }
+  });
+  return convertSchema2(schema) as Json;
+};
+
+/**
+ * Converts a Swagger 2.0 document to OpenAPI 3.0.3.
+ */
+export const convertSwagger2ToOpenApi30 = (input: OpenApiDocument): ConversionResult => {
+  const source = clone(input) as Json;
+  const warnings: string[] = [];
+  const globalConsumes = (source.consumes as string[]) || ['application/json'];
+  const globalProduces = (source.produces as string[]) || ['application/json'];
+
+  // Global body parameters become request bodies; formData ones are inlined into
+  // the form schema of each operation using them.
+  const globalParameters = isObject(source.parameters) ? source.parameters : {};
+  const parameterNamesIn = (locations: string[]) => new Set(
+    Object.entries(globalParameters)
+      .filter(([, parameter]) => isObject(parameter) && locations.includes(String(parameter.in)))
+      .map(([name]) => name)
+  );
+  const bodyParameterNames = parameterNamesIn(['body']);
+  const formParameterNames = parameterNamesIn(['formData']);
+
+  const rewriteRef = (ref: string): string => {
+    if (ref.startsWith('#/definitions/')) return ref.replace('#/definitions/', '#/components/schemas/');
+    if (ref.startsWith('#/parameters/')) {
+      const name = parsePointer(ref)[1];
+      return bodyParameterNames.has(name)
+        ? ref.replace('#/parameters/', '#/components/requestBodies/')
+        : ref.replace('#/parameters/', '#/components/parameters/');
+    }
+    if (ref.startsWith('#/responses/')) return ref.replace('#/responses/', '#/components/responses/');
+    return ref;
+  };
+
+  const rewriteRefs = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(rewriteRefs);
+    } else if (isObject(node)) {
+      if (typeof node.$ref === 'string') node.$ref = rewriteRef(node.$ref);
+      Object.values(node).forEach(rewriteRefs);
+    }
+  };
+
+  const convertParameter = (parameter: Json): Json => {
+    if (isReference(parameter)) return parameter;
+    const converted: Json = { ...parameter };
+    const collectionFormat = converted.collectionFormat as string | undefined;
+    delete converted.collectionFormat;
+    delete converted.allowEmptyValue;
+    const schema = extractSchema(converted);
+    converted.schema = schema;
+    // Arrays default to csv in 2.0; path and header parameters already serialize that way in 3.0.
+    const format = collectionFormat ?? (schema.type === 'array' ? 'csv' : undefined);
+    if (format && !(format === 'csv' && (converted.in === 'path' || converted.in === 'header'))) {
+      const mapped = COLLECTION_FORMATS[format];
+      if (mapped) {
+        if (mapped.style) converted.style = mapped.style;
+        converted.explode = mapped.explode;
+      } else {
+        warnings.push(`collectionFormat '${format}' of parameter '${String(parameter.name)}' has no OpenAPI 3 equivalent`);
+      }
+    }
+    if (converted['x-example'] !== undefined) {
+      converted.example = converted['x-example'];
+      delete converted['x-example'];
+    }
+    return converted;
+  };
+
+  // Turns the body or formData parameters of one operation into a request body.
+  const buildRequestBody = (parameters: Json[], consumes: string[]): Json | undefined => {
+    const body = parameters.find(parameter => parameter.in === 'body');
+    if (body) {
+      const requestBody: Json = {
+        content: Object.fromEntries(consumes.map(mediaType => [mediaType, { schema: convertSchema2(body.schema) }])),
+      };
+      if (body.description) requestBody.description = body.description;
+      if (body.required) requestBody.required = true;
+      if (body['x-examples'] && isObject(body['x-examples'])) {
+        Object.entries(body['x-examples']).forEach(([mediaType, example]) => {
+          const content = (requestBody.content as Json)[mediaType];
+          if (isObject(content)) content.example = example;
+        });
+      }
+      return requestBody;
+    }
+
+    const fields = parameters.filter(parameter => parameter.in === 'formData');
+    if (fields.length === 0) return undefined;
+    const hasFile = fields.some(field => field.type === 'file');
+    const formTypes = consumes.filter(mediaType => /multipart\/form-data|application\/x-www-form-urlencoded/.test(mediaType));
+    const mediaTypes = formTypes.length > 0 ? formTypes : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+    const schema: Json = { type: 'object', properties: {} };
+    const required: string[] = [];
+    fields.forEach(field => {
+      const property = extractSchema({ ...field });
+      if (field.description) property.description = field.description;
+      (schema.properties as Json)[String(field.name)] = property;
+      if (field.required) required.push(String(field.name));
+    });
+    if (required.length > 0) schema.required = required;
+    return {
+      content: Object.fromEntries(mediaTypes.map(mediaType => [mediaType, { schema: clone(schema) }])),
+      ...(required.length > 0 ? { required: true } : {}),
+    };
+  };
+
+  const convertResponse = (response: unknown, produces: string[]): unknown => {
+    if (!isObject(response) || isReference(response)) return response;
+    const converted: Json = { description: response.description ?? '' };
+    if (response.schema) {
+      converted.content = Object.fromEntries(produces.map(mediaType => {
+        const media: Json = { schema: convertSchema2(response.schema) };
+        const examples = isObject(response.examples) ? response.examples : {};
+        if (examples[mediaType] !== undefined) media.example = examples[mediaType];
+        return [mediaType, media];
+      }));
+    }
+    if (isObject(response.headers)) {
+      converted.headers = Object.fromEntries(Object.entries(response.headers).map(([name, header]) => {
+        if (!isObject(header)) return [name, header];
+        const convertedHeader: Json = { ...header };
+        convertedHeader.schema = extractSchema(convertedHeader);
+        delete convertedHeader.collectionFormat;
+        return [name, convertedHeader];
+      }));
+    }
+    Object.keys(response).filter(key => key.startsWith('x-')).forEach(key => { converted[key] = response[key]; });
+    return converted;
+  };
+
+  const result: Json = { openapi: '3.0.3', info: source.info };
+
+  const schemes = (source.schemes as string[]) || ['https'];
+  const basePath = (source.basePath as string) || '';
+  result.servers = source.host
+    ? schemes.map(scheme => ({ url: `${scheme}://${source.host}${basePath}` }))
+    : [{ url: basePath || '/' }];
+  if (!source.host) warnings.push('No host declared: the server URL is relative to where the spec is served');
+
+  ['tags', 'externalDocs', 'security'].forEach(key => {
+    if (source[key] !== undefined) result[key] = source[key];
+  });
+  Object.keys(source).filter(key => key.startsWith('x-')).forEach(key => { result[key] = source[key]; });
+
+  const resolveParameter = (parameter: unknown): Json | undefined =>
+    tryResolveRef<Json>(source, parameter);
+
+  const paths: Json = {};
+  Object.entries(isObject(source.paths) ? source.paths : {}).forEach(([path, item]) => {
+    if (!isObject(item)) return;
+    const pathItem: Json = { ...item };
+    const pathParameters = Array.isArray(item.parameters) ? (item.parameters as Json[]) : [];
+    pathItem.parameters = pathParameters
+      .filter(parameter => !['body', 'formData'].includes(String(resolveParameter(parameter)?.in)))
+      .map(convertParameter);
+    if ((pathItem.parameters as Json[]).length === 0) delete pathItem.parameters;
+
+    HTTP_METHODS.forEach(method => {
+      const operation = item[method];
+      if (!isObject(operation)) return;
+      const converted: Json = { ...operation };
+      const consumes = (operation.consumes as string[]) || globalConsumes;
+      const produces = (operation.produces as string[]) || globalProduces;
+      delete converted.consumes;
+      delete converted.produces;
+      delete converted.schemes;
+
+      const parameters = (Array.isArray(operation.parameters) ? operation.parameters : []) as Json[];
+      const bodyParameters = [...pathParameters, ...parameters].filter(parameter => {
+        const resolved = resolveParameter(parameter);
+        return resolved?.in === 'body' || resolved?.in === 'formData';
+      });
+      const bodyRef = bodyParameters.find(parameter =>
+        isReference(parameter) && bodyParameterNames.has(parsePointer(parameter.$ref)[1])
+      );
+
+      const otherParameters = parameters
+        .filter(parameter => !bodyParameters.includes(parameter))
+        .map(convertParameter);
+      if (otherParameters.length > 0) converted.parameters = otherParameters;
+      else delete converted.parameters;
+
+      if (bodyRef) {
+        converted.requestBody = { $ref: bodyRef.$ref };
+      } else {
+        const requestBody = buildRequestBody(bodyParameters.map(resolveParameter).filter(isObject), consumes);
+        if (requestBody) converted.requestBody = requestBody;
+      }
+
+      if (isObject(operation.responses)) {
+        converted.responses = Object.fromEntries(
+          Object.entries(operation.responses).map(([status, response]) => [status, convertResponse(response, produces)])
+        );
+      }
+      pathItem[method] = converted;
+    });
+    paths[path] = pathItem;
+  });
+  result.paths = paths;
+
+  const components: Json = {};
+  if (isObject(source.definitions)) {
+    components.schemas = Object.fromEntries(
+      Object.entries(source.definitions).map(([name, schema]) => [name, convertSchema2(schema)])
+    );
+  }
+  const parameters = Object.entries(globalParameters)
+    .filter(([name]) => !bodyParameterNames.has(name) && !formParameterNames.has(name));
+  if (parameters.length > 0) {
+    components.parameters = Object.fromEntries(parameters.map(([name, parameter]) => [name, convertParameter(parameter as Json)]));
+  }
+  const bodies = Object.entries(globalParameters).filter(([name]) => bodyParameterNames.has(name));
+  if (bodies.length > 0) {
+    components.requestBodies = Object.fromEntries(
+      bodies.map(([name, parameter]) => [name, buildRequestBody([parameter as Json], globalConsumes)])
+    );
+  }
+  if (isObject(source.responses)) {
+    components.responses = Object.fromEntries(
+      Object.entries(source.responses).map(([name, response]) => [name, convertResponse(response, globalProduces)])
+    );
+  }
+  if (isObject(source.securityDefinitions)) {
+    components.securitySchemes = Object.fromEntries(
+      Object.entries(source.securityDefinitions).map(([name, definition]) => {
+        if (!isObject(definition)) return [name, definition];
+        const { type, description } = definition;
+        if (type === 'basic') return [name, { type: 'http', scheme: 'basic', ...(description ? { description } : {}) }];
+        if (type === 'oauth2') {
+          const flow = OAUTH_FLOWS[String(definition.flow)] || 'implicit';
+          const flowObject: Json = { scopes: definition.scopes || {} };
+          if (definition.authorizationUrl) flowObject.authorizationUrl = definition.authorizationUrl;
+          if (definition.tokenUrl) flowObject.tokenUrl = definition.tokenUrl;
+          return [name, { type: 'oauth2', ...(description ? { description } : {}), flows: { [flow]: flowObject } }];
+        }
+        return [name, definition];
+      })
+    );
+  }
+  if (Object.keys(components).length > 0) result.components = components;
+
+  rewriteRefs(result);
+  return { document: result as OpenApiDocument, warnings };
+};
+
+// ---------------------------------------------------------------------------
+// OpenAPI 3.0 -> 3.1
+
+const upgradeSchema31 = (schema: Json) => {
+  if (schema.nullable === true) {
+    if (typeof schema.type === 'string') {
+      schema.type = [schema.type, 'null'];
+    } else if (Array.isArray(schema.type) && !schema.type.includes('null')) {
+      schema.type = [...schema.type, 'null'];
+    } else if (schema.type === undefined && !schema.allOf && !schema.oneOf && !schema.anyOf) {
+      // Untyped nullable schemas already accept null.
+    } else if (schema.type === undefined) {
+      const combinator = schema.oneOf ? 'oneOf' : schema.anyOf ? 'anyOf' : 'allOf';
+      if (combinator === 'allOf') {
+        schema.anyOf = [{ allOf: schema.allOf }, { type: 'null' }];
+        delete schema.allOf;
+      } else {
+        schema[combinator] = [...(schema[combinator] as unknown[]), { type: 'null' }];
+      }
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+      schema.enum = [...schema.enum, null];
+    }
+  }
+  delete schema.nullable;
+
+  // 3.0 flags exclusive bounds with booleans; 3.1 (JSON Schema 2020-12) puts the bound in the keyword.
+  if (schema.exclusiveMinimum === true && typeof schema.minimum === 'number') {
+    schema.exclusiveMinimum = schema.minimum;
+    delete schema.minimum;
+  } else if (typeof schema.exclusiveMinimum === 'boolean') {
+    delete schema.exclusiveMinimum;
+  }
+  if (schema.exclusiveMaximum === true && typeof schema.maximum === 'number') {
+    schema.exclusiveMaximum = schema.maximum;
+    delete schema.maximum;
+  } else if (typeof schema.exclusiveMaximum === 'boolean') {
+    delete schema.exclusiveMaximum;
+  }
+};
+
+/**
+ * Upgrades an OpenAPI 3.0 document to 3.1.0.
+ */
+export const convertOpenApi30To31 = (input: OpenApiDocument): ConversionResult => {
+  const document = clone(input) as Json;
+  document.openapi = '3.1.0';
+  visitDocumentSchemas(document, upgradeSchema31);
+  return { document: document as OpenApiDocument, warnings: [] };
+};
+
+/**
+ * Converts a document to `target`, going through 3.0 when starting from
+ * Swagger 2.0. Throws when the document is not older than the target.
+ */
+export const convertSpec = (input: OpenApiDocument, target: ConversionTarget): ConversionResult => {
+  const version = detectSpecVersion(input);
+  if (!version) throw new Error('Not a Swagger 2.0 or OpenAPI 3.x document');
+  if (version === target || version === '3.1') {
+    throw new Error(`The document is already OpenAPI ${version}`);
+  }
+
+  const first = version === '2.0' ? convertSwagger2ToOpenApi30(input) : { document: clone(input), warnings: [] };
+  if (target === '3.0') return first;
+  const second = convertOpenApi30To31(first.document);
+  return { document: second.document, warnings: [...first.warnings, ...second.warnings] };
+};
@@ -0,0 +1,413 @@
+import type {
+  MediaTypeObject,
+  OpenApiDocument,
+  ParameterObject,
+  RequestBodyObject,
+  ResponseObject,
+  SchemaObject,
+} from './openapi-types';
+import { getRequestBodyMediaTypes } from './request-body';
+import { createSpecModel, getOperationParameters, getParameterSchema, listOperations, type OperationEntry } from './spec-model';
+
+export type ChangeCategory = 'endpoint' | 'parameter' | 'request-body' | 'response' | 'schema';
+
+export interface SpecChange {
+  category: ChangeCategory;
+  breaking: boolean;
+  // `GET /pets/{id}`, or undefined for document-level changes.
+  operation?: string;
+  // Where in the operation the change is, e.g. `responses.200.content.application/json.id`.
+  location?: string;
+  message: string;
+}
+
+export interface SpecDiffReport {
+  base: { title: string; version: string };
+  head: { title: string; version: string };
+  generatedAt: string;
+  summary: { breaking: number; nonBreaking: number };
+  changes: SpecChange[];
+}
+
+// Request schemas break clients when they accept less; response schemas when they promise less.
+type Direction = 'request' | 'response';
+
+const MAX_SCHEMA_DEPTH = 12;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// `/pets/{id}` and `/pets/{petId}` are the same endpoint.
+const operationKey = (entry: OperationEntry) =>
+  `${entry.method} ${entry.path.replace(/\{[^}]+\}/g, '{}')}`;
+
+const operationLabel = (entry: OperationEntry) => `${entry.method.toUpperCase()} ${entry.path}`;
+
+const schemaTypes = (schema: SchemaObject): string[] => {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return schema.nullable ? [...types, 'null'] : types;
+};
+
+// `allOf` members merged into one schema, so a property moved between members is not a change.
+const mergeAllOf = (schema: SchemaObject, depth = 0): SchemaObject => {
+  if (!Array.isArray(schema.allOf) || depth > MAX_SCHEMA_DEPTH) return schema;
+  const { allOf, ...rest } = schema;
+  return allOf.filter(isObject).reduce<SchemaObject>((merged, member) => {
+    const part = mergeAllOf(member, depth + 1);
+    return {
+      ...part,
+      ...merged,
+      properties: { ...part.properties, ...merged.properties },
+      required: [...new Set([...(part.required || []), ...(merged.required || [])])],
+    };
+  }, rest);
+};
+
+const formatValues = (values: unknown[]) => values.map(value => JSON.stringify(value)).join(', ');
+
+const joinLocation = (...parts: Array<string | undefined>) => parts.filter(Boolean).join('.');
+
+/**
+ * Compares two schemas and records changes that matter for the given
+ * direction. Removed properties and widened enums only break responses;
+ * new required properties and narrowed enums only break requests. `allOf`
+ * members are merged first; `oneOf`/`anyOf` options are compared by position.
+ */
+const compareSchemas = (
+  base: SchemaObject | undefined,
+  head: SchemaObject | undefined,
+  direction: Direction,
+  location: string,
+  push: (change: Omit<SpecChange, 'category' | 'operation'>) => void,
+  seen = new Set<SchemaObject>(),
+  depth = 0,
+) => {
+  if (!isObject(base) || !isObject(head) || depth > MAX_SCHEMA_DEPTH) return;
+  // Shared component schemas are compared once per operation.
+  if (seen.has(base)) return;
+  seen.add(base);
+  base = mergeAllOf(base);
+  head = mergeAllOf(head);
+
+  const baseTypes = schemaTypes(base);
+  const headTypes = schemaTypes(head);
+  if (baseTypes.length > 0 && headTypes.length > 0) {
+    const removed = baseTypes.filter(type => !headTypes.includes(type) && !(type === 'integer' && headTypes.includes('number')));
+    const added = headTypes.filter(type => !baseTypes.includes(type));
+    if (removed.length > 0 || added.length > 0) {
+      push({
+        breaking: direction === 'request' ? removed.length > 0 : added.length > 0 || removed.length > 0,
+        location,
+        message: `Type changed from ${baseTypes.join(' | ')} to ${headTypes.join(' | ')}`,
+      });
+    }
+  }
+
+  if (Array.isArray(base.enum) && Array.isArray(head.enum)) {
+    const removed = base.enum.filter(value => !head.enum.some(other => JSON.stringify(other) === JSON.stringify(value)));
+    const added = head.enum.filter(value => !base.enum.some(other => JSON.stringify(other) === JSON.stringify(value)));
+    if (removed.length > 0) {
+      push({
+        breaking: direction === 'request',
+        location,
+        message: `Enum narrowed: removed ${formatValues(removed)}`,
+      });
+    }
+    if (added.length > 0) {
+      push({
+        breaking: direction === 'response',
+        location,
+        message: `Enum widened: added ${formatValues(added)}`,
+      });
+    }
+  } else if (!Array.isArray(base.enum) && Array.isArray(head.enum)) {
+    push({ breaking: direction === 'request', location, message: `Values restricted to ${formatValues(head.enum)}` });
+  }
+
+  const baseRequired = new Set(base.required || []);
+  const headRequired = new Set(head.required || []);
+  const baseProperties = base.properties || {};
+  const headProperties = head.properties || {};
+
+  Object.keys(baseProperties).forEach(name => {
+    const propertyLocation = joinLocation(location, name);
+    if (!(name in headProperties)) {
+      push({
+        breaking: direction === 'response' || baseRequired.has(name),
+        location: propertyLocation,
+        message: `Property '${name}' removed`,
+      });
+      return;
+    }
+    if (direction === 'request' && !baseRequired.has(name) && headRequired.has(name)) {
+      push({ breaking: true, location: propertyLocation, message: `Property '${name}' is now required` });
+    }
+    if (direction === 'response' && baseRequired.has(name) && !headRequired.has(name)) {
+      push({ breaking: true, location: propertyLocation, message: `Property '${name}' is no longer guaranteed` });
+    }
+    compareSchemas(baseProperties[name], headProperties[name], direction, propertyLocation, push, seen, depth + 1);
+  });
+
+  Object.keys(headProperties)
+    .filter(name => !(name in baseProperties))
+    .forEach(name => {
+      const required = headRequired.has(name);
+      push({
+        breaking: direction === 'request' && required,
+        location: joinLocation(location, name),
+        message: `${required && direction === 'request' ? 'Required property' : 'Property'} '${name}' added`,
+      });
+    });
+
+  const baseAdditional = base.additionalProperties;
+  const headAdditional = head.additionalProperties;
+  if (baseAdditional !== false && headAdditional === false) {
+    push({ breaking: direction === 'request', location, message: 'Additional properties no longer allowed' });
+  } else if (baseAdditional === false && headAdditional !== undefined && headAdditional !== false) {
+    push({ breaking: direction === 'response', location, message: 'Additional properties now allowed' });
+  } else if (isObject(baseAdditional) && isObject(headAdditional)) {
+    compareSchemas(baseAdditional, headAdditional, direction, joinLocation(location, '*'), push, seen, depth + 1);
+  }
+
+  (['oneOf', 'anyOf'] as const).forEach(keyword => {
+    const baseOptions = Array.isArray(base[keyword]) ? base[keyword] : [];
+    const headOptions = Array.isArray(head[keyword]) ? head[keyword] : [];
+    if (baseOptions.length === 0 && headOptions.length === 0) return;
+    if (baseOptions.length === 0 || headOptions.length === 0) {
+      push({ breaking: true, location, message: `${keyword} ${baseOptions.length === 0 ? 'added' : 'removed'}` });
+      return;
+    }
+    if (headOptions.length < baseOptions.length) {
+      push({
+        breaking: direction === 'request',
+        location,
+        message: `${keyword} narrowed from ${baseOptions.length} to ${headOptions.length} options`,
+      });
+    } else if (headOptions.length > baseOptions.length) {
+      push({
+        breaking: direction === 'response',
+        location,
+        message: `${keyword} widened from ${baseOptions.length} to ${headOptions.length} options`,
+      });
+    }
+    baseOptions.slice(0, headOptions.length).forEach((option, index) => {
+      compareSchemas(option, headOptions[index], direction, `${location}.${keyword}[${index}]`, push, seen, depth + 1);
+    });
+  });
+
+  if (base.items || head.items) {
+    compareSchemas(base.items, head.items, direction, `${location}[]`, push, seen, depth + 1);
+  }
+};
+
+const compareContent = (
+  base: Record<string, MediaTypeObject> | undefined,
+  head: Record<string, MediaTypeObject> | undefined,
+  direction: Direction,
+  location: string,
+  push: (change: Omit<SpecChange, 'category' | 'operation'>) => void,
+) => {
+  const baseContent = base || {};
+  const headContent = head || {};
+  Object.keys(baseContent).forEach(mediaType => {
+    const mediaLocation = joinLocation(location, mediaType);
+    if (!(mediaType in headContent)) {
+      push({ breaking: true, location: mediaLocation, message: `Media type ${mediaType} removed` });
+      return;
+    }
+    compareSchemas(baseContent[mediaType].schema, headContent[mediaType].schema, direction, mediaLocation, push);
+  });
+  Object.keys(headContent)
+    .filter(mediaType => !(mediaType in baseContent))
+    .forEach(mediaType => {
+      push({ breaking: false, location: joinLocation(location, mediaType), message: `Media type ${mediaType} added` });
+    });
+};
+
+const compareParameters = (
+  base: ParameterObject[],
+  head: ParameterObject[],
+  push: (change: Omit<SpecChange, 'category' | 'operation'>) => void,
+) => {
+  // Path parameters are matched by position so renaming `{id}` to `{petId}` is not a removal.
+  const key = (parameter: ParameterObject, list: ParameterObject[]) =>
+    parameter.in === 'path'
+      ? `path:${list.filter(item => item.in === 'path').indexOf(parameter)}`
+      : `${parameter.in}:${parameter.name}`;
+  const headByKey = new Map(head.map(parameter => [key(parameter, head), parameter]));
+  const baseKeys = new Set(base.map(parameter => key(parameter, base)));
+
+  base.forEach(parameter => {
+    const location = `${parameter.in}.${parameter.name}`;
+    const other = headByKey.get(key(parameter, base));
+    if (!other) {
+      push({ breaking: true, location, message: `${parameter.in} parameter '${parameter.name}' removed` });
+      return;
+    }
+    if (!parameter.required && other.required) {
+      push({ breaking: true, location, message: `${parameter.in} parameter '${parameter.name}' is now required` });
+    } else if (parameter.required && !other.required) {
+      push({ breaking: false, location, message: `${parameter.in} parameter '${parameter.name}' is now optional` });
+    }
+    compareSchemas(getParameterSchema(parameter), getParameterSchema(other), 'request', location, push);
+  });
+
+  head
+    .filter(parameter => !baseKeys.has(key(parameter, head)))
+    .forEach(parameter => {
+      push({
+        breaking: !!parameter.required,
+        location: `${parameter.in}.${parameter.name}`,
+        message: `${parameter.required ? 'Required' : 'Optional'} ${parameter.in} parameter '${parameter.name}' added`,
+      });
+    });
+};
+
+// Swagger 2.0 `body` and `formData` parameters read as a request body, the same way the console sends them.
+const getRequestBody = (document: OpenApiDocument, entry: OperationEntry): RequestBodyObject | undefined => {
+  if (entry.operation.requestBody) return entry.operation.requestBody as RequestBodyObject;
+  const mediaTypes = getRequestBodyMediaTypes(document, entry.operation);
+  if (mediaTypes.length === 0) return undefined;
+  return {
+    required: getOperationParameters(document, entry).some(parameter => (parameter.in === 'body' || parameter.in === 'formData') && parameter.required),
+    content: Object.fromEntries(mediaTypes.map(({ mediaType, media }) => [mediaType, media])),
+  };
+};
+
+const describeDocument = (document: OpenApiDocument | null | undefined) => ({
+  title: document?.info?.title || 'Untitled API',
+  version: document?.info?.version || 'unknown',
+});
+
+/**
+ * Produces a semantic changelog from `base` to `head`, marking each change
+ * as breaking or not for existing clients.
+ */
+export const compareSpecs = (
+  baseDocument: OpenApiDocument | null | undefined,
+  headDocument: OpenApiDocument | null | undefined,
+): SpecDiffReport => {
+  const base = createSpecModel(baseDocument).dereferenced;
+  const head = createSpecModel(headDocument).dereferenced;
+  const changes: SpecChange[] = [];
+
+  const baseOperations = new Map(listOperations(base).map(entry => [operationKey(entry), entry]));
+  const headOperations = new Map(listOperations(head).map(entry => [operationKey(entry), entry]));
+
+  baseOperations.forEach((baseEntry, key) => {
+    const operation = operationLabel(baseEntry);
+    const headEntry = headOperations.get(key);
+    if (!headEntry) {
+      changes.push({ category: 'endpoint', breaking: true, operation, message: 'Endpoint removed' });
+      return;
+    }
+
+    const pushTo = (category: ChangeCategory, prefix?: string) =>
+      (change: Omit<SpecChange, 'category' | 'operation'>) =>
+        changes.push({ ...change, category, operation, location: joinLocation(prefix, change.location) });
+
+    if (!baseEntry.operation.deprecated && headEntry.operation.deprecated) {
+      changes.push({ category: 'endpoint', breaking: false, operation, message: 'Endpoint deprecated' });
+    }
+
+    compareParameters(
+      getOperationParameters(base, baseEntry).filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData'),
+      getOperationParameters(head, headEntry).filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData'),
+      pushTo('parameter'),
+    );
+
+    const baseBody = getRequestBody(base, baseEntry);
+    const headBody = getRequestBody(head, headEntry);
+    if (!baseBody && headBody) {
+      changes.push({
+        category: 'request-body',
+        breaking: !!headBody.required,
+        operation,
+        message: `${headBody.required ? 'Required r' : 'R'}equest body added`,
+      });
+    } else if (baseBody && !headBody) {
+      changes.push({ category: 'request-body', breaking: true, operation, message: 'Request body removed' });
+    } else if (baseBody && headBody) {
+      if (!baseBody.required && headBody.required) {
+        changes.push({ category: 'request-body', breaking: true, operation, message: 'Request body is now required' });
+      }
+      compareContent(baseBody.content, headBody.content, 'request', 'requestBody', pushTo('request-body'));
+    }
+
+    const baseResponses = baseEntry.operation.responses || {};
+    const headResponses = headEntry.operation.responses || {};
+    Object.entries(baseResponses).forEach(([status, response]) => {
+      const other = headResponses[status] as ResponseObject | undefined;
+      if (!other) {
+        changes.push({
+          category: 'response',
+          breaking: true,
+          operation,
+          location: `responses.${status}`,
+          message: `Response ${status} removed`,
+        });
+        return;
+      }
+      const baseResponse = response as ResponseObject;
+      const location = `responses.${status}`;
+      if (baseResponse.schema || other.schema) {
+        compareSchemas(baseResponse.schema, other.schema, 'response', location, pushTo('schema'));
+      } else {
+        compareContent(baseResponse.content, other.content, 'response', location, pushTo('schema'));
+      }
+    });
+    Object.keys(headResponses)
+      .filter(status => !(status in baseResponses))
+      .forEach(status => {
+        changes.push({
+          category: 'response',
+          breaking: false,
+          operation,
+          location: `responses.${status}`,
+          message: `Response ${status} added`,
+        });
+      });
+  });
+
+  headOperations.forEach((headEntry, key) => {
+    if (!baseOperations.has(key)) {
+      changes.push({ category: 'endpoint', breaking: false, operation: operationLabel(headEntry), message: 'Endpoint added' });
+    }
+  });
+
+  const breaking = changes.filter(change => change.breaking).length;
+  return {
+    base: describeDocument(base),
+    head: describeDocument(head),
+    generatedAt: new Date().toISOString(),
+    summary: { breaking, nonBreaking: changes.length - breaking },
+    changes,
+  };
+};
+
+const escapeMarkdown = (text: string) => text.replace(/\|/g, '\\|');
+
+export const reportToMarkdown = (report: SpecDiffReport): string => {
+  const lines = [
+    `# API changes: ${report.base.title} ${report.base.version} → ${report.head.title} ${report.head.version}`,
+    '',
+    `Generated ${report.generatedAt}`,
+    '',
+    `**${report.summary.breaking} breaking**, ${report.summary.nonBreaking} non-breaking change${report.summary.nonBreaking !== 1 ? 's' : ''}.`,
+  ];
+
+  const section = (title: string, changes: SpecChange[]) => {
+    if (changes.length === 0) return;
+    lines.push('', `## ${title}`, '', '| Endpoint | Location | Change |', '| --- | --- | --- |');
+    changes.forEach(change => {
+      lines.push(`| ${escapeMarkdown(change.operation ? `\`${change.operation}\`` : '—')} | ${escapeMarkdown(change.location || '')} | ${escapeMarkdown(change.message)} |`);
+    });
+  };
+  section('Breaking changes', report.changes.filter(change => change.breaking));
+  section('Non-breaking changes', report.changes.filter(change => !change.breaking));
+
+  if (report.changes.length === 0) lines.push('', 'No changes detected.');
+  return lines.join('\n') + '\n';
+};
+
+export const reportToJson = (report: SpecDiffReport): string => JSON.stringify(report, null, 2);
@@ -0,0 +1,240 @@
+import type { OpenApiDocument, ResponseObject } from './openapi-types';
+import { parseSpecContent } from './spec-bundle';
+import { getOperationParameters, listOperations, parsePointer, toPointer, tryResolveRef } from './spec-model';
+import type { IssueSeverity, SourceRange, SpecIssue } from './spec-validation';
+
+export type RuleSeverity = 'error' | 'warn' | 'info' | 'off';
+
+export const RULE_SEVERITIES: RuleSeverity[] = ['error', 'warn', 'info', 'off'];
+
+export interface LintFinding {
+  rule: string;
+  message: string;
+  // Segments of the node the finding is about, e.g. `['paths', '/pets', 'get']`.
+  path: string[];
+  target?: 'key' | 'value';
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: RuleSeverity;
+  check: (spec: OpenApiDocument) => Omit<LintFinding, 'rule'>[];
+}
+
+export interface Ruleset {
+  // Rule id to severity. Rules not listed use their built-in severity.
+  rules: Record<string, RuleSeverity>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const KEBAB_CASE_SEGMENT = /^[a-z0-9]+(-[a-z0-9]+)*(\.[a-z0-9]+)?$/;
+
+const COMPONENT_SECTIONS = ['schemas', 'parameters', 'responses', 'requestBodies', 'headers', 'examples', 'links', 'callbacks'];
+
+const collectRefs = (node: unknown, refs: Set<string>) => {
+  if (Array.isArray(node)) {
+    node.forEach(item => collectRefs(item, refs));
+  } else if (isObject(node)) {
+    if (typeof node.$ref === 'string') refs.add(node.$ref);
+    Object.values(node).forEach(value => collectRefs(value, refs));
+  }
+};
+
+export const BUILT_IN_RULES: LintRule[] = [
+  {
+    id: 'operation-operationId',
+    description: 'Every operation has an operationId',
+    severity: 'error',
+    check: spec => listOperations(spec)
+      .filter(({ operation }) => !operation.operationId)
+      .map(({ path, method }) => ({
+        message: `${method.toUpperCase()} ${path} has no operationId`,
+        path: ['paths', path, method],
+        target: 'key',
+      })),
+  },
+  {
+    id: 'operation-operationId-unique',
+    description: 'operationIds are unique across the spec',
+    severity: 'error',
+    check: spec => {
+      const seen = new Set<string>();
+      return listOperations(spec)
+        .filter(({ operation }) => {
+          if (!operation.operationId) return false;
+          if (seen.has(operation.operationId)) return true;
+          seen.add(operation.operationId);
+          return false;
+        })
+        .map(({ path, method, operation }) => ({
+          message: `Duplicate operationId '${operation.operationId}'`,
+          path: ['paths', path, method, 'operationId'],
+        }));
+    },
+  },
+  {
+    id: 'path-kebab-case',
+    description: 'Path segments are kebab-case',
+    severity: 'warn',
+    check: spec => Object.keys(spec.paths || {})
+      .filter(path => path.split('/').some(segment =>
+        segment !== '' && !/^\{[^}]+\}$/.test(segment) && !KEBAB_CASE_SEGMENT.test(segment)
+      ))
+      .map(path => ({ message: `Path '${path}' is not kebab-case`, path: ['paths', path], target: 'key' })),
+  },
+  {
+    id: 'no-unused-components',
+    description: 'Every component is referenced somewhere',
+    severity: 'warn',
+    check: spec => {
+      const refs = new Set<string>();
+      collectRefs(spec, refs);
+      const isUsed = (pointer: string) =>
+        [...refs].some(ref => ref === `#${pointer}` || ref.startsWith(`#${pointer}/`));
+
+      const sections: string[][] = spec.swagger
+        ? [['definitions'], ['parameters'], ['responses']]
+        : COMPONENT_SECTIONS.map(section => ['components', section]);
+
+      return sections.flatMap(section => {
+        let container: unknown = spec;
+        section.forEach(segment => { container = isObject(container) ? container[segment] : undefined; });
+        if (!isObject(container)) return [];
+        return Object.keys(container)
+          .filter(name => !isUsed(toPointer([...section, name])))
+          .map(name => ({
+            message: `${section[section.length - 1]}.${name} is never referenced`,
+            path: [...section, name],
+            target: 'key' as const,
+          }));
+      });
+    },
+  },
+  {
+    id: 'operation-4xx-response',
+    description: 'Every operation documents at least one 4xx response',
+    severity: 'warn',
+    check: spec => listOperations(spec)
+      .filter(({ operation }) => !Object.keys(operation.responses || {}).some(code => /^4(\d\d|XX)$/i.test(code)))
+      .map(({ path, method, operation }) => ({
+        message: `${method.toUpperCase()} ${path} has no 4xx response`,
+        path: ['paths', path, method, ...(operation.responses ? ['responses'] : [])],
+        target: 'key',
+      })),
+  },
+  {
+    id: 'parameter-description',
+    description: 'Every parameter has a description',
+    severity: 'warn',
+    check: spec => {
+      const findings: Omit<LintFinding, 'rule'>[] = [];
+      const reported = new Set<string>();
+      listOperations(spec).forEach(entry => {
+        const sources = [
+          { list: entry.pathItem.parameters, base: ['paths', entry.path, 'parameters'] },
+          { list: entry.operation.parameters, base: ['paths', entry.path, entry.method, 'parameters'] },
+        ];
+        sources.forEach(({ list, base }) => (list || []).forEach((raw, index) => {
+          const parameter = tryResolveRef<{ name?: string; description?: string }>(spec, raw);
+          if (!parameter || parameter.description) return;
+          // Report shared parameters once, at their definition.
+          const ref = isObject(raw) && typeof raw.$ref === 'string' ? raw.$ref : undefined;
+          const path = ref?.startsWith('#') ? parsePointer(ref) : [...base, String(index)];
+          const key = path.join('/');
+          if (reported.has(key)) return;
+          reported.add(key);
+          findings.push({ message: `Parameter '${parameter.name ?? index}' has no description`, path });
+        }));
+      });
+      return findings;
+    },
+  },
+  {
+    id: 'operation-summary',
+    description: 'Every operation has a summary',
+    severity: 'info',
+    check: spec => listOperations(spec)
+      .filter(({ operation }) => !operation.summary)
+      .map(({ path, method }) => ({
+        message: `${method.toUpperCase()} ${path} has no summary`,
+        path: ['paths', path, method],
+        target: 'key',
+      })),
+  },
+];
+
+export const DEFAULT_RULESET: Ruleset = { rules: {} };
+
+export const getRuleSeverity = (ruleset: Ruleset, rule: LintRule): RuleSeverity =>
+  ruleset.rules[rule.id] ?? rule.severity;
+
+/**
+ * Parses a ruleset file. Accepts YAML or JSON shaped like
+ * `rules: { operation-operationId: error, path-kebab-case: off }`.
+ */
+export const parseRuleset = (content: string): Ruleset => {
+  const parsed = parseSpecContent(content);
+  if (!isObject(parsed) || !isObject(parsed.rules)) {
+    throw new Error('A ruleset must contain a "rules" map');
+  }
+  const rules: Record<string, RuleSeverity> = {};
+  Object.entries(parsed.rules).forEach(([id, value]) => {
+    if (!BUILT_IN_RULES.some(rule => rule.id === id)) {
+      throw new Error(`Unknown rule: ${id}`);
+    }
+    // Spectral-style `false` disables a rule.
+    const severity = value === false ? 'off' : value === 'warning' ? 'warn' : value;
+    if (!RULE_SEVERITIES.includes(severity as RuleSeverity)) {
+      throw new Error(`Invalid severity for ${id}: ${String(value)}`);
+    }
+    rules[id] = severity as RuleSeverity;
+  });
+  return { rules };
+};
+
+export const serializeRuleset = (ruleset: Ruleset): string =>
+  JSON.stringify({
+    rules: Object.fromEntries(BUILT_IN_RULES.map(rule => [rule.id, getRuleSeverity(ruleset, rule)])),
+  }, null, 2);
+
+/**
+ * Runs every enabled rule against a parsed spec. A rule that throws on an
+ * unexpected document shape is skipped rather than failing the whole run.
+ */
+export const lintSpec = (spec: unknown, ruleset: Ruleset = DEFAULT_RULESET): Array<LintFinding & { severity: RuleSeverity }> => {
+  if (!isObject(spec)) return [];
+  return BUILT_IN_RULES.flatMap(rule => {
+    const severity = getRuleSeverity(ruleset, rule);
+    if (severity === 'off') return [];
+    try {
+      return rule.check(spec as OpenApiDocument).map(finding => ({ ...finding, rule: rule.id, severity }));
+    } catch {
+      return [];
+    }
+  });
+};
+
+const ISSUE_SEVERITY: Record<Exclude<RuleSeverity, 'off'>, IssueSeverity> = {
+  error: 'error',
+  warn: 'warning',
+  info: 'info',
+};
+
+/**
+ * Lints a spec and places each finding in the source it was parsed from.
+ */
+export const lintIssues = (
+  spec: unknown,
+  ruleset: Ruleset,
+  locate: (segments: string[], target?: 'key' | 'value') => SourceRange,
+): SpecIssue[] =>
+  lintSpec(spec, ruleset).map(finding => ({
+    ...locate(finding.path, finding.target),
+    message: `${finding.message} (${finding.rule})`,
+    severity: ISSUE_SEVERITY[finding.severity as Exclude<RuleSeverity, 'off'>],
+    path: toPointer(finding.path),
+    source: 'lint',
+  }));
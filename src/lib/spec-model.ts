@@ -0,0 +1,244 @@
+import { HTTP_METHODS, type HttpMethod, type OpenApiDocument, type OperationObject, type ParameterObject, type PathItemObject, type SchemaObject } from './openapi-types';
+
+export interface ReferenceIssue {
+  ref: string;
+  // JSON pointer of the node holding the `$ref`, e.g. `/paths/~1products/get/responses/200`.
+  location: string;
+  message: string;
+}
+
+export interface SpecModel {
+  // The document exactly as parsed.
+  document: OpenApiDocument | null;
+  // The same document with every resolvable local `$ref` replaced by its target.
+  // References that would recurse forever are left in place as `$ref` objects.
+  dereferenced: OpenApiDocument | null;
+  circularRefs: string[];
+  externalRefs: string[];
+  errors: ReferenceIssue[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const isReference = (value: unknown): value is { $ref: string } =>
+  isObject(value) && typeof value.$ref === 'string';
+
+export const escapePointerSegment = (segment: string) => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+export const unescapePointerSegment = (segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~');
+
+const splitPointer = (path: string, pointer: string, decode: (segment: string) => string): string[] => {
+  if (path === '' || path === '/') return [];
+  if (!path.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+  return path
+    .slice(1)
+    .split('/')
+    .map(segment => unescapePointerSegment(decode(segment)));
+};
+
+/**
+ * Splits a plain JSON pointer (`/a/b~1c`), such as an Ajv `instancePath`,
+ * into segments. Only `~1` and `~0` are unescaped; `%` is an ordinary character.
+ */
+export const parseJsonPointer = (pointer: string): string[] => splitPointer(pointer, pointer, segment => segment);
+
+/**
+ * Splits a local reference (`#/a/b~1c`) into unescaped segments. The
+ * fragment is URI-encoded, so each segment is percent-decoded first; a
+ * pointer without `#` is read as a plain JSON pointer.
+ */
+export const parsePointer = (pointer: string): string[] =>
+  pointer.startsWith('#')
+    ? splitPointer(pointer.slice(1), pointer, decodeURIComponent)
+    : parseJsonPointer(pointer);
+
+export const toPointer = (segments: Array<string | number>): string =>
+  segments.length === 0 ? '' : '/' + segments.map(segment => escapePointerSegment(String(segment))).join('/');
+
+export const isLocalRef = (ref: string) => ref.startsWith('#');
+
+/**
+ * Returns the value addressed by a JSON pointer, throwing when any segment
+ * is missing.
+ */
+export const resolvePointer = (document: unknown, pointer: string): unknown => {
+  let node: unknown = document;
+  for (const segment of parsePointer(pointer)) {
+    if (Array.isArray(node) && /^\d+$/.test(segment) && Number(segment) < node.length) {
+      node = node[Number(segment)];
+    } else if (isObject(node) && segment in node) {
+      node = node[segment];
+    } else {
+      throw new Error(`Cannot resolve reference ${pointer}: "${segment}" not found`);
+    }
+  }
+  return node;
+};
+
+/**
+ * Follows a chain of local references starting at `node` until it reaches a
+ * non-reference value. Throws on missing targets and on reference cycles.
+ */
+export const resolveRef = <T = unknown>(document: unknown, node: unknown): T => {
+  const visited: string[] = [];
+  let current = node;
+  while (isReference(current) && isLocalRef(current.$ref)) {
+    if (visited.includes(current.$ref)) {
+      throw new Error(`Circular reference: ${[...visited, current.$ref].join(' -> ')}`);
+    }
+    visited.push(current.$ref);
+    current = resolvePointer(document, current.$ref);
+  }
+  return current as T;
+};
+
+/**
+ * Like `resolveRef`, but returns undefined instead of throwing so callers
+ * rendering partially broken specs can carry on.
+ */
+export const tryResolveRef = <T = unknown>(document: unknown, node: unknown): T | undefined => {
+  try {
+    return resolveRef<T>(document, node);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Builds the dereferenced view of a document. Each reference target is
+ * expanded once and shared between every place that points at it, so the
+ * result stays small even for heavily componentized specs.
+ */
+export const createSpecModel = (document: OpenApiDocument | null | undefined): SpecModel => {
+  const model: SpecModel = {
+    document: document ?? null,
+    dereferenced: null,
+    circularRefs: [],
+    externalRefs: [],
+    errors: [],
+  };
+  if (!isObject(document)) return model;
+
+  const cache = new Map<string, unknown>();
+
+  const walk = (node: unknown, location: Array<string | number>, stack: string[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item, index) => walk(item, [...location, index], stack));
+    }
+    if (!isObject(node)) return node;
+
+    if (isReference(node)) {
+      const ref = node.$ref;
+      if (!isLocalRef(ref)) {
+        if (!model.externalRefs.includes(ref)) model.externalRefs.push(ref);
+        return node;
+      }
+      if (stack.includes(ref)) {
+        if (!model.circularRefs.includes(ref)) model.circularRefs.push(ref);
+        return node;
+      }
+
+      let resolved: unknown;
+      if (cache.has(ref)) {
+        resolved = cache.get(ref);
+      } else {
+        let target: unknown;
+        try {
+          target = resolvePointer(document, ref);
+        } catch (error) {
+          // Component definitions are walked both in place and through references; report once.
+          const pointer = toPointer(location);
+          if (!model.errors.some(issue => issue.ref === ref && issue.location === pointer)) {
+            model.errors.push({
+              ref,
+              location: pointer,
+              message: error instanceof Error ? error.message : `Cannot resolve reference ${ref}`,
+            });
+          }
+          return node;
+        }
+        resolved = walk(target, parsePointer(ref), [...stack, ref]);
+        cache.set(ref, resolved);
+      }
+
+      // OpenAPI 3.1 allows `summary`/`description` next to `$ref`; they override the target's.
+      const siblings = Object.keys(node).filter(key => key !== '$ref');
+      if (siblings.length === 0 || !isObject(resolved)) return resolved;
+      const merged: Record<string, unknown> = { ...resolved };
+      siblings.forEach(key => {
+        merged[key] = walk(node[key], [...location, key], stack);
+      });
+      return merged;
+    }
+
+    const result: Record<string, unknown> = {};
+    Object.entries(node).forEach(([key, value]) => {
+      result[key] = walk(value, [...location, key], stack);
+    });
+    return result;
+  };
+
+  model.dereferenced = walk(document, [], []) as OpenApiDocument;
+  return model;
+};
+
+export interface OperationEntry {
+  path: string;
+  method: HttpMethod;
+  operation: OperationObject;
+  pathItem: PathItemObject;
+}
+
+/**
+ * Lists every operation in document order. Path items that are references
+ * are followed, so the result works on raw and dereferenced documents alike.
+ */
+export const listOperations = (document: OpenApiDocument | null | undefined): OperationEntry[] => {
+  const entries: OperationEntry[] = [];
+  Object.entries(document?.paths || {}).forEach(([path, item]) => {
+    const pathItem = tryResolveRef<PathItemObject>(document, item);
+    if (!isObject(pathItem)) return;
+    HTTP_METHODS.forEach(method => {
+      const operation = pathItem[method];
+      if (isObject(operation)) {
+        entries.push({ path, method, operation: operation as OperationObject, pathItem });
+      }
+    });
+  });
+  return entries;
+};
+
+/**
+ * Operation parameters merged with the path-level ones; an operation
+ * parameter overrides a path parameter with the same name and location.
+ */
+export const getOperationParameters = (document: OpenApiDocument | null | undefined, entry: OperationEntry): ParameterObject[] => {
+  const resolve = (parameters: ParameterObject[] = []) =>
+    parameters.map(parameter => tryResolveRef<ParameterObject>(document, parameter)).filter(isObject) as ParameterObject[];
+  const operationParameters = resolve(entry.operation.parameters);
+  const inherited = resolve(entry.pathItem.parameters).filter(parameter =>
+    !operationParameters.some(own => own.name === parameter.name && own.in === parameter.in)
+  );
+  return [...inherited, ...operationParameters];
+};
+
+/**
+ * The schema of a parameter. Swagger 2.0 non-body parameters describe their
+ * type inline instead of through `schema`.
+ */
+export const getParameterSchema = (parameter: ParameterObject): SchemaObject | undefined => {
+  if (parameter.schema) return parameter.schema;
+  if (!parameter.type) return undefined;
+  const schema: SchemaObject = { type: parameter.type };
+  const inlineKeywords = [
+    'format', 'items', 'enum', 'default', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+    'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'multipleOf',
+  ];
+  inlineKeywords.forEach(keyword => {
+    if (parameter[keyword] !== undefined) schema[keyword] = parameter[keyword];
+  });
+  return schema;
+};
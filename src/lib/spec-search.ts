@@ -0,0 +1,158 @@
+import { getOperationRouteId } from './app-routes';
+import { escapePointerSegment, isReference, listOperations, parsePointer, tryResolveRef } from './spec-model';
+import type { HttpMethod, OpenApiDocument, ParameterObject, SchemaObject } from './openapi-types';
+
+export type SearchEntryKind = 'operation' | 'tag' | 'schema' | 'parameter';
+
+// Where a search result can be opened
+export type SearchDestination = 'viewer' | 'editor' | 'try-it';
+
+export interface SpecSearchEntry {
+  // Unique across the workspace
+  key: string;
+  specId: string;
+  kind: SearchEntryKind;
+  label: string;
+  detail?: string;
+  method?: HttpMethod;
+  // Lower-cased text the query is matched against
+  searchText: string;
+  // Location in the root document, revealed in the editor
+  segments: string[];
+  // End of the Redoc section id, for entries the documentation renders
+  sectionId?: string;
+  // Operation to open in the Try It console
+  operationRouteId?: string;
+}
+
+interface SearchableSpec {
+  id: string;
+  parsed: OpenApiDocument | null;
+}
+
+export const getDefaultDestination = (entry: SpecSearchEntry): SearchDestination =>
+  entry.sectionId ? 'viewer' : 'editor';
+
+export const canOpenIn = (entry: SpecSearchEntry, destination: SearchDestination): boolean => {
+  if (destination === 'viewer') return !!entry.sectionId;
+  if (destination === 'try-it') return !!entry.operationRouteId;
+  return true;
+};
+
+const toSearchText = (...parts: Array<string | undefined>) => parts.filter(Boolean).join(' ').toLowerCase();
+
+// Redoc names operations without an operationId after their JSON pointer
+const operationSectionId = (path: string, method: string, operationId?: string) =>
+  operationId ? `operation/${operationId}` : `paths/${escapePointerSegment(path)}/${method}`;
+
+const indexSpec = (spec: SearchableSpec): SpecSearchEntry[] => {
+  const document = spec.parsed;
+  if (!document) return [];
+  const entries: SpecSearchEntry[] = [];
+  const tagNames = new Set<string>();
+
+  listOperations(document).forEach(({ path, method, operation, pathItem }) => {
+    const routeId = getOperationRouteId(path, method, operation);
+    const sectionId = operationSectionId(path, method, operation.operationId);
+    const label = `${method.toUpperCase()} ${path}`;
+    (operation.tags || []).forEach(tag => tagNames.add(tag));
+
+    entries.push({
+      key: `${spec.id}:operation:${label}`,
+      specId: spec.id,
+      kind: 'operation',
+      label,
+      detail: operation.summary || operation.operationId,
+      method,
+      searchText: toSearchText(method, path, operation.operationId, operation.summary, ...(operation.tags || [])),
+      segments: ['paths', path, method],
+      sectionId,
+      operationRouteId: routeId,
+    });
+
+    const addParameters = (parameters: unknown[] | undefined, base: string[]) => {
+      (parameters || []).forEach((raw, index) => {
+        const parameter = tryResolveRef<ParameterObject>(document, raw);
+        if (!parameter?.name) return;
+        // Shared parameters are edited where they are declared
+        const segments = isReference(raw) && raw.$ref.startsWith('#') ? parsePointer(raw.$ref) : [...base, String(index)];
+        entries.push({
+          key: `${spec.id}:parameter:${label}:${[...base, index].join('/')}`,
+          specId: spec.id,
+          kind: 'parameter',
+          label: parameter.name,
+          detail: `${parameter.in} · ${label}`,
+          method,
+          searchText: toSearchText(parameter.name, parameter.in, parameter.description, path),
+          segments,
+          sectionId,
+          operationRouteId: routeId,
+        });
+      });
+    };
+    addParameters(pathItem.parameters, ['paths', path, 'parameters']);
+    addParameters(operation.parameters, ['paths', path, method, 'parameters']);
+  });
+
+  (document.tags || []).forEach(tag => tagNames.add(tag.name));
+  tagNames.forEach(name => {
+    const index = (document.tags || []).findIndex(tag => tag.name === name);
+    const description = index === -1 ? undefined : document.tags?.[index].description;
+    entries.push({
+      key: `${spec.id}:tag:${name}`,
+      specId: spec.id,
+      kind: 'tag',
+      label: name,
+      detail: description,
+      searchText: toSearchText(name, description),
+      segments: index === -1 ? ['paths'] : ['tags', String(index)],
+      sectionId: `tag/${name}`,
+    });
+  });
+
+  const schemaBase = document.swagger ? ['definitions'] : ['components', 'schemas'];
+  const schemas = (document.swagger ? document.definitions as Record<string, SchemaObject> | undefined : document.components?.schemas) || {};
+  Object.entries(schemas).forEach(([name, schema]) => {
+    entries.push({
+      key: `${spec.id}:schema:${name}`,
+      specId: spec.id,
+      kind: 'schema',
+      label: name,
+      detail: schema?.title || schema?.description,
+      searchText: toSearchText(name, schema?.title),
+      segments: [...schemaBase, name],
+    });
+  });
+
+  return entries;
+};
+
+/** Indexes the operations, parameters, tags and schemas of every spec. */
+export const buildSearchIndex = (specs: SearchableSpec[]): SpecSearchEntry[] => specs.flatMap(indexSpec);
+
+const KIND_ORDER: Record<SearchEntryKind, number> = { operation: 0, tag: 1, schema: 2, parameter: 3 };
+
+/**
+ * Entries containing every word of the query, names that start with the
+ * query first. Returns nothing for an empty query.
+ */
+export const searchIndex = (entries: SpecSearchEntry[], query: string, limit = 50): SpecSearchEntry[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  const needle = words.join(' ');
+
+  const rank = (entry: SpecSearchEntry) => {
+    const label = entry.label.toLowerCase();
+    if (label === needle) return 0;
+    if (label.startsWith(needle) || label.includes(`/${needle}`)) return 1;
+    if (label.includes(needle)) return 2;
+    return 3;
+  };
+
+  return entries
+    .filter(entry => words.every(word => entry.searchText.includes(word) || entry.label.toLowerCase().includes(word)))
+    .map(entry => ({ entry, rank: rank(entry) }))
+    .sort((a, b) => a.rank - b.rank || KIND_ORDER[a.entry.kind] - KIND_ORDER[b.entry.kind])
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+};
@@ -0,0 +1,214 @@
+import { tryResolveRef } from './spec-model';
+import type {
+  OpenApiDocument,
+  OperationObject,
+  SecurityRequirementObject,
+  SecuritySchemeObject,
+} from './openapi-types';
+
+export type SecuritySchemeKind = 'basic' | 'bearer' | 'apiKey' | 'oauth2' | 'unsupported';
+
+export type OAuthGrant = 'clientCredentials' | 'password';
+
+export interface SecuritySchemeEntry {
+  name: string;
+  kind: SecuritySchemeKind;
+  scheme: SecuritySchemeObject;
+}
+
+export interface SchemeCredentials {
+  username?: string;
+  password?: string;
+  // Bearer token, API key value or OAuth2 access token.
+  token?: string;
+  grant?: OAuthGrant;
+  tokenUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  scopes?: string[];
+}
+
+// Credentials entered in the Authorize dialog, keyed by security scheme name.
+export type SpecCredentials = Record<string, SchemeCredentials>;
+
+export interface AppliedSecurity {
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  cookies: Record<string, string>;
+}
+
+export interface OperationSecurityStatus {
+  // Alternative requirement sets; any one of them authorizes the call.
+  requirements: SecurityRequirementObject[];
+  // The first requirement set whose schemes all have credentials.
+  satisfied: SecurityRequirementObject | null;
+  optional: boolean;
+}
+
+const getSchemeKind = (scheme: SecuritySchemeObject): SecuritySchemeKind => {
+  switch (scheme.type) {
+    case 'basic':
+      return 'basic';
+    case 'http': {
+      const httpScheme = (scheme.scheme || '').toLowerCase();
+      if (httpScheme === 'basic') return 'basic';
+      if (httpScheme === 'bearer') return 'bearer';
+      return 'unsupported';
+    }
+    case 'apiKey':
+      return scheme.name && scheme.in ? 'apiKey' : 'unsupported';
+    case 'oauth2':
+      return getOAuthGrants(scheme).length > 0 ? 'oauth2' : 'unsupported';
+    default:
+      return 'unsupported';
+  }
+};
+
+/**
+ * Security schemes declared by the spec, from `components.securitySchemes`
+ * or Swagger 2.0 `securityDefinitions`.
+ */
+export const listSecuritySchemes = (spec: OpenApiDocument | null | undefined): SecuritySchemeEntry[] => {
+  const schemes = spec?.components?.securitySchemes || spec?.securityDefinitions || {};
+  return Object.entries(schemes).flatMap(([name, value]) => {
+    const scheme = tryResolveRef<SecuritySchemeObject>(spec, value);
+    if (!scheme || typeof scheme !== 'object') return [];
+    return [{ name, kind: getSchemeKind(scheme), scheme }];
+  });
+};
+
+/**
+ * The grants the console can perform for an OAuth2 scheme, with the token
+ * URL and scopes the spec declares for each.
+ */
+export const getOAuthGrants = (scheme: SecuritySchemeObject): Array<{ grant: OAuthGrant; tokenUrl: string; scopes: Record<string, string> }> => {
+  if (scheme.flows) {
+    const grants: Array<{ grant: OAuthGrant; tokenUrl: string; scopes: Record<string, string> }> = [];
+    if (scheme.flows.clientCredentials) {
+      const { tokenUrl = '', scopes = {} } = scheme.flows.clientCredentials;
+      grants.push({ grant: 'clientCredentials', tokenUrl, scopes });
+    }
+    if (scheme.flows.password) {
+      const { tokenUrl = '', scopes = {} } = scheme.flows.password;
+      grants.push({ grant: 'password', tokenUrl, scopes });
+    }
+    return grants;
+  }
+  if (scheme.flow === 'application') return [{ grant: 'clientCredentials', tokenUrl: scheme.tokenUrl || '', scopes: scheme.scopes || {} }];
+  if (scheme.flow === 'password') return [{ grant: 'password', tokenUrl: scheme.tokenUrl || '', scopes: scheme.scopes || {} }];
+  return [];
+};
+
+export const hasCredentials = (kind: SecuritySchemeKind, credentials: SchemeCredentials | undefined) => {
+  if (!credentials) return false;
+  if (kind === 'basic') return Boolean(credentials.username);
+  return Boolean(credentials.token);
+};
+
+/**
+ * Works out which security requirements apply to an operation (its own
+ * `security`, else the spec-wide one) and which of them the current
+ * credentials satisfy. An empty requirement object makes auth optional.
+ */
+export const getOperationSecurity = (
+  spec: OpenApiDocument | null | undefined,
+  operation: OperationObject | null | undefined,
+  credentials: SpecCredentials
+): OperationSecurityStatus => {
+  const requirements = operation?.security || spec?.security || [];
+  const kinds = new Map(listSecuritySchemes(spec).map(entry => [entry.name, entry.kind]));
+
+  const satisfied = requirements.find(requirement => {
+    const names = Object.keys(requirement);
+    return names.length > 0 && names.every(name => hasCredentials(kinds.get(name) || 'unsupported', credentials[name]));
+  }) || null;
+
+  return {
+    requirements,
+    satisfied,
+    optional: requirements.length === 0 || requirements.some(requirement => Object.keys(requirement).length === 0),
+  };
+};
+
+/**
+ * `Basic` credentials for an Authorization header. The pair is encoded as
+ * UTF-8 first: `btoa` alone throws on characters above U+00FF.
+ */
+export const encodeBasicCredentials = (userPass: string) => {
+  const bytes = new TextEncoder().encode(userPass);
+  return `Basic ${btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))}`;
+};
+
+/**
+ * Headers, query parameters and cookies that authorize a call to the
+ * operation. Nothing is applied when no requirement set is fully satisfied.
+ */
+export const applySecurity = (
+  spec: OpenApiDocument | null | undefined,
+  operation: OperationObject | null | undefined,
+  credentials: SpecCredentials
+): AppliedSecurity => {
+  const applied: AppliedSecurity = { headers: {}, query: {}, cookies: {} };
+  const { satisfied } = getOperationSecurity(spec, operation, credentials);
+  if (!satisfied) return applied;
+
+  const schemes = new Map(listSecuritySchemes(spec).map(entry => [entry.name, entry]));
+  Object.keys(satisfied).forEach(name => {
+    const entry = schemes.get(name);
+    const value = credentials[name];
+    if (!entry || !value) return;
+
+    switch (entry.kind) {
+      case 'basic':
+        applied.headers.Authorization = encodeBasicCredentials(`${value.username || ''}:${value.password || ''}`);
+        break;
+      case 'bearer':
+      case 'oauth2':
+        applied.headers.Authorization = `Bearer ${value.token}`;
+        break;
+      case 'apiKey': {
+        const target = entry.scheme.in === 'query' ? applied.query : entry.scheme.in === 'cookie' ? applied.cookies : applied.headers;
+        target[entry.scheme.name as string] = value.token || '';
+        break;
+      }
+    }
+  });
+  return applied;
+};
+
+export const formatCookieHeader = (cookies: Record<string, string>) =>
+  Object.entries(cookies).map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join('; ');
+
+/**
+ * Requests an access token using the OAuth2 client-credentials or password
+ * grant. Client credentials are sent with HTTP Basic auth as RFC 6749
+ * recommends.
+ */
+export const fetchOAuthToken = async (credentials: SchemeCredentials): Promise<string> => {
+  if (!credentials.tokenUrl) throw new Error('Token URL is required');
+
+  const body = new URLSearchParams();
+  body.set('grant_type', credentials.grant === 'password' ? 'password' : 'client_credentials');
+  if (credentials.grant === 'password') {
+    body.set('username', credentials.username || '');
+    body.set('password', credentials.password || '');
+  }
+  if (credentials.scopes?.length) body.set('scope', credentials.scopes.join(' '));
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (credentials.clientId) {
+    headers.Authorization = encodeBasicCredentials(`${credentials.clientId}:${credentials.clientSecret || ''}`);
+  }
+
+  const response = await fetch(credentials.tokenUrl, { method: 'POST', headers, body: body.toString() });
+  const payload = await response.json().catch(() => null) as { access_token?: string; error?: string; error_description?: string } | null;
+
+  if (!response.ok || !payload?.access_token) {
+    const reason = payload?.error_description || payload?.error || `${response.status} ${response.statusText}`.trim();
+    throw new Error(`Token request failed: ${reason}`);
+  }
+  return payload.access_token;
+};
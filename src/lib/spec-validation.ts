@@ -0,0 +1,268 @@
+import Ajv2020 from 'ajv/dist/2020';
+import AjvDraft04 from 'ajv-draft-04';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+import { openapi } from '@apidevtools/openapi-schemas';
+import { isMap, isScalar, isSeq, LineCounter, parseDocument, type Document, type Node } from 'yaml';
+import { createSpecModel, parseJsonPointer } from './spec-model';
+import type { OpenApiDocument } from './openapi-types';
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+export interface SourceRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface SpecIssue extends SourceRange {
+  message: string;
+  severity: IssueSeverity;
+  // JSON pointer of the offending node, when known.
+  path?: string;
+  source: 'syntax' | 'schema' | 'reference' | 'lint';
+}
+
+export type SpecVersion = '2.0' | '3.0' | '3.1';
+
+export interface PositionedDocument {
+  value: unknown;
+  syntaxIssues: SpecIssue[];
+  // Source range of the node at `segments`, or of its nearest existing ancestor.
+  locate: (segments: string[], target?: 'key' | 'value') => SourceRange;
+}
+
+const START_OF_FILE: SourceRange = { line: 1, column: 1, endLine: 1, endColumn: 1 };
+
+/**
+ * Parses YAML or JSON keeping track of where every node came from, so issues
+ * found on the parsed value can be reported at their line and column.
+ */
+export const parseWithPositions = (content: string): PositionedDocument => {
+  const lineCounter = new LineCounter();
+  const document: Document = parseDocument(content, { lineCounter, uniqueKeys: false });
+
+  const toRange = (range: [number, number, number] | null | undefined): SourceRange => {
+    if (!range) return START_OF_FILE;
+    const start = lineCounter.linePos(range[0]);
+    const end = lineCounter.linePos(range[1]);
+    return { line: start.line, column: start.col, endLine: end.line, endColumn: end.col };
+  };
+
+  const syntaxIssues: SpecIssue[] = document.errors.map(error => {
+    const [start, end] = error.linePos || [];
+    return {
+      message: error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, ''),
+      severity: 'error',
+      source: 'syntax',
+      line: start?.line ?? 1,
+      column: start?.col ?? 1,
+      endLine: end?.line ?? start?.line ?? 1,
+      endColumn: end?.col ?? (start ? start.col + 1 : 1),
+    };
+  });
+
+  const locate = (segments: string[], target: 'key' | 'value' = 'value'): SourceRange => {
+    let node = document.contents as Node | null;
+    let keyNode: Node | null = null;
+
+    for (const segment of segments) {
+      if (isMap(node)) {
+        const pair = node.items.find(item => String(isScalar(item.key) ? item.key.value : item.key) === segment);
+        if (!pair) break;
+        keyNode = pair.key as Node;
+        node = pair.value as Node;
+      } else if (isSeq(node) && /^\d+$/.test(segment) && Number(segment) < node.items.length) {
+        keyNode = null;
+        node = node.items[Number(segment)] as Node;
+      } else {
+        break;
+      }
+    }
+
+    if (target === 'key' && keyNode) return toRange(keyNode.range);
+    if (node?.range) {
+      // Point at the first line of a block value rather than spanning all of it.
+      const range = toRange(node.range);
+      return range.endLine > range.line && keyNode ? toRange(keyNode.range) : range;
+    }
+    return keyNode ? toRange(keyNode.range) : START_OF_FILE;
+  };
+
+  let value: unknown = null;
+  if (syntaxIssues.length === 0) {
+    value = document.toJS({ maxAliasCount: -1 });
+  }
+  return { value, syntaxIssues, locate };
+};
+
+export const detectSpecVersion = (spec: unknown): SpecVersion | null => {
+  if (!spec || typeof spec !== 'object') return null;
+  const { openapi: openapiVersion, swagger } = spec as { openapi?: unknown; swagger?: unknown };
+  if (typeof swagger === 'string' || typeof swagger === 'number') return String(swagger).startsWith('2') ? '2.0' : null;
+  if (typeof openapiVersion === 'string') {
+    if (openapiVersion.startsWith('3.1')) return '3.1';
+    if (openapiVersion.startsWith('3.0')) return '3.0';
+  }
+  return null;
+};
+
+// Ajv only honours `$dynamicAnchor` at the root of a schema resource, so the
+// 3.1 meta-schema's `$dynamicRef: '#meta'` would resolve to the whole
+// document. Point it at the schema-object definition instead.
+const withStaticMetaRefs = (node: unknown): unknown => {
+  if (Array.isArray(node)) return node.map(withStaticMetaRefs);
+  if (!node || typeof node !== 'object') return node;
+  const result: Record<string, unknown> = {};
+  Object.entries(node).forEach(([key, value]) => {
+    if (key === '$dynamicAnchor') return;
+    if (key === '$dynamicRef' && value === '#meta') result.$ref = '#/$defs/schema';
+    else result[key] = withStaticMetaRefs(value);
+  });
+  return result;
+};
+
+const validators = new Map<SpecVersion, ValidateFunction>();
+
+// Compiling a meta-schema is expensive, so each version is compiled on first use.
+const getValidator = (version: SpecVersion): ValidateFunction => {
+  if (!validators.has(version)) {
+    const options = { allErrors: true, strict: false, validateFormats: false };
+    const validator = version === '3.1'
+      ? new Ajv2020(options).compile(withStaticMetaRefs(openapi.v31) as object)
+      : new AjvDraft04(options).compile(version === '2.0' ? openapi.v2 : openapi.v3);
+    validators.set(version, validator);
+  }
+  return validators.get(version);
+};
+
+const readablePath = (segments: string[]) => segments.length === 0 ? 'document' : segments.join('.');
+
+const COMBINATOR_KEYWORDS = ['oneOf', 'anyOf', 'if', 'then', 'else', 'not', '$ref', '$dynamicRef'];
+
+/**
+ * Ajv reports every failing `oneOf` branch. Keep the errors that say what is
+ * actually wrong: drop combinator summaries when more specific errors exist,
+ * drop "missing $ref" from the Reference branch and merge alternative enums.
+ */
+export const simplifyErrors = (errors: ErrorObject[]): ErrorObject[] => {
+  const specific = errors.filter(error => !COMBINATOR_KEYWORDS.includes(error.keyword));
+  const pathsWithSpecific = new Set(specific.map(error => error.instancePath));
+
+  const kept = errors.filter(error => {
+    if (COMBINATOR_KEYWORDS.includes(error.keyword)) {
+      return ![...pathsWithSpecific].some(path => path.startsWith(error.instancePath));
+    }
+    if (error.keyword === 'required' && error.params.missingProperty === '$ref') {
+      return !specific.some(other => other !== error && other.instancePath === error.instancePath);
+    }
+    return true;
+  });
+
+  const merged = new Map<string, ErrorObject>();
+  kept.forEach(error => {
+    const key = error.keyword === 'enum'
+      ? `${error.instancePath}|enum`
+      : `${error.instancePath}|${error.keyword}|${JSON.stringify(error.params)}`;
+    const existing = merged.get(key);
+    if (existing && error.keyword === 'enum') {
+      const values = new Set([...(existing.params.allowedValues || []), ...(error.params.allowedValues || [])]);
+      existing.params = { allowedValues: [...values] };
+    } else if (!existing) {
+      merged.set(key, { ...error, params: { ...error.params } });
+    }
+  });
+  return [...merged.values()];
+};
+
+const describeError = (error: ErrorObject, segments: string[]): { message: string; segments: string[]; target: 'key' | 'value' } => {
+  switch (error.keyword) {
+    case 'required':
+      return {
+        message: `${readablePath(segments)}: missing required property '${error.params.missingProperty}'`,
+        segments,
+        target: 'key',
+      };
+    case 'additionalProperties':
+      return {
+        message: `${readablePath(segments)}: unexpected property '${error.params.additionalProperty}'`,
+        segments: [...segments, String(error.params.additionalProperty)],
+        target: 'key',
+      };
+    case 'enum':
+      return {
+        message: `${readablePath(segments)}: must be one of ${error.params.allowedValues.map(String).join(', ')}`,
+        segments,
+        target: 'value',
+      };
+    default:
+      return { message: `${readablePath(segments)}: ${error.message}`, segments, target: 'value' };
+  }
+};
+
+export interface DocumentValidation {
+  parsed: unknown;
+  version: SpecVersion | null;
+  issues: SpecIssue[];
+  positions: PositionedDocument;
+}
+
+/**
+ * Validates a spec source: syntax, the OpenAPI 2.0/3.0/3.1 meta-schema
+ * matching its declared version, and local `$ref` resolution. Every issue
+ * carries the source range of the node it is about.
+ */
+export const validateDocument = (content: string): DocumentValidation => {
+  const positions = parseWithPositions(content);
+  const issues: SpecIssue[] = [...positions.syntaxIssues];
+  const parsed = positions.value;
+  const version = detectSpecVersion(parsed);
+
+  if (issues.length > 0 || !parsed || typeof parsed !== 'object') {
+    if (issues.length === 0) {
+      issues.push({ ...START_OF_FILE, message: 'Document must be a YAML or JSON object', severity: 'error', source: 'syntax' });
+    }
+    return { parsed: null, version, issues, positions };
+  }
+
+  if (!version) {
+    const declared = (parsed as { openapi?: unknown; swagger?: unknown });
+    const hasField = declared.openapi !== undefined || declared.swagger !== undefined;
+    issues.push({
+      ...positions.locate([declared.openapi !== undefined ? 'openapi' : 'swagger']),
+      message: hasField
+        ? 'Unsupported version: expected swagger 2.0 or openapi 3.0.x / 3.1.x'
+        : 'Missing required field: openapi or swagger',
+      severity: 'error',
+      source: 'schema',
+    });
+    return { parsed, version, issues, positions };
+  }
+
+  const validate = getValidator(version);
+  if (!validate(parsed)) {
+    simplifyErrors(validate.errors || []).forEach(error => {
+      const described = describeError(error, parseJsonPointer(error.instancePath));
+      issues.push({
+        ...positions.locate(described.segments, described.target),
+        message: described.message,
+        severity: 'error',
+        path: error.instancePath,
+        source: 'schema',
+      });
+    });
+  }
+
+  createSpecModel(parsed as OpenApiDocument).errors.forEach(issue => {
+    issues.push({
+      ...positions.locate([...parseJsonPointer(issue.location), '$ref'], 'value'),
+      message: `Unresolved $ref '${issue.ref}' at ${issue.location || '/'}`,
+      severity: 'warning',
+      path: issue.location,
+      source: 'reference',
+    });
+  });
+
+  issues.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { parsed, version, issues, positions };
+};
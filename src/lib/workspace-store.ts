@@ -0,0 +1,98 @@
+import type { OpenApiDocument } from './openapi-types';
+import type { SpecFile } from './spec-bundle';
+import type { Ruleset } from './spec-lint';
+
+export interface ApiSpec {
+  id: string;
+  name: string;
+  content: string;
+  parsed: OpenApiDocument | null;
+  // Multi-file specs keep every file; `content` mirrors the entry file.
+  files?: SpecFile[];
+  rootFile?: string;
+}
+
+export interface WorkspaceSnapshot {
+  specs: ApiSpec[];
+  selectedSpecId: string;
+  activeTab: string;
+  theme: 'light' | 'dark';
+  sidebarCollapsed: boolean;
+  editorCollapsed: boolean;
+  lintRuleset: Ruleset;
+}
+
+const DB_NAME = 'apidoc-studio';
+const DB_VERSION = 4;
+const WORKSPACE_STORE = 'workspace';
+export const REVISION_STORE = 'revisions';
+export const HISTORY_STORE = 'requestHistory';
+export const SAVED_REQUEST_STORE = 'savedRequests';
+export const ENVIRONMENT_STORE = 'environments';
+const WORKSPACE_KEY = 'current';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Opens (and on first use creates or upgrades) the studio database. The
+ * connection is shared for the lifetime of the page.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(WORKSPACE_STORE)) {
+          database.createObjectStore(WORKSPACE_STORE);
+        }
+        [REVISION_STORE, HISTORY_STORE, SAVED_REQUEST_STORE, ENVIRONMENT_STORE].forEach(name => {
+          if (!database.objectStoreNames.contains(name)) {
+            database.createObjectStore(name, { keyPath: 'id' }).createIndex('specId', 'specId');
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry instead of caching the failure.
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+/**
+ * Returns the saved workspace, or null when nothing has been saved yet.
+ */
+export const loadWorkspace = async (): Promise<WorkspaceSnapshot | null> => {
+  const database = await openDatabase();
+  const store = database.transaction(WORKSPACE_STORE, 'readonly').objectStore(WORKSPACE_STORE);
+  const snapshot = await requestToPromise<WorkspaceSnapshot | undefined>(store.get(WORKSPACE_KEY));
+  return snapshot && Array.isArray(snapshot.specs) ? snapshot : null;
+};
+
+export const saveWorkspace = async (snapshot: WorkspaceSnapshot): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(WORKSPACE_STORE, 'readwrite');
+  transaction.objectStore(WORKSPACE_STORE).put(snapshot, WORKSPACE_KEY);
+  await transactionDone(transaction);
+};
+
+export const createSpecId = () => `spec-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;